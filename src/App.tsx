@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useState } from "react";
-import { createPortfolioDataSource, type PortfolioDataSource, computeLocalHoldings, computeLocalExpiring, loadLocalTransactions, saveLocalAppConfig } from "./data/dataSource";
+import { createPortfolioDataSource, type PortfolioDataSource, computeAccountHoldings, computeLocalHoldings, computeLocalExpiring, loadLocalTransactions, loadLocalAppConfig, saveLocalAppConfig } from "./data/dataSource";
 import { useAuth } from "./auth/AuthContext";
 import {
   getProfileOverview,
@@ -8,6 +8,12 @@ import {
   createInitialProfile,
   createAdditionalProfile,
   loginProfile,
+  getProfileLoginLock,
+  loginProfileWithPasskey,
+  profileHasPasskey,
+  registerActiveProfilePasskey,
+  removeActiveProfilePasskey,
+  getActiveProfilePasskeyCreatedAt,
   resetActiveProfileData,
   verifyActiveProfilePin,
   renameActiveProfile,
@@ -16,11 +22,22 @@ import {
   getActiveProfileSummary,
   logoutActiveProfileSession,
 } from "./auth/profileStore";
+import { isPasskeySupported } from "./auth/passkey";
+import {
+  PROFILE_BACKUP_FILE_EXTENSION,
+  createProfileBackup,
+  readProfileBackup,
+  restoreProfileBackup,
+} from "./data/profileBackup";
 import { t, Language, getDefaultLanguage } from "./i18n";
 import { CURRENT_CSV_SCHEMA_VERSION, CSV_SCHEMA_VERSION_COLUMN } from "./data/csvSchema";
-import { Transaction, HoldingsItem, HoldingsResponse, CsvImportResult, AppConfig, ExpiringHolding } from "./domain/types";
-import { DEFAULT_HOLDING_PERIOD_DAYS, DEFAULT_UPCOMING_WINDOW_DAYS } from "./domain/config";
+import { Account, AccountType, BalanceReconciliation, Transaction, HoldingsItem, HoldingsResponse, CsvImportResult, AppConfig, CostBasisMethod, ExpiringHolding, ImportProgress, ImportPreview, ImportBatch, ImportKind, ImportDateFormat, ImportMappableField, ImportTable, ImportTemplate, ReportedBalanceImportFormat } from "./domain/types";
+import { DEFAULT_AUTO_LOCK_MINUTES, DEFAULT_HOLDING_PERIOD_DAYS, DEFAULT_TRANSFER_MATCH_FEE_TOLERANCE_PERCENT, DEFAULT_TRANSFER_MATCH_WINDOW_HOURS, DEFAULT_UPCOMING_WINDOW_DAYS } from "./domain/config";
 import { getAssetMetadata, getTxExplorerUrl } from "./domain/assets";
+import { COST_BASIS_METHODS, computeCostBasisLots, normalizeCostBasisMethod, summarizeRealizedGains } from "./domain/costBasis";
+import { buildForm8949Report, buildPrivateSalesReport, findTaxLossHarvestingCandidates, formatForm8949Date, isWithinHoldingPeriod, simulateSale, type Form8949Row, type IncomeReport, type ScheduleDTotals } from "./domain/taxReports";
+import { DEFAULT_DUPLICATE_AMOUNT_TOLERANCE_PERCENT, DEFAULT_DUPLICATE_WINDOW_MINUTES, type DuplicateCandidatePair } from "./domain/duplicates";
+import { IMPORT_DATE_FORMATS, IMPORT_MAPPABLE_FIELDS, IMPORT_TX_TYPES, REQUIRED_IMPORT_FIELDS, collectDistinctColumnValues, createImportTemplate, isValidTimeZone, mapImportRow, suggestImportColumns } from "./domain/importMapping";
 import { applyPricesToHoldings, setCoingeckoApiKey, fetchHistoricalPriceForSymbol, getPriceApiStatus } from "./data/priceService";
 import packageJson from "../package.json";
 
@@ -31,6 +48,57 @@ const LOCAL_STORAGE_LANG_KEY = "traeky_lang";
 
 
 
+const IMPORT_FIELD_LABEL_KEYS: Record<ImportMappableField, string> = {
+  timestamp: "form_timestamp",
+  asset_symbol: "form_asset",
+  tx_type: "form_type",
+  amount: "form_amount",
+  price_fiat: "form_price",
+  fiat_value: "import_wizard_field_fiat_value",
+  fiat_currency: "form_fiat_currency",
+  fee_amount: "form_fee_amount",
+  fee_asset: "form_fee_asset",
+  source: "form_source",
+  note: "form_note",
+  tx_id: "form_tx_id",
+};
+
+// Import previews list at most this many new transactions.
+const IMPORT_PREVIEW_ROW_LIMIT = 200;
+
+const IMPORT_DATE_FORMAT_LABEL_KEYS: Record<ImportDateFormat, string> = {
+  ISO: "import_wizard_date_format_iso",
+  "DD.MM.YYYY": "import_wizard_date_format_dmy_dot",
+  "MM/DD/YYYY": "import_wizard_date_format_mdy_slash",
+  "DD/MM/YYYY": "import_wizard_date_format_dmy_slash",
+  UNIX_SECONDS: "import_wizard_date_format_unix_seconds",
+  UNIX_MILLISECONDS: "import_wizard_date_format_unix_milliseconds",
+};
+
+// Suggestions for the time zone fields; any IANA name is accepted.
+const IMPORT_TIMEZONE_SUGGESTIONS = [
+  "UTC",
+  "local",
+  "Europe/Berlin",
+  "Europe/London",
+  "America/New_York",
+  "Asia/Singapore",
+];
+
+const ACCOUNT_TYPES: AccountType[] = ["exchange", "hardware_wallet", "software_wallet"];
+
+// Holdings filter value for transactions without an account.
+const HOLDINGS_NO_ACCOUNT = "__none__";
+
+const IMPORT_KIND_LABEL_KEYS: Record<ImportKind, string> = {
+  local_csv: "import_history_kind_local_csv",
+  binance: "external_import_source_binance_xlsx",
+  bitpanda: "external_import_source_bitpanda_csv",
+  kraken: "external_import_source_kraken_csv",
+  coinbase: "external_import_source_coinbase_csv",
+  mapping: "import_history_kind_mapping",
+};
+
 function formatTxTypeLabel(txType: string | null | undefined): string {
   const code = (txType || "").toUpperCase();
   switch (code) {
@@ -199,6 +267,11 @@ const App: React.FC = () => {
   const [pinChangeNewPinConfirmInput, setPinChangeNewPinConfirmInput] = useState("");
   const [pinChangeError, setPinChangeError] = useState<string | null>(null);
 
+  const [isPasskeyOverlayOpen, setIsPasskeyOverlayOpen] = useState(false);
+  const [passkeyCreatedAt, setPasskeyCreatedAt] = useState<string | null>(null);
+  const [passkeyError, setPasskeyError] = useState<string | null>(null);
+  const [passkeyBusy, setPasskeyBusy] = useState(false);
+
   const profileDropdownRef = useRef<HTMLDivElement | null>(null);
   const [isProfileMenuOverlayOpen, setIsProfileMenuOverlayOpen] = useState(false);
 
@@ -317,6 +390,7 @@ const App: React.FC = () => {
   const [csvImporting, setCsvImporting] = useState(false);
   const [externalImportSource, setExternalImportSource] = useState<string>("binance_trade_xlsx");
   const [externalImporting, setExternalImporting] = useState(false);
+  const [externalImportProgress, setExternalImportProgress] = useState<ImportProgress | null>(null);
   const [externalImportResult, setExternalImportResult] = useState<CsvImportResult | null>(null);
   const [externalFileName, setExternalFileName] = useState<string | null>(null);
   const [showExternalImport, setShowExternalImport] = useState(false);
@@ -376,6 +450,95 @@ useEffect(() => {
   const [holdingPeriodInput, setHoldingPeriodInput] = useState<string>("");
   const [priceFetchEnabledInput, setPriceFetchEnabledInput] = useState<boolean>(true);
   const [coingeckoApiKeyInput, setCoingeckoApiKeyInput] = useState<string>("");
+  const [transferWindowInput, setTransferWindowInput] = useState<string>("");
+  const [transferToleranceInput, setTransferToleranceInput] = useState<string>("");
+  const [transferMatchBusy, setTransferMatchBusy] = useState(false);
+  const [autoLockMinutesInput, setAutoLockMinutesInput] = useState<string>("");
+  const [lockOnTabHiddenInput, setLockOnTabHiddenInput] = useState(false);
+  const [autoLockMessage, setAutoLockMessage] = useState<string | null>(null);
+  // Profile whose session was locked; its unsaved form input is kept for it.
+  const [lockedProfileId, setLockedProfileId] = useState<string | null>(null);
+  const [backupPasswordInput, setBackupPasswordInput] = useState("");
+  const [backupPasswordConfirmInput, setBackupPasswordConfirmInput] = useState("");
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restorePasswordInput, setRestorePasswordInput] = useState("");
+  const [restoreTarget, setRestoreTarget] = useState<"active" | "new">("new");
+  const [restoreNameInput, setRestoreNameInput] = useState("");
+  const [restorePinInput, setRestorePinInput] = useState("");
+  const [restorePinConfirmInput, setRestorePinConfirmInput] = useState("");
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [backupMessage, setBackupMessage] = useState<string | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [transferMatchMessage, setTransferMatchMessage] = useState<string | null>(null);
+  const [gainsYear, setGainsYear] = useState<string>(() => String(new Date().getFullYear()));
+  const [showPrivateSalesReport, setShowPrivateSalesReport] = useState(false);
+  const [showIncomeReport, setShowIncomeReport] = useState(false);
+  const [showForm8949Report, setShowForm8949Report] = useState(false);
+  const [showSaleSimulator, setShowSaleSimulator] = useState(false);
+  const [showHarvestReport, setShowHarvestReport] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importPreviewOrigin, setImportPreviewOrigin] = useState<"csv" | "external" | "wizard">("csv");
+  const [importConfirming, setImportConfirming] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [showImportHistory, setShowImportHistory] = useState(false);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [importBatchUndoing, setImportBatchUndoing] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [holdingsAccountFilter, setHoldingsAccountFilter] = useState("");
+  const [showAccounts, setShowAccounts] = useState(false);
+  const [accountForm, setAccountForm] = useState<Account>({
+    id: "",
+    name: "",
+    type: "exchange",
+    addresses: [],
+  });
+  const [accountAddressesInput, setAccountAddressesInput] = useState("");
+  const [accountDeleteId, setAccountDeleteId] = useState<string | null>(null);
+  const [accountMoveToId, setAccountMoveToId] = useState("");
+  const [accountError, setAccountError] = useState<string | null>(null);
+  const [showReconciliation, setShowReconciliation] = useState(false);
+  const [reconciliations, setReconciliations] = useState<BalanceReconciliation[]>([]);
+  const [reconcileForm, setReconcileForm] = useState({
+    account_id: "",
+    asset_symbol: "",
+    timestamp: toLocalInputValue(new Date()),
+    amount: "",
+  });
+  const [reconcileError, setReconcileError] = useState<string | null>(null);
+  const [reconcileImportFormat, setReconcileImportFormat] = useState<ReportedBalanceImportFormat>({
+    date_format: "ISO",
+    decimal_separator: ".",
+    timezone: "UTC",
+  });
+  const [reconcileImportResult, setReconcileImportResult] = useState<CsvImportResult | null>(null);
+  const [reconcileExpandedId, setReconcileExpandedId] = useState<string | null>(null);
+  const [showDuplicateFinder, setShowDuplicateFinder] = useState(false);
+  const [duplicateToleranceInput, setDuplicateToleranceInput] = useState(
+    String(DEFAULT_DUPLICATE_AMOUNT_TOLERANCE_PERCENT),
+  );
+  const [duplicateWindowInput, setDuplicateWindowInput] = useState(
+    String(DEFAULT_DUPLICATE_WINDOW_MINUTES),
+  );
+  const [duplicatePairs, setDuplicatePairs] = useState<DuplicateCandidatePair[] | null>(null);
+  const [duplicateBusy, setDuplicateBusy] = useState(false);
+  const [duplicateError, setDuplicateError] = useState<string | null>(null);
+  const [wizardStep, setWizardStep] = useState(1);
+  const [wizardFile, setWizardFile] = useState<File | null>(null);
+  const [wizardTable, setWizardTable] = useState<ImportTable | null>(null);
+  const [wizardTemplate, setWizardTemplate] = useState<ImportTemplate>(() => createImportTemplate(""));
+  const [importTemplates, setImportTemplates] = useState<ImportTemplate[]>([]);
+  const [wizardBusy, setWizardBusy] = useState(false);
+  const [wizardError, setWizardError] = useState<string | null>(null);
+  const [wizardResult, setWizardResult] = useState<CsvImportResult | null>(null);
+  const [simulatorForm, setSimulatorForm] = useState({
+    asset_symbol: "",
+    amount: "",
+    price: "",
+    timestamp: toLocalInputValue(new Date()),
+    tax_rate: "",
+  });
+  const [incomeReport, setIncomeReport] = useState<IncomeReport | null>(null);
+  const [incomeReportLoading, setIncomeReportLoading] = useState(false);
 
   const [form, setForm] = useState({
     asset_symbol: "IOTA",
@@ -389,6 +552,9 @@ useEffect(() => {
     tx_id: "",
     linked_tx_prev_id: "",
     linked_tx_next_id: "",
+    fee_amount: "",
+    fee_asset: "",
+    account_id: "",
   });
 
   const currentLocale = t(lang, "locale_code");
@@ -398,6 +564,17 @@ useEffect(() => {
       setHoldingPeriodInput(String(config.holding_period_days));
       setPriceFetchEnabledInput(config.price_fetch_enabled !== false);
       setCoingeckoApiKeyInput(config.coingecko_api_key ?? "");
+      setTransferWindowInput(
+        String(config.transfer_match_window_hours ?? DEFAULT_TRANSFER_MATCH_WINDOW_HOURS),
+      );
+      setTransferToleranceInput(
+        String(
+          config.transfer_match_fee_tolerance_percent ??
+            DEFAULT_TRANSFER_MATCH_FEE_TOLERANCE_PERCENT,
+        ),
+      );
+      setAutoLockMinutesInput(String(config.auto_lock_minutes ?? DEFAULT_AUTO_LOCK_MINUTES));
+      setLockOnTabHiddenInput(config.lock_on_tab_hidden === true);
     }
   }, [config]);
 
@@ -418,6 +595,153 @@ useEffect(() => {
   }, [config, holdingPeriodInput, coingeckoApiKeyInput]);
 
 
+  const accountHoldings = React.useMemo(
+    () =>
+      holdingsAccountFilter
+        ? computeAccountHoldings(transactions).filter(
+            (item) => (item.account_id ?? HOLDINGS_NO_ACCOUNT) === holdingsAccountFilter,
+          )
+        : [],
+    [transactions, holdingsAccountFilter],
+  );
+
+  const realizedGainComparison = React.useMemo(
+    () => {
+      const year = parseInt(gainsYear, 10);
+      if (!Number.isFinite(year)) {
+        return [];
+      }
+      const baseCurrency = config?.base_currency === "USD" ? "USD" : "EUR";
+      return COST_BASIS_METHODS.map((method) => ({
+        method,
+        summary: summarizeRealizedGains(
+          computeCostBasisLots(transactions, baseCurrency, method).realized,
+          year,
+        ),
+      }));
+    },
+    [transactions, config?.base_currency, gainsYear],
+  );
+
+  const wizardTypeValues = React.useMemo(
+    () =>
+      wizardTable ? collectDistinctColumnValues(wizardTable, wizardTemplate.columns.tx_type) : [],
+    [wizardTable, wizardTemplate.columns.tx_type],
+  );
+
+  const wizardPreview = React.useMemo(
+    () =>
+      wizardTable && wizardStep === 4
+        ? wizardTable.rows
+            .slice(0, 5)
+            .map((row) => mapImportRow(wizardTable.headers, row, wizardTemplate))
+        : [],
+    [wizardTable, wizardTemplate, wizardStep],
+  );
+
+  const wizardMissingFields = REQUIRED_IMPORT_FIELDS.filter(
+    (field) => !wizardTemplate.columns[field],
+  );
+
+  const privateSalesReport = React.useMemo(
+    () => {
+      const year = parseInt(gainsYear, 10);
+      if (!showPrivateSalesReport || !Number.isFinite(year)) {
+        return null;
+      }
+      return buildPrivateSalesReport(
+        transactions,
+        year,
+        config?.holding_period_days ?? DEFAULT_HOLDING_PERIOD_DAYS,
+        normalizeCostBasisMethod(config?.cost_basis_method),
+      );
+    },
+    [transactions, config?.holding_period_days, config?.cost_basis_method, gainsYear, showPrivateSalesReport],
+  );
+
+  const form8949Report = React.useMemo(
+    () => {
+      const year = parseInt(gainsYear, 10);
+      if (!showForm8949Report || !Number.isFinite(year)) {
+        return null;
+      }
+      return buildForm8949Report(transactions, year, normalizeCostBasisMethod(config?.cost_basis_method));
+    },
+    [transactions, config?.cost_basis_method, gainsYear, showForm8949Report],
+  );
+
+  const saleSimulation = React.useMemo(
+    () => {
+      if (!showSaleSimulator) {
+        return null;
+      }
+      const amount = parseFloat(simulatorForm.amount.replace(",", "."));
+      const price = parseFloat(simulatorForm.price.replace(",", "."));
+      const taxRate = simulatorForm.tax_rate ? parseFloat(simulatorForm.tax_rate.replace(",", ".")) : 0;
+      const timestamp = new Date(simulatorForm.timestamp);
+      if (
+        !simulatorForm.asset_symbol ||
+        !Number.isFinite(amount) ||
+        amount <= 0 ||
+        !Number.isFinite(price) ||
+        price < 0 ||
+        !Number.isFinite(taxRate) ||
+        isNaN(timestamp.getTime())
+      ) {
+        return null;
+      }
+      return simulateSale(
+        transactions,
+        {
+          asset_symbol: simulatorForm.asset_symbol,
+          amount,
+          price,
+          timestamp: timestamp.toISOString(),
+        },
+        config?.base_currency === "USD" ? "USD" : "EUR",
+        config?.holding_period_days ?? DEFAULT_HOLDING_PERIOD_DAYS,
+        taxRate,
+        normalizeCostBasisMethod(config?.cost_basis_method),
+      );
+    },
+    [
+      transactions,
+      config?.base_currency,
+      config?.holding_period_days,
+      config?.cost_basis_method,
+      simulatorForm,
+      showSaleSimulator,
+    ],
+  );
+
+  const harvestCandidates = React.useMemo(
+    () => {
+      if (!showHarvestReport) {
+        return [];
+      }
+      const baseCurrency = config?.base_currency === "USD" ? "USD" : "EUR";
+      const { open_lots } = computeCostBasisLots(
+        transactions,
+        baseCurrency,
+        normalizeCostBasisMethod(config?.cost_basis_method),
+      );
+      return findTaxLossHarvestingCandidates(
+        open_lots,
+        holdings,
+        baseCurrency,
+        config?.holding_period_days ?? DEFAULT_HOLDING_PERIOD_DAYS,
+      );
+    },
+    [
+      transactions,
+      holdings,
+      config?.base_currency,
+      config?.holding_period_days,
+      config?.cost_basis_method,
+      showHarvestReport,
+    ],
+  );
+
   const dateTimeFormatter = React.useMemo(
     () =>
       new Intl.DateTimeFormat(currentLocale, {
@@ -455,6 +779,7 @@ useEffect(() => {
     setFxRateEurUsd(holdingsJson.fx_rate_eur_usd ?? null);
     setTransactions(txJson);
     setExpiring(expiringJson);
+    setAccounts(await dataSource.listAccounts());
     setError(null);
   } catch (err) {
     console.error(err);
@@ -495,6 +820,66 @@ useEffect(() => {
     }
   };
 
+  const handleLoginSuccess = (summary: ProfileSummary) => {
+    // Unsaved input from a locked session must not leak into another profile.
+    if (lockedProfileId && lockedProfileId !== summary.id) {
+      resetForm();
+      setShowTransactionForm(false);
+    }
+    setLockedProfileId(null);
+    setActiveProfile(summary);
+    const overview = getProfileOverview();
+    setProfileOverview(overview);
+    setLoginPinInput("");
+    setLoginError(null);
+    setIsProfileLoginOverlayOpen(false);
+  };
+
+  /**
+   * Drop the decrypted session and ask for the PIN again. Everything derived
+   * from the profile is cleared, including a pending import; unlike logout,
+   * the transaction form is kept so nothing typed so far is lost.
+   */
+  const lockActiveProfile = () => {
+    const summary = getActiveProfileSummary();
+    if (!summary) return;
+    dataSource.cancelImport();
+    logoutActiveProfileSession();
+    setActiveProfile(null);
+    setConfig(null);
+    setCoingeckoApiKeyInput("");
+    setHoldings([]);
+    setHoldingsPortfolioEur(null);
+    setHoldingsPortfolioUsd(null);
+    setFxRateEurUsd(null);
+    setTransactions([]);
+    setExpiring([]);
+    setImportPreview(null);
+    setImportBatches([]);
+    setImportTemplates([]);
+    setAccounts([]);
+    setReconciliations([]);
+    setDuplicatePairs(null);
+    setIncomeReport(null);
+    setShowImportHistory(false);
+    setShowImportWizard(false);
+    setShowAccounts(false);
+    setShowReconciliation(false);
+    setShowDuplicateFinder(false);
+    setShowPrivateSalesReport(false);
+    setShowIncomeReport(false);
+    setShowForm8949Report(false);
+    setShowHarvestReport(false);
+    setError(null);
+    setIsProfileMenuOverlayOpen(false);
+    setProfileOverview(getProfileOverview());
+    setLockedProfileId(summary.id);
+    setLoginProfileId(summary.id);
+    setLoginPinInput("");
+    setLoginError(null);
+    setIsProfileLoginOverlayOpen(true);
+  };
+
   const handleProfileLoginSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     setLoginError(null);
@@ -507,19 +892,75 @@ useEffect(() => {
       setLoginError(t(lang, "pin_error_required"));
       return;
     }
+    const showLoginLock = (): boolean => {
+      const lock = getProfileLoginLock(loginProfileId);
+      if (!lock) return false;
+      const seconds = Math.max(1, Math.ceil((lock.retryAt - Date.now()) / 1000));
+      setLoginError(
+        lock.lockedOut
+          ? `${t(lang, "pin_error_locked")} ${Math.ceil(seconds / 60)} ${t(lang, "pin_error_locked_minutes")}`
+          : `${t(lang, "pin_error_backoff")} ${seconds} ${t(lang, "pin_error_backoff_seconds")}`,
+      );
+      return true;
+    };
+    if (showLoginLock()) {
+      return;
+    }
 
     try {
       const summary = await loginProfile(loginProfileId, loginPinInput);
-      setActiveProfile(summary);
-      const overview = getProfileOverview();
-      setProfileOverview(overview);
-      setLoginPinInput("");
-      setLoginError(null);
-      setIsProfileLoginOverlayOpen(false);
+      handleLoginSuccess(summary);
     } catch (err) {
       console.error("Failed to log into profile", err);
-      setLoginError(t(lang, "pin_error_invalid"));
+      setLoginPinInput("");
+      if (!showLoginLock()) {
+        setLoginError(t(lang, "pin_error_invalid"));
+      }
+    }
+  };
+
+  const handlePasskeyLogin = async () => {
+    if (!loginProfileId) {
+      setLoginError(t(lang, "profile_login_error_select_profile"));
+      return;
+    }
+    setLoginError(null);
+    try {
+      const summary = await loginProfileWithPasskey(loginProfileId);
+      handleLoginSuccess(summary);
+    } catch (err) {
+      console.error("Failed to unlock profile with passkey", err);
+      setLoginError(t(lang, "passkey_login_error"));
+    }
+  };
+
+  const handleOpenPasskeyOverlay = () => {
+    setPasskeyCreatedAt(getActiveProfilePasskeyCreatedAt());
+    setPasskeyError(null);
+    setIsPasskeyOverlayOpen(true);
+    setIsProfileMenuOverlayOpen(false);
+  };
+
+  const handleRegisterPasskey = async () => {
+    setPasskeyError(null);
+    setPasskeyBusy(true);
+    try {
+      await registerActiveProfilePasskey();
+      setPasskeyCreatedAt(getActiveProfilePasskeyCreatedAt());
+    } catch (err) {
+      console.error("Failed to register passkey", err);
+      setPasskeyError(t(lang, "passkey_register_error"));
+    } finally {
+      setPasskeyBusy(false);
+    }
+  };
+
+  const handleRemovePasskey = () => {
+    if (!window.confirm(t(lang, "passkey_remove_confirm"))) {
+      return;
     }
+    removeActiveProfilePasskey();
+    setPasskeyCreatedAt(null);
   };
 
   const handleCreateProfileSubmit = async (event: React.FormEvent) => {
@@ -694,7 +1135,12 @@ useEffect(() => {
     try {
       const rawTxs = loadLocalTransactions();
       setTransactions(rawTxs);
-      const holdingsResp = computeLocalHoldings(rawTxs);
+      const localConfig = loadLocalAppConfig();
+      const holdingsResp = computeLocalHoldings(
+        rawTxs,
+        localConfig.base_currency,
+        normalizeCostBasisMethod(localConfig.cost_basis_method),
+      );
       setHoldings(holdingsResp.items ?? []);
     } catch (err) {
       console.error("Failed to optimistically load local data", err);
@@ -712,6 +1158,46 @@ useEffect(() => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [auth.mode, activeProfile?.id]);
 
+  useEffect(() => {
+    if (!activeProfile) {
+      return;
+    }
+    const idleMs = Math.max(0, config?.auto_lock_minutes ?? DEFAULT_AUTO_LOCK_MINUTES) * 60_000;
+    const lockOnHidden = config?.lock_on_tab_hidden === true;
+    // Compare timestamps instead of relying on a single timeout, which is
+    // throttled in background tabs and paused while the machine sleeps.
+    let lastActivity = Date.now();
+    const markActivity = () => {
+      lastActivity = Date.now();
+    };
+    const checkIdle = () => {
+      if (idleMs > 0 && Date.now() - lastActivity >= idleMs) {
+        lockActiveProfile();
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        if (lockOnHidden) {
+          lockActiveProfile();
+        }
+      } else {
+        checkIdle();
+      }
+    };
+
+    const activityEvents = ["mousedown", "mousemove", "keydown", "wheel", "touchstart", "scroll"];
+    activityEvents.forEach((name) => window.addEventListener(name, markActivity, { passive: true }));
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    const interval = window.setInterval(checkIdle, 15_000);
+    return () => {
+      activityEvents.forEach((name) => window.removeEventListener(name, markActivity));
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.clearInterval(interval);
+    };
+    // lockActiveProfile only uses state setters and the profile store.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeProfile?.id, config?.auto_lock_minutes, config?.lock_on_tab_hidden]);
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
   ) => {
@@ -732,6 +1218,9 @@ useEffect(() => {
       tx_id: "",
       linked_tx_prev_id: "",
       linked_tx_next_id: "",
+      fee_amount: "",
+      fee_asset: "",
+      account_id: "",
     });
     setEditingId(null);
   };
@@ -833,6 +1322,17 @@ useEffect(() => {
         linkedNextId = parsedNext;
       }
 
+      let feeAmount: number | null = null;
+      const rawFee = (form.fee_amount ?? "").toString().trim();
+      if (rawFee) {
+        const parsedFee = parseFloat(rawFee.replace(",", "."));
+        if (!Number.isFinite(parsedFee) || parsedFee < 0) {
+          setError(t(lang, "tx_error_fee_invalid"));
+          return;
+        }
+        feeAmount = parsedFee > 0 ? parsedFee : null;
+      }
+
       const payload = {
         id: editingId,
         asset_symbol: upperSymbol,
@@ -846,6 +1346,9 @@ useEffect(() => {
         tx_id: form.tx_id || null,
         linked_tx_prev_id: linkedPrevId,
         linked_tx_next_id: linkedNextId,
+        fee_amount: feeAmount,
+        fee_asset: feeAmount != null ? form.fee_asset.trim().toUpperCase() || null : null,
+        account_id: form.account_id || null,
       };
 
       await dataSource.saveTransaction(payload);
@@ -883,9 +1386,11 @@ useEffect(() => {
   setCsvImporting(true);
 
   try {
-    const json = await dataSource.importCsv(lang, file);
-    setCsvResult(json);
-    await fetchData();
+    const preview = await dataSource.previewImport("local_csv", file, (staging) =>
+      dataSource.importCsv(lang, file, staging),
+    );
+    setImportPreviewOrigin("csv");
+    setImportPreview(preview);
   } catch (err) {
     console.error(err);
     setError(t(lang, "error_csv_import"));
@@ -915,9 +1420,11 @@ useEffect(() => {
             errors: [t(lang, "external_import_not_supported")],
           });
         } else {
-          const json = await importer(lang, file);
-          setExternalImportResult(json);
-          await fetchData();
+          const preview = await dataSource.previewImport("binance", file, (staging) =>
+            importer(lang, file, staging),
+          );
+          setImportPreviewOrigin("external");
+          setImportPreview(preview);
         }
       } else if (externalImportSource === "bitpanda_csv") {
         const importer = dataSource.importBitpandaCsv?.bind(dataSource);
@@ -927,9 +1434,39 @@ useEffect(() => {
             errors: [t(lang, "external_import_not_supported")],
           });
         } else {
-          const json = await importer(lang, file);
-          setExternalImportResult(json);
-          await fetchData();
+          const preview = await dataSource.previewImport("bitpanda", file, (staging) =>
+            importer(lang, file, staging),
+          );
+          setImportPreviewOrigin("external");
+          setImportPreview(preview);
+        }
+      } else if (externalImportSource === "coinbase_csv") {
+        const importer = dataSource.importCoinbaseCsv?.bind(dataSource);
+        if (!importer) {
+          setExternalImportResult({
+            imported: 0,
+            errors: [t(lang, "external_import_not_supported")],
+          });
+        } else {
+          const preview = await dataSource.previewImport("coinbase", file, (staging) =>
+            importer(lang, file, staging),
+          );
+          setImportPreviewOrigin("external");
+          setImportPreview(preview);
+        }
+      } else if (externalImportSource === "kraken_ledger_csv") {
+        const importer = dataSource.importKrakenLedgerCsv?.bind(dataSource);
+        if (!importer) {
+          setExternalImportResult({
+            imported: 0,
+            errors: [t(lang, "external_import_not_supported")],
+          });
+        } else {
+          const preview = await dataSource.previewImport("kraken", file, (staging) =>
+            importer(lang, file, staging, setExternalImportProgress),
+          );
+          setImportPreviewOrigin("external");
+          setImportPreview(preview);
         }
       } else {
         setExternalImportResult({
@@ -942,15 +1479,20 @@ useEffect(() => {
       setError(t(lang, "error_external_import"));
     } finally {
       setExternalImporting(false);
+      setExternalImportProgress(null);
       e.target.value = "";
     }
   };
-  const buildExportFileName = (ext: "pdf" | "csv") => {
+  const buildExportFileName = (
+    ext: "pdf" | "csv" | typeof PROFILE_BACKUP_FILE_EXTENSION,
+    reportName?: string,
+  ) => {
     const profileNameRaw = (activeProfile?.name ?? "profile").trim();
     const profilePart =
       profileNameRaw.replace(/[^a-z0-9_-]+/gi, "_") || "profile";
     const stamp = new Date().toISOString().slice(0, 10);
-    return `Traeky_${profilePart}_${stamp}.${ext}`;
+    const reportPart = reportName ? `_${reportName}` : "";
+    return `Traeky_${profilePart}${reportPart}_${stamp}.${ext}`;
   };
 
 const handleExportCsv = () => {
@@ -973,6 +1515,9 @@ const handleExportCsv = () => {
     "tx_id",
     "linked_tx_prev_id",
     "linked_tx_next_id",
+    "fee_amount",
+    "fee_asset",
+    "fee_fiat_value",
     CSV_SCHEMA_VERSION_COLUMN,
     "holding_period_days",
     "base_currency",
@@ -993,6 +1538,9 @@ const handleExportCsv = () => {
     tx.tx_id ?? "",
     tx.linked_tx_prev_id != null ? String(tx.linked_tx_prev_id) : "",
     tx.linked_tx_next_id != null ? String(tx.linked_tx_next_id) : "",
+    tx.fee_amount != null ? String(tx.fee_amount) : "",
+    tx.fee_asset ?? "",
+    tx.fee_fiat_value != null ? String(tx.fee_fiat_value) : "",
     String(CURRENT_CSV_SCHEMA_VERSION),
     String(config?.holding_period_days ?? DEFAULT_HOLDING_PERIOD_DAYS),
     config?.base_currency ?? "EUR",
@@ -1048,8 +1596,13 @@ const handleExportCsv = () => {
       upcoming_holding_window_days:
         config.upcoming_holding_window_days ?? DEFAULT_UPCOMING_WINDOW_DAYS,
       base_currency: config.base_currency ?? "EUR",
+      cost_basis_method: normalizeCostBasisMethod(config.cost_basis_method),
       price_fetch_enabled: priceFetchEnabledInput,
       coingecko_api_key: apiKey.length > 0 ? apiKey : null,
+      transfer_match_window_hours: config.transfer_match_window_hours,
+      transfer_match_fee_tolerance_percent: config.transfer_match_fee_tolerance_percent,
+      auto_lock_minutes: config.auto_lock_minutes,
+      lock_on_tab_hidden: config.lock_on_tab_hidden,
     };
 
     setConfig(nextConfig);
@@ -1067,8 +1620,13 @@ const handleResetHoldingConfigToDefault = () => {
     upcoming_holding_window_days:
       config?.upcoming_holding_window_days ?? DEFAULT_UPCOMING_WINDOW_DAYS,
     base_currency: config?.base_currency ?? "EUR",
+    cost_basis_method: normalizeCostBasisMethod(config?.cost_basis_method),
     price_fetch_enabled: config?.price_fetch_enabled !== false,
     coingecko_api_key: config?.coingecko_api_key ?? null,
+    transfer_match_window_hours: config?.transfer_match_window_hours,
+    transfer_match_fee_tolerance_percent: config?.transfer_match_fee_tolerance_percent,
+    auto_lock_minutes: config?.auto_lock_minutes,
+    lock_on_tab_hidden: config?.lock_on_tab_hidden,
   };
 
   setConfig(nextConfig);
@@ -1093,8 +1651,13 @@ const handleResetHoldingConfigToDefault = () => {
       upcoming_holding_window_days:
         config.upcoming_holding_window_days ?? DEFAULT_UPCOMING_WINDOW_DAYS,
       base_currency: config.base_currency ?? "EUR",
+      cost_basis_method: normalizeCostBasisMethod(config.cost_basis_method),
       price_fetch_enabled: nextEnabled,
       coingecko_api_key: config.coingecko_api_key ?? null,
+      transfer_match_window_hours: config.transfer_match_window_hours,
+      transfer_match_fee_tolerance_percent: config.transfer_match_fee_tolerance_percent,
+      auto_lock_minutes: config.auto_lock_minutes,
+      lock_on_tab_hidden: config.lock_on_tab_hidden,
     };
 
     setConfig(nextConfig);
@@ -1106,6 +1669,204 @@ const handleResetHoldingConfigToDefault = () => {
     }
   };
 
+  const handleCostBasisMethodChange = (nextMethod: CostBasisMethod) => {
+    if (!config) {
+      return;
+    }
+
+    const nextConfig: AppConfig = {
+      holding_period_days:
+        config.holding_period_days ?? DEFAULT_HOLDING_PERIOD_DAYS,
+      upcoming_holding_window_days:
+        config.upcoming_holding_window_days ?? DEFAULT_UPCOMING_WINDOW_DAYS,
+      base_currency: config.base_currency ?? "EUR",
+      cost_basis_method: nextMethod,
+      price_fetch_enabled: config.price_fetch_enabled !== false,
+      coingecko_api_key: config.coingecko_api_key ?? null,
+      transfer_match_window_hours: config.transfer_match_window_hours,
+      transfer_match_fee_tolerance_percent: config.transfer_match_fee_tolerance_percent,
+      auto_lock_minutes: config.auto_lock_minutes,
+      lock_on_tab_hidden: config.lock_on_tab_hidden,
+    };
+
+    setConfig(nextConfig);
+
+    if (auth.mode === "local-only") {
+      saveLocalAppConfig(nextConfig);
+      // Average cost and unrealized P&L depend on the lot-matching rule.
+      void fetchData();
+    }
+  };
+
+  const handleMatchTransfers = async () => {
+    if (!config) {
+      return;
+    }
+
+    const windowHours = Number(transferWindowInput.replace(",", "."));
+    const tolerance = Number(transferToleranceInput.replace(",", "."));
+    if (!Number.isFinite(windowHours) || windowHours < 0 || !Number.isFinite(tolerance) || tolerance < 0) {
+      setTransferMatchMessage(t(lang, "transfer_match_invalid"));
+      return;
+    }
+
+    const nextConfig: AppConfig = {
+      holding_period_days:
+        config.holding_period_days ?? DEFAULT_HOLDING_PERIOD_DAYS,
+      upcoming_holding_window_days:
+        config.upcoming_holding_window_days ?? DEFAULT_UPCOMING_WINDOW_DAYS,
+      base_currency: config.base_currency ?? "EUR",
+      cost_basis_method: normalizeCostBasisMethod(config.cost_basis_method),
+      price_fetch_enabled: config.price_fetch_enabled !== false,
+      coingecko_api_key: config.coingecko_api_key ?? null,
+      transfer_match_window_hours: windowHours,
+      transfer_match_fee_tolerance_percent: tolerance,
+      auto_lock_minutes: config.auto_lock_minutes,
+      lock_on_tab_hidden: config.lock_on_tab_hidden,
+    };
+
+    setConfig(nextConfig);
+    if (auth.mode !== "local-only") {
+      return;
+    }
+    saveLocalAppConfig(nextConfig);
+
+    setTransferMatchBusy(true);
+    setTransferMatchMessage(null);
+    try {
+      const linked = await dataSource.matchTransfers();
+      setTransferMatchMessage(`${t(lang, "transfer_match_result")} ${linked}`);
+      if (linked > 0) {
+        await fetchData();
+      }
+    } catch (err) {
+      console.error(err);
+      setTransferMatchMessage(t(lang, "transfer_match_error"));
+    } finally {
+      setTransferMatchBusy(false);
+    }
+  };
+
+  const handleSaveAutoLock = () => {
+    if (!config) {
+      return;
+    }
+
+    const minutes = Number(autoLockMinutesInput.replace(",", "."));
+    if (!Number.isFinite(minutes) || minutes < 0) {
+      setAutoLockMessage(t(lang, "auto_lock_invalid"));
+      return;
+    }
+
+    const nextConfig: AppConfig = {
+      holding_period_days:
+        config.holding_period_days ?? DEFAULT_HOLDING_PERIOD_DAYS,
+      upcoming_holding_window_days:
+        config.upcoming_holding_window_days ?? DEFAULT_UPCOMING_WINDOW_DAYS,
+      base_currency: config.base_currency ?? "EUR",
+      cost_basis_method: normalizeCostBasisMethod(config.cost_basis_method),
+      price_fetch_enabled: config.price_fetch_enabled !== false,
+      coingecko_api_key: config.coingecko_api_key ?? null,
+      transfer_match_window_hours: config.transfer_match_window_hours,
+      transfer_match_fee_tolerance_percent: config.transfer_match_fee_tolerance_percent,
+      auto_lock_minutes: minutes,
+      lock_on_tab_hidden: lockOnTabHiddenInput,
+    };
+
+    setConfig(nextConfig);
+    setAutoLockMessage(t(lang, "auto_lock_saved"));
+    if (auth.mode === "local-only") {
+      saveLocalAppConfig(nextConfig);
+    }
+  };
+
+  const handleExportBackup = async () => {
+    setBackupMessage(null);
+    setBackupError(null);
+    if (!backupPasswordInput) {
+      setBackupError(t(lang, "backup_error_password_required"));
+      return;
+    }
+    if (backupPasswordInput !== backupPasswordConfirmInput) {
+      setBackupError(t(lang, "backup_error_password_mismatch"));
+      return;
+    }
+
+    setBackupBusy(true);
+    try {
+      const blob = await createProfileBackup(backupPasswordInput);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = buildExportFileName(PROFILE_BACKUP_FILE_EXTENSION);
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      window.URL.revokeObjectURL(url);
+      setBackupPasswordInput("");
+      setBackupPasswordConfirmInput("");
+      setBackupMessage(t(lang, "backup_export_done"));
+    } catch (err) {
+      console.error("Failed to export backup", err);
+      setBackupError(t(lang, "backup_export_error"));
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    setBackupMessage(null);
+    setBackupError(null);
+    if (!restoreFile) {
+      setBackupError(t(lang, "backup_error_file_required"));
+      return;
+    }
+    if (!restorePasswordInput) {
+      setBackupError(t(lang, "backup_error_password_required"));
+      return;
+    }
+    if (restoreTarget === "new") {
+      if (!restorePinInput) {
+        setBackupError(t(lang, "pin_error_required"));
+        return;
+      }
+      if (restorePinInput !== restorePinConfirmInput) {
+        setBackupError(t(lang, "pin_error_mismatch"));
+        return;
+      }
+    } else if (!window.confirm(t(lang, "backup_restore_confirm_replace"))) {
+      return;
+    }
+
+    setBackupBusy(true);
+    try {
+      const contents = await readProfileBackup(restoreFile, restorePasswordInput);
+      const summary = await restoreProfileBackup(
+        contents,
+        restoreTarget === "new"
+          ? { kind: "new", name: restoreNameInput.trim(), pin: restorePinInput }
+          : { kind: "active" },
+      );
+      setRestoreFile(null);
+      setRestorePasswordInput("");
+      setRestoreNameInput("");
+      setRestorePinInput("");
+      setRestorePinConfirmInput("");
+      setBackupMessage(t(lang, "backup_restore_done"));
+      setProfileOverview(getProfileOverview());
+      if (summary.id !== activeProfile?.id) {
+        setActiveProfile(summary);
+      } else {
+        await fetchData();
+      }
+    } catch (err) {
+      console.error("Failed to restore backup", err);
+      setBackupError(t(lang, "backup_restore_error"));
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
   const handleExportPdf = async () => {
   try {
     const blob = await dataSource.exportPdf(lang, filteredTransactions);
@@ -1122,14 +1883,526 @@ const handleResetHoldingConfigToDefault = () => {
     setError(t(lang, "error_pdf_export"));
   }
 };
-const handleReloadHoldingPrices = async () => {
-  if (!holdings || holdings.length === 0) {
+const formatReportEur = (value: number | null) =>
+  value == null
+    ? "–"
+    : `${value.toLocaleString(currentLocale, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })} EUR`;
+
+const handleExportPrivateSalesReportPdf = async () => {
+  if (!privateSalesReport) {
     return;
   }
-  if (!config || config.price_fetch_enabled === false) {
-    return;
-  }
-  if (pricesRefreshing) {
+  try {
+    const blob = await dataSource.exportPrivateSalesReportPdf(lang, privateSalesReport);
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = buildExportFileName("pdf", `EStG23_${privateSalesReport.year}`);
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    window.URL.revokeObjectURL(url);
+  } catch (err) {
+    console.error(err);
+    setError(t(lang, "error_pdf_export"));
+  }
+};
+const handleExportForm8949Csv = () => {
+  if (!form8949Report) {
+    return;
+  }
+
+  const headers = [
+    "term",
+    "description",
+    "date_acquired",
+    "date_sold",
+    "proceeds",
+    "cost_basis",
+    "gain_or_loss",
+  ];
+
+  const toCells = (term: string, row: Form8949Row) => [
+    term,
+    row.description,
+    formatForm8949Date(row.date_acquired),
+    formatForm8949Date(row.date_sold),
+    row.proceeds != null ? row.proceeds.toFixed(2) : "",
+    row.cost_basis != null ? row.cost_basis.toFixed(2) : "",
+    row.gain != null ? row.gain.toFixed(2) : "",
+  ];
+  // Schedule D totals as in the PDF, after the rows of both terms.
+  const totalCells = (term: string, totals: ScheduleDTotals) => [
+    term,
+    t(lang, "us_8949_schedule_d_title"),
+    "",
+    "",
+    totals.proceeds.toFixed(2),
+    totals.cost_basis.toFixed(2),
+    totals.gain.toFixed(2),
+  ];
+  const rows = [
+    ...form8949Report.short_term.map((row) => toCells("short", row)),
+    ...form8949Report.long_term.map((row) => toCells("long", row)),
+    totalCells("short", form8949Report.short_term_totals),
+    totalCells("long", form8949Report.long_term_totals),
+  ];
+
+  const escapeCell = (value: string) =>
+    `"${value.replace(/"/g, '""').replace(/\r?\n/g, " ")}"`;
+  const csvLines = [
+    headers.join(","),
+    ...rows.map((row) => row.map(escapeCell).join(",")),
+  ];
+
+  const blob = new Blob([csvLines.join("\n")], {
+    type: "text/csv;charset=utf-8",
+  });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = buildExportFileName("csv", `Form8949_${form8949Report.year}`);
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+const handleExportForm8949Pdf = async () => {
+  if (!form8949Report) {
+    return;
+  }
+  try {
+    const blob = await dataSource.exportForm8949Pdf(lang, form8949Report);
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = buildExportFileName("pdf", `Form8949_${form8949Report.year}`);
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    window.URL.revokeObjectURL(url);
+  } catch (err) {
+    console.error(err);
+    setError(t(lang, "error_pdf_export"));
+  }
+};
+
+const formatBaseCurrencyValue = (value: number) =>
+  `${value.toLocaleString(currentLocale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} ${config?.base_currency === "USD" ? "USD" : "EUR"}`;
+
+const formatReportUsd = (value: number | null) =>
+  value == null
+    ? "–"
+    : `${value.toLocaleString(currentLocale, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })} USD`;
+
+const getHoldingUnitPrice = (symbol: string): string => {
+  const item = holdings.find((h) => h.asset_symbol === symbol);
+  const value = config?.base_currency === "USD" ? item?.value_usd : item?.value_eur;
+  if (!item || value == null || !item.total_amount) {
+    return "";
+  }
+  return String(Number((value / item.total_amount).toFixed(8)));
+};
+
+const handleOpenSaleSimulator = () => {
+  const symbol = simulatorForm.asset_symbol || holdings[0]?.asset_symbol || "";
+  setSimulatorForm((prev) => ({
+    ...prev,
+    asset_symbol: symbol,
+    price: prev.price || getHoldingUnitPrice(symbol),
+    timestamp: toLocalInputValue(new Date()),
+  }));
+  setShowSaleSimulator(true);
+};
+
+const handleSimulatorChange = (
+  e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+) => {
+  const { name, value } = e.target;
+  setSimulatorForm((prev) =>
+    name === "asset_symbol"
+      ? { ...prev, asset_symbol: value, price: getHoldingUnitPrice(value) }
+      : { ...prev, [name]: value },
+  );
+};
+
+const handleConfirmImport = async () => {
+  setImportConfirming(true);
+  try {
+    const result = await dataSource.confirmImport();
+    if (importPreviewOrigin === "external") {
+      setExternalImportResult(result);
+    } else if (importPreviewOrigin === "wizard") {
+      setWizardResult(result);
+    } else {
+      setCsvResult(result);
+    }
+    setImportPreview(null);
+    await fetchData();
+  } catch (err) {
+    console.error(err);
+    setError(t(lang, "import_preview_confirm_error"));
+    setImportPreview(null);
+  } finally {
+    setImportConfirming(false);
+  }
+};
+const handleCancelImport = () => {
+  dataSource.cancelImport();
+  setImportPreview(null);
+};
+const handleOpenImportHistory = async () => {
+  setShowImportHistory(true);
+  try {
+    setImportBatches(await dataSource.listImportBatches());
+  } catch (err) {
+    console.error(err);
+    setImportBatches([]);
+  }
+};
+const handleUndoImportBatch = async (batch: ImportBatch) => {
+  if (!window.confirm(t(lang, "import_history_undo_confirm"))) {
+    return;
+  }
+  setImportBatchUndoing(batch.id);
+  try {
+    await dataSource.undoImportBatch(batch.id);
+    setImportBatches(await dataSource.listImportBatches());
+    await fetchData();
+  } catch (err) {
+    console.error(err);
+    setError(t(lang, "import_history_undo_error"));
+  } finally {
+    setImportBatchUndoing(null);
+  }
+};
+const resetAccountForm = () => {
+  setAccountForm({ id: "", name: "", type: "exchange", addresses: [] });
+  setAccountAddressesInput("");
+  setAccountError(null);
+};
+const handleOpenAccounts = () => {
+  resetAccountForm();
+  setAccountDeleteId(null);
+  setShowAccounts(true);
+};
+const handleEditAccount = (account: Account) => {
+  setAccountForm(account);
+  setAccountAddressesInput(account.addresses.join("\n"));
+  setAccountDeleteId(null);
+  setAccountError(null);
+};
+const handleSaveAccount = async (e: React.FormEvent) => {
+  e.preventDefault();
+  if (!accountForm.name.trim()) {
+    setAccountError(t(lang, "accounts_name_required"));
+    return;
+  }
+  try {
+    await dataSource.saveAccount({
+      ...accountForm,
+      addresses: accountAddressesInput.split(/[\s,;]+/),
+    });
+    setAccounts(await dataSource.listAccounts());
+    resetAccountForm();
+  } catch (err) {
+    console.error(err);
+    setAccountError(t(lang, "accounts_error"));
+  }
+};
+const handleDeleteAccount = async () => {
+  if (!accountDeleteId) return;
+  try {
+    await dataSource.deleteAccount(accountDeleteId, accountMoveToId || null);
+    if (holdingsAccountFilter === accountDeleteId) {
+      setHoldingsAccountFilter("");
+    }
+    if (accountForm.id === accountDeleteId) {
+      resetAccountForm();
+    }
+    setAccountDeleteId(null);
+    await fetchData();
+  } catch (err) {
+    console.error(err);
+    setAccountError(t(lang, "accounts_error"));
+  }
+};
+const refreshReconciliations = async () => {
+  try {
+    setReconciliations(await dataSource.listBalanceReconciliations());
+  } catch (err) {
+    console.error(err);
+    setReconcileError(t(lang, "reconcile_error"));
+  }
+};
+const handleOpenReconciliation = () => {
+  setShowReconciliation(true);
+  setReconcileError(null);
+  setReconcileImportResult(null);
+  setReconcileExpandedId(null);
+  void refreshReconciliations();
+};
+const handleAddReportedBalance = async (e: React.FormEvent) => {
+  e.preventDefault();
+  const amount = Number(reconcileForm.amount.replace(",", "."));
+  const timestamp = new Date(reconcileForm.timestamp);
+  if (!reconcileForm.asset_symbol.trim() || !Number.isFinite(amount) || isNaN(timestamp.getTime())) {
+    setReconcileError(t(lang, "reconcile_form_invalid"));
+    return;
+  }
+  setReconcileError(null);
+  try {
+    await dataSource.saveReportedBalance({
+      account_id: reconcileForm.account_id || null,
+      asset_symbol: reconcileForm.asset_symbol,
+      timestamp: timestamp.toISOString(),
+      amount,
+    });
+    setReconcileForm((prev) => ({ ...prev, asset_symbol: "", amount: "" }));
+    await refreshReconciliations();
+  } catch (err) {
+    console.error(err);
+    setReconcileError(t(lang, "reconcile_error"));
+  }
+};
+const handleReconcileFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const file = e.target.files?.[0];
+  if (!file) return;
+  setReconcileError(null);
+  if (!isValidTimeZone(reconcileImportFormat.timezone)) {
+    setReconcileError(t(lang, "import_wizard_timezone_invalid"));
+    e.target.value = "";
+    return;
+  }
+  try {
+    setReconcileImportResult(
+      await dataSource.importReportedBalances(
+        lang,
+        file,
+        reconcileForm.account_id || null,
+        reconcileImportFormat,
+      ),
+    );
+    await refreshReconciliations();
+  } catch (err) {
+    console.error(err);
+    setReconcileError(t(lang, "reconcile_error"));
+  } finally {
+    e.target.value = "";
+  }
+};
+const handleDeleteReportedBalance = async (id: string) => {
+  try {
+    await dataSource.deleteReportedBalance(id);
+    await refreshReconciliations();
+  } catch (err) {
+    console.error(err);
+    setReconcileError(t(lang, "reconcile_error"));
+  }
+};
+const handleFindDuplicates = async () => {
+  const tolerance = Number(duplicateToleranceInput.replace(",", "."));
+  const windowMinutes = Number(duplicateWindowInput.replace(",", "."));
+  if (!Number.isFinite(tolerance) || tolerance < 0 || !Number.isFinite(windowMinutes) || windowMinutes < 0) {
+    setDuplicateError(t(lang, "duplicates_options_invalid"));
+    return;
+  }
+  setDuplicateError(null);
+  setDuplicateBusy(true);
+  try {
+    setDuplicatePairs(
+      await dataSource.findDuplicateTransactions({
+        amount_tolerance_percent: tolerance,
+        window_minutes: windowMinutes,
+      }),
+    );
+  } catch (err) {
+    console.error(err);
+    setDuplicateError(t(lang, "duplicates_error"));
+  } finally {
+    setDuplicateBusy(false);
+  }
+};
+const handleOpenDuplicateFinder = () => {
+  setShowDuplicateFinder(true);
+  setDuplicatePairs(null);
+  setDuplicateError(null);
+  void handleFindDuplicates();
+};
+const handleDismissDuplicatePair = async (pair: DuplicateCandidatePair) => {
+  setDuplicateBusy(true);
+  try {
+    await dataSource.dismissDuplicatePair(pair.key);
+    setDuplicatePairs((prev) => (prev ? prev.filter((item) => item.key !== pair.key) : prev));
+  } catch (err) {
+    console.error(err);
+    setDuplicateError(t(lang, "duplicates_error"));
+  } finally {
+    setDuplicateBusy(false);
+  }
+};
+const handleMergeDuplicatePair = async (keep: Transaction, remove: Transaction) => {
+  if (!window.confirm(t(lang, "duplicates_merge_confirm"))) {
+    return;
+  }
+  setDuplicateBusy(true);
+  try {
+    await dataSource.mergeDuplicateTransactions(keep.id, remove.id);
+    // Other pairs may involve the removed transaction; search again.
+    setDuplicatePairs(
+      await dataSource.findDuplicateTransactions({
+        amount_tolerance_percent: Number(duplicateToleranceInput.replace(",", ".")),
+        window_minutes: Number(duplicateWindowInput.replace(",", ".")),
+      }),
+    );
+    await fetchData();
+  } catch (err) {
+    console.error(err);
+    setDuplicateError(t(lang, "duplicates_error"));
+  } finally {
+    setDuplicateBusy(false);
+  }
+};
+const handleOpenImportWizard = async () => {
+  setShowExternalImport(false);
+  setWizardStep(1);
+  setWizardFile(null);
+  setWizardTable(null);
+  setWizardTemplate(createImportTemplate(""));
+  setWizardError(null);
+  setWizardResult(null);
+  setShowImportWizard(true);
+  try {
+    setImportTemplates(await dataSource.listImportTemplates());
+  } catch (err) {
+    console.error(err);
+    setImportTemplates([]);
+  }
+};
+const handleWizardFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const file = e.target.files?.[0];
+  if (!file) return;
+
+  setWizardFile(file);
+  setWizardError(null);
+  setWizardResult(null);
+  setWizardBusy(true);
+  try {
+    const table = await dataSource.readImportTable(file);
+    if (table.headers.length === 0 || table.rows.length === 0) {
+      setWizardTable(null);
+      setWizardError(t(lang, "import_wizard_empty_file"));
+    } else {
+      setWizardTable(table);
+      // A loaded template keeps its mapping; new mappings start from header guesses.
+      setWizardTemplate((prev) =>
+        prev.id ? prev : { ...prev, columns: suggestImportColumns(table.headers) },
+      );
+    }
+  } catch (err) {
+    console.error(err);
+    setWizardTable(null);
+    setWizardError(t(lang, "import_wizard_read_error"));
+  } finally {
+    setWizardBusy(false);
+    e.target.value = "";
+  }
+};
+const handleWizardSelectTemplate = (id: string) => {
+  const template = importTemplates.find((item) => item.id === id);
+  setWizardError(null);
+  if (template) {
+    setWizardTemplate({ ...template });
+  } else {
+    setWizardTemplate({
+      ...createImportTemplate(""),
+      columns: wizardTable ? suggestImportColumns(wizardTable.headers) : {},
+    });
+  }
+};
+const updateWizardTemplate = (patch: Partial<ImportTemplate>) => {
+  setWizardTemplate((prev) => ({ ...prev, ...patch }));
+};
+const handleWizardSaveTemplate = async () => {
+  if (!wizardTemplate.name.trim()) {
+    setWizardError(t(lang, "import_wizard_template_name_required"));
+    return;
+  }
+  setWizardError(null);
+  try {
+    const saved = await dataSource.saveImportTemplate(wizardTemplate);
+    setWizardTemplate(saved);
+    setImportTemplates(await dataSource.listImportTemplates());
+  } catch (err) {
+    console.error(err);
+    setWizardError(t(lang, "import_wizard_template_save_error"));
+  }
+};
+const handleWizardDeleteTemplate = async () => {
+  if (!wizardTemplate.id) return;
+  if (!window.confirm(t(lang, "import_wizard_template_delete_confirm"))) return;
+  try {
+    await dataSource.deleteImportTemplate(wizardTemplate.id);
+    setImportTemplates(await dataSource.listImportTemplates());
+    setWizardTemplate({ ...wizardTemplate, id: "" });
+  } catch (err) {
+    console.error(err);
+    setWizardError(t(lang, "import_wizard_template_save_error"));
+  }
+};
+const handleWizardImport = async () => {
+  if (!wizardTable || !wizardFile) return;
+  if (!isValidTimeZone(wizardTemplate.timezone)) {
+    setWizardError(t(lang, "import_wizard_timezone_invalid"));
+    return;
+  }
+  setWizardError(null);
+  setWizardBusy(true);
+  try {
+    const preview = await dataSource.previewImport("mapping", wizardFile, (staging) =>
+      dataSource.importMappedTable(lang, wizardTable, wizardTemplate, staging),
+    );
+    setImportPreviewOrigin("wizard");
+    setImportPreview(preview);
+  } catch (err) {
+    console.error(err);
+    setWizardError(t(lang, "error_external_import"));
+  } finally {
+    setWizardBusy(false);
+  }
+};
+const handleOpenIncomeReport = async () => {
+  setShowIncomeReport(true);
+  setIncomeReport(null);
+  setIncomeReportLoading(true);
+  try {
+    setIncomeReport(await dataSource.computeIncomeReport(transactions));
+  } catch (err) {
+    console.error(err);
+    setError(t(lang, "income_error"));
+    setShowIncomeReport(false);
+  } finally {
+    setIncomeReportLoading(false);
+  }
+};
+const handleReloadHoldingPrices = async () => {
+  if (!holdings || holdings.length === 0) {
+    return;
+  }
+  if (!config || config.price_fetch_enabled === false) {
+    return;
+  }
+  if (pricesRefreshing) {
     return;
   }
   setPricesRefreshing(true);
@@ -1142,7 +2415,10 @@ const handleReloadHoldingPrices = async () => {
       fx_rate_eur_usd: null,
       fx_rate_usd_eur: null,
     };
-    const updated = await applyPricesToHoldings(resp);
+    const updated = await applyPricesToHoldings(
+      resp,
+      config.base_currency === "USD" ? "USD" : "EUR",
+    );
     setHoldings(updated.items ?? []);
     setHoldingsPortfolioEur(updated.portfolio_value_eur ?? null);
     setHoldingsPortfolioUsd(updated.portfolio_value_usd ?? null);
@@ -1194,7 +2470,8 @@ const handleReloadHoldingPrices = async () => {
       {profileOverview &&
         (profileOverview.profiles.length === 0 ||
           (profileOverview.profiles.length > 0 && (!activeProfile || isProfileLoginOverlayOpen))) && (
-        <div className="modal-backdrop">
+        // Above the inline overlays (z-index 1000) so a locked session hides them.
+        <div className="modal-backdrop" style={{ zIndex: 2000 }}>
           <div className="modal">
             {profileOverview.profiles.length === 0 ? (
               <>
@@ -1313,6 +2590,15 @@ const handleReloadHoldingPrices = async () => {
                         {t(lang, "form_cancel")}
                       </button>
                     )}
+                    {loginProfileId && isPasskeySupported() && profileHasPasskey(loginProfileId) && (
+                      <button
+                        type="button"
+                        className="btn-secondary"
+                        onClick={() => void handlePasskeyLogin()}
+                      >
+                        {t(lang, "passkey_login_button")}
+                      </button>
+                    )}
                     <button type="submit" className="btn-primary">
                       {t(lang, "profile_login_submit")}
                     </button>
@@ -1432,8 +2718,13 @@ const handleReloadHoldingPrices = async () => {
                   upcoming_holding_window_days:
                     config?.upcoming_holding_window_days ?? DEFAULT_UPCOMING_WINDOW_DAYS,
                   base_currency: value,
+                  cost_basis_method: normalizeCostBasisMethod(config?.cost_basis_method),
                   price_fetch_enabled: config?.price_fetch_enabled !== false,
                   coingecko_api_key: config?.coingecko_api_key ?? null,
+                  transfer_match_window_hours: config?.transfer_match_window_hours,
+                  transfer_match_fee_tolerance_percent: config?.transfer_match_fee_tolerance_percent,
+                  auto_lock_minutes: config?.auto_lock_minutes,
+                  lock_on_tab_hidden: config?.lock_on_tab_hidden,
                 };
 
                 setConfig(nextConfig);
@@ -1456,28 +2747,134 @@ const handleReloadHoldingPrices = async () => {
           </div>
           <div className="card settings-card">
 <div className="sidebar-section">
-          <h2>{t(lang, "holding_config_title")}</h2>
-          <p className="muted">
-            {t(lang, "holding_config_description")}
-          </p>
-          <div className="form-row" style={{ marginTop: "0.5rem" }}>
-            <label>{t(lang, "holding_config_days_label")}</label>
-            <input
-              type="number"
-              min={0}
-              step={1}
-              value={holdingPeriodInput}
+          <h2>{t(lang, "cost_basis_title")}</h2>
+          <div className="form-row">
+            <label>{t(lang, "cost_basis_method_label")}</label>
+            <select
+              value={normalizeCostBasisMethod(config?.cost_basis_method)}
               onChange={(e) => {
-                const next = e.target.value;
-                if (/^\d*$/.test(next)) {
-                  setHoldingPeriodInput(next);
-                }
+                handleCostBasisMethodChange(normalizeCostBasisMethod(e.target.value));
               }}
-            />
+            >
+              {COST_BASIS_METHODS.map((method) => (
+                <option key={method} value={method}>
+                  {t(lang, `cost_basis_method_${method.toLowerCase()}`)}
+                </option>
+              ))}
+            </select>
+            <p className="muted">{t(lang, "cost_basis_hint")}</p>
           </div>
-          <p className="muted" style={{ fontSize: "0.75rem", marginTop: "0.25rem" }}>
-            {t(lang, "holding_config_hint")}
-          </p>
+        </div>
+
+        
+          </div>
+          <div className="card settings-card">
+<div className="sidebar-section">
+          <h2>{t(lang, "transfer_match_title")}</h2>
+          <p className="muted">{t(lang, "transfer_match_description")}</p>
+          <div className="form-row" style={{ marginTop: "0.5rem" }}>
+            <label>{t(lang, "transfer_match_window_label")}</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={transferWindowInput}
+              onChange={(e) => setTransferWindowInput(e.target.value)}
+            />
+          </div>
+          <div className="form-row">
+            <label>{t(lang, "transfer_match_tolerance_label")}</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={transferToleranceInput}
+              onChange={(e) => setTransferToleranceInput(e.target.value)}
+            />
+          </div>
+          <div style={{ marginTop: "0.5rem", display: "flex", flexWrap: "wrap", gap: "0.5rem", justifyContent: "center" }}>
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => void handleMatchTransfers()}
+              disabled={transferMatchBusy}
+            >
+              {t(lang, "transfer_match_button")}
+            </button>
+          </div>
+          {transferMatchMessage && (
+            <p className="muted" style={{ fontSize: "0.75rem", marginTop: "0.25rem" }}>
+              {transferMatchMessage}
+            </p>
+          )}
+        </div>
+
+        
+          </div>
+          <div className="card settings-card">
+<div className="sidebar-section">
+          <h2>{t(lang, "auto_lock_title")}</h2>
+          <p className="muted">{t(lang, "auto_lock_description")}</p>
+          <div className="form-row" style={{ marginTop: "0.5rem" }}>
+            <label>{t(lang, "auto_lock_minutes_label")}</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={autoLockMinutesInput}
+              onChange={(e) => setAutoLockMinutesInput(e.target.value)}
+            />
+          </div>
+          <div className="form-row">
+            <label style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+              <input
+                type="checkbox"
+                checked={lockOnTabHiddenInput}
+                onChange={(e) => setLockOnTabHiddenInput(e.target.checked)}
+              />
+              {t(lang, "auto_lock_tab_hidden_label")}
+            </label>
+          </div>
+          <div style={{ marginTop: "0.5rem", display: "flex", flexWrap: "wrap", gap: "0.5rem", justifyContent: "center" }}>
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={handleSaveAutoLock}
+            >
+              {t(lang, "common_save")}
+            </button>
+          </div>
+          {autoLockMessage && (
+            <p className="muted" style={{ fontSize: "0.75rem", marginTop: "0.25rem" }}>
+              {autoLockMessage}
+            </p>
+          )}
+        </div>
+
+        
+          </div>
+          <div className="card settings-card">
+<div className="sidebar-section">
+          <h2>{t(lang, "holding_config_title")}</h2>
+          <p className="muted">
+            {t(lang, "holding_config_description")}
+          </p>
+          <div className="form-row" style={{ marginTop: "0.5rem" }}>
+            <label>{t(lang, "holding_config_days_label")}</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={holdingPeriodInput}
+              onChange={(e) => {
+                const next = e.target.value;
+                if (/^\d*$/.test(next)) {
+                  setHoldingPeriodInput(next);
+                }
+              }}
+            />
+          </div>
+          <p className="muted" style={{ fontSize: "0.75rem", marginTop: "0.25rem" }}>
+            {t(lang, "holding_config_hint")}
+          </p>
           <div style={{ marginTop: "0.5rem", display: "flex", flexWrap: "wrap", gap: "0.5rem", justifyContent: "center" }}>
             <button
               type="button"
@@ -1656,6 +3053,125 @@ const handleReloadHoldingPrices = async () => {
           </div>
 
  
+         <div className="card settings-card">
+            <div className="sidebar-section">
+              <h2>{t(lang, "backup_title")}</h2>
+              <p className="muted">{t(lang, "backup_description")}</p>
+              <h3>{t(lang, "backup_export_title")}</h3>
+              <div className="form-row">
+                <label>{t(lang, "backup_password_label")}</label>
+                <input
+                  type="password"
+                  value={backupPasswordInput}
+                  onChange={(e) => setBackupPasswordInput(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "backup_password_confirm_label")}</label>
+                <input
+                  type="password"
+                  value={backupPasswordConfirmInput}
+                  onChange={(e) => setBackupPasswordConfirmInput(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div style={{ marginTop: "0.5rem", display: "flex", flexWrap: "wrap", gap: "0.5rem", justifyContent: "center" }}>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => void handleExportBackup()}
+                  disabled={backupBusy || !activeProfile}
+                >
+                  {t(lang, "backup_export_button")}
+                </button>
+              </div>
+              <h3>{t(lang, "backup_restore_title")}</h3>
+              <div className="form-row file-row">
+                <label>{t(lang, "backup_restore_file_label")}</label>
+                <div className="file-input-wrapper">
+                  <input
+                    type="file"
+                    accept={`.${PROFILE_BACKUP_FILE_EXTENSION},.json`}
+                    onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)}
+                    disabled={backupBusy}
+                  />
+                  <span className="file-name">
+                    {restoreFile?.name || t(lang, "external_import_no_file")}
+                  </span>
+                </div>
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "backup_password_label")}</label>
+                <input
+                  type="password"
+                  value={restorePasswordInput}
+                  onChange={(e) => setRestorePasswordInput(e.target.value)}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "backup_restore_target_label")}</label>
+                <select
+                  value={restoreTarget}
+                  onChange={(e) => setRestoreTarget(e.target.value === "active" ? "active" : "new")}
+                >
+                  <option value="new">{t(lang, "backup_restore_target_new")}</option>
+                  <option value="active">{t(lang, "backup_restore_target_active")}</option>
+                </select>
+              </div>
+              {restoreTarget === "new" && (
+                <>
+                  <div className="form-row">
+                    <label>{t(lang, "profile_name_label")}</label>
+                    <input
+                      type="text"
+                      value={restoreNameInput}
+                      onChange={(e) => setRestoreNameInput(e.target.value)}
+                      placeholder={t(lang, "backup_restore_name_placeholder")}
+                    />
+                  </div>
+                  <div className="form-row">
+                    <label>{t(lang, "profile_pin_label")}</label>
+                    <input
+                      type="password"
+                      value={restorePinInput}
+                      onChange={(e) => setRestorePinInput(e.target.value)}
+                      autoComplete="new-password"
+                    />
+                  </div>
+                  <div className="form-row">
+                    <label>{t(lang, "profile_pin_confirm_label")}</label>
+                    <input
+                      type="password"
+                      value={restorePinConfirmInput}
+                      onChange={(e) => setRestorePinConfirmInput(e.target.value)}
+                      autoComplete="new-password"
+                    />
+                  </div>
+                </>
+              )}
+              <div style={{ marginTop: "0.5rem", display: "flex", flexWrap: "wrap", gap: "0.5rem", justifyContent: "center" }}>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => void handleRestoreBackup()}
+                  disabled={backupBusy || (restoreTarget === "active" && !activeProfile)}
+                >
+                  {t(lang, "backup_restore_button")}
+                </button>
+              </div>
+              {backupBusy && <progress />}
+              {backupError && <p className="error-text">{backupError}</p>}
+              {backupMessage && (
+                <p className="muted" style={{ fontSize: "0.75rem", marginTop: "0.25rem" }}>
+                  {backupMessage}
+                </p>
+              )}
+            </div>
+          </div>
+
+ 
          <div className="card settings-card">
             <div className="sidebar-section">
               <h2>{t(lang, "reset_local_title")}</h2>
@@ -1905,6 +3421,15 @@ const handleReloadHoldingPrices = async () => {
                   >
                     {t(lang, "profile_menu_change_pin")}
                   </button>
+                  {isPasskeySupported() && (
+                    <button
+                      type="button"
+                      className="dropdown-item"
+                      onClick={handleOpenPasskeyOverlay}
+                    >
+                      {t(lang, "profile_menu_passkey")}
+                    </button>
+                  )}
                   <button
                     type="button"
                     className="dropdown-item"
@@ -1966,6 +3491,26 @@ const handleReloadHoldingPrices = async () => {
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "0.5rem" }}>
               <h3 style={{ margin: 0 }}>{t(lang, "holdings_title")}</h3>
               <div style={{ display: "flex", gap: "0.5rem" }}>
+                <select
+                  value={holdingsAccountFilter}
+                  onChange={(e) => setHoldingsAccountFilter(e.target.value)}
+                  aria-label={t(lang, "holdings_account_filter_label")}
+                >
+                  <option value="">{t(lang, "holdings_account_all")}</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                  <option value={HOLDINGS_NO_ACCOUNT}>{t(lang, "form_account_none")}</option>
+                </select>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={handleOpenAccounts}
+                >
+                  {t(lang, "accounts_open_button")}
+                </button>
                 <button
                   type="button"
                   className="btn-primary"
@@ -1980,12 +3525,67 @@ const handleReloadHoldingPrices = async () => {
                 >
                   {t(lang, "external_import_open_button")}
                 </button>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={handleOpenImportHistory}
+                >
+                  {t(lang, "import_history_open_button")}
+                </button>
               </div>
             {loading && (
               <p className="muted">{t(lang, "holdings_price_loading")}</p>
             )}
             </div>
-            {displayHoldings.length === 0 ? (
+            {holdingsAccountFilter ? (
+              accountHoldings.length === 0 ? (
+                <p className="muted">{t(lang, "holdings_empty")}</p>
+              ) : (
+                <table className="table table-striped">
+                  <thead>
+                    <tr>
+                      <th>{t(lang, "form_asset")}</th>
+                      <th>{t(lang, "holdings_col_amount")}</th>
+                      <th>
+                        {config?.base_currency === "USD"
+                          ? t(lang, "holdings_col_value_usd")
+                          : t(lang, "holdings_col_value_eur")}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {accountHoldings.map((item) => {
+                      // Priced with the aggregated holding of the same asset.
+                      const aggregate = holdings.find((h) => h.asset_symbol === item.asset_symbol);
+                      const baseIsUsd = config?.base_currency === "USD";
+                      const aggregateValue = baseIsUsd ? aggregate?.value_usd : aggregate?.value_eur;
+                      const value =
+                        aggregate && aggregate.total_amount > 0 && aggregateValue != null
+                          ? (aggregateValue / aggregate.total_amount) * item.total_amount
+                          : null;
+                      return (
+                        <tr key={item.asset_symbol}>
+                          <td>{item.asset_symbol}</td>
+                          <td>
+                            {item.total_amount.toLocaleString(currentLocale, {
+                              maximumFractionDigits: 8,
+                            })}
+                          </td>
+                          <td>
+                            {value != null
+                              ? `${value.toLocaleString(currentLocale, {
+                                  minimumFractionDigits: 0,
+                                  maximumFractionDigits: 2,
+                                })} ${baseIsUsd ? "$" : "€"}`
+                              : "-"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )
+            ) : displayHoldings.length === 0 ? (
               <p className="muted">{t(lang, "holdings_empty")}</p>
             ) : (
               <>
@@ -2104,6 +3704,41 @@ const handleReloadHoldingPrices = async () => {
                               )}
                             </span>
                           </div>
+                          <div className="holding-row">
+                            <span className="holding-label">
+                              {t(lang, "holdings_col_avg_cost")}
+                            </span>
+                            <span className="holding-value">
+                              {h.average_cost != null
+                                ? `${h.average_cost.toLocaleString(currentLocale, {
+                                    minimumFractionDigits: 0,
+                                    maximumFractionDigits: 2,
+                                  })} ${primarySymbol}`
+                                : "-"}
+                            </span>
+                          </div>
+                          <div className="holding-row">
+                            <span className="holding-label">
+                              {t(lang, "holdings_col_unrealized_pnl")}
+                            </span>
+                            <span
+                              className={
+                                h.unrealized_pnl == null
+                                  ? "holding-value"
+                                  : h.unrealized_pnl >= 0
+                                    ? "holding-value holding-value-positive"
+                                    : "holding-value holding-value-negative"
+                              }
+                            >
+                              {h.unrealized_pnl != null
+                                ? `${h.unrealized_pnl.toLocaleString(currentLocale, {
+                                    minimumFractionDigits: 0,
+                                    maximumFractionDigits: 2,
+                                    signDisplay: "exceptZero",
+                                  })} ${primarySymbol}`
+                                : "-"}
+                            </span>
+                          </div>
                         </div>
                       </div>
                     );
@@ -2112,18 +3747,144 @@ const handleReloadHoldingPrices = async () => {
               </>
             )}
         </section>
-<section className="card">
+        <section className="card">
           <div className="card-header-row">
-            <h3>{t(lang, "table_tx_title")}</h3>
+            <h3>{t(lang, "gains_compare_title")}</h3>
+            <div className="form-row">
+              <select
+                value={gainsYear}
+                onChange={(e) => setGainsYear(e.target.value)}
+                aria-label={t(lang, "gains_compare_year_label")}
+              >
+                {Array.from(
+                  new Set(
+                    [
+                      String(new Date().getFullYear()),
+                      ...transactions
+                        .map((tx) => (tx.timestamp ? tx.timestamp.slice(0, 4) : ""))
+                        .filter((y) => y),
+                    ],
+                  ),
+                )
+                  .sort()
+                  .map((year) => (
+                    <option key={year} value={year}>
+                      {year}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+          <p className="muted">{t(lang, "gains_compare_description")}</p>
+          <table className="table table-striped">
+            <thead>
+              <tr>
+                <th>{t(lang, "cost_basis_method_label")}</th>
+                <th>{t(lang, "gains_col_proceeds")}</th>
+                <th>{t(lang, "gains_col_cost_basis")}</th>
+                <th>{t(lang, "gains_col_gain")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {realizedGainComparison.map(({ method, summary }) => {
+                const baseCurrency = config?.base_currency === "USD" ? "USD" : "EUR";
+                const fmt = (value: number) =>
+                  `${value.toLocaleString(currentLocale, {
+                    minimumFractionDigits: 2,
+                    maximumFractionDigits: 2,
+                  })} ${baseCurrency}`;
+                const isActive = method === normalizeCostBasisMethod(config?.cost_basis_method);
+                return (
+                  <tr key={method}>
+                    <td>
+                      {t(lang, `cost_basis_method_${method.toLowerCase()}`)}
+                      {isActive && (
+                        <span className="pill pill-info" style={{ marginLeft: "0.5rem" }}>
+                          {t(lang, "gains_compare_active")}
+                        </span>
+                      )}
+                    </td>
+                    <td>{fmt(summary.proceeds)}</td>
+                    <td>{fmt(summary.cost_basis)}</td>
+                    <td>{fmt(summary.gain)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {realizedGainComparison.some(({ summary }) => summary.unvalued_count > 0) && (
+            <p className="muted">{t(lang, "gains_compare_unvalued_hint")}</p>
+          )}
+          <div className="form-actions">
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => setShowPrivateSalesReport(true)}
+            >
+              {t(lang, "tax_de_open_button")}
+            </button>
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={handleOpenIncomeReport}
+              disabled={incomeReportLoading}
+            >
+              {t(lang, "income_open_button")}
+            </button>
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => setShowForm8949Report(true)}
+            >
+              {t(lang, "us_8949_open_button")}
+            </button>
             <button
               type="button"
-              className="btn-secondary export-button"
-              onClick={handleExportPdf}
-              disabled={filteredTransactions.length === 0}
+              className="btn-secondary"
+              onClick={handleOpenSaleSimulator}
+              disabled={holdings.length === 0}
+            >
+              {t(lang, "simulator_open_button")}
+            </button>
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => setShowHarvestReport(true)}
+              disabled={holdings.length === 0}
             >
-              {t(lang, "action_export_pdf")}
+              {t(lang, "harvest_open_button")}
             </button>
           </div>
+        </section>
+<section className="card">
+          <div className="card-header-row">
+            <h3>{t(lang, "table_tx_title")}</h3>
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={handleOpenDuplicateFinder}
+                disabled={transactions.length < 2}
+              >
+                {t(lang, "duplicates_open_button")}
+              </button>
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={handleOpenReconciliation}
+              >
+                {t(lang, "reconcile_open_button")}
+              </button>
+              <button
+                type="button"
+                className="btn-secondary export-button"
+                onClick={handleExportPdf}
+                disabled={filteredTransactions.length === 0}
+              >
+                {t(lang, "action_export_pdf")}
+              </button>
+            </div>
+          </div>
           <div className="tx-filters">
           <div className="tx-filter-group form-row">
             <label>{t(lang, "tx_filter_year_label")}</label>
@@ -2471,6 +4232,10 @@ const handleReloadHoldingPrices = async () => {
                                 tx.linked_tx_next_id != null
                                   ? String(tx.linked_tx_next_id)
                                   : "",
+                              fee_amount:
+                                tx.fee_amount != null ? String(tx.fee_amount) : "",
+                              fee_asset: tx.fee_asset || "",
+                              account_id: tx.account_id || "",
                             });
                             setShowTransactionForm(true);
                           }}
@@ -2571,7 +4336,13 @@ const handleReloadHoldingPrices = async () => {
                   <tr key={e.transaction_id ?? `exp-${index}`}>
                     <td>{dateTimeFormatter.format(new Date(e.timestamp))}</td>
                     <td>{e.asset_symbol}</td>
-                    <td>{e.amount}</td>
+                    <td>
+                      {e.amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}
+                      <span className="muted">
+                        {" / "}
+                        {e.original_amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}
+                      </span>
+                    </td>
                     <td>{dateFormatter.format(new Date(e.holding_period_end))}</td>
                     <td>{e.days_remaining}</td>
                     <td>
@@ -2606,6 +4377,10 @@ const handleReloadHoldingPrices = async () => {
                               tx.linked_tx_next_id != null
                                 ? String(tx.linked_tx_next_id)
                                 : "",
+                            fee_amount:
+                              tx.fee_amount != null ? String(tx.fee_amount) : "",
+                            fee_asset: tx.fee_asset || "",
+                            account_id: tx.account_id || "",
                           });
                           setShowTransactionForm(true);
                         }}
@@ -2785,6 +4560,38 @@ const handleReloadHoldingPrices = async () => {
                   placeholder={t(lang, "form_source_placeholder")}
                 />
               </div>
+              <div className="form-row">
+                <label>{t(lang, "form_account")}</label>
+                <select name="account_id" value={form.account_id} onChange={handleChange}>
+                  <option value="">{t(lang, "form_account_none")}</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "form_fee_amount")}</label>
+                <input
+                  name="fee_amount"
+                  value={form.fee_amount}
+                  onChange={handleChange}
+                  placeholder="optional"
+                  type="number"
+                  step="0.00000001"
+                  min="0"
+                />
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "form_fee_asset")}</label>
+                <input
+                  name="fee_asset"
+                  value={form.fee_asset}
+                  onChange={handleChange}
+                  placeholder={t(lang, "form_fee_asset_placeholder")}
+                />
+              </div>
               <div className="form-row">
                 <label>{t(lang, "form_tx_id")}</label>
                 <input
@@ -2806,42 +4613,1929 @@ const handleReloadHoldingPrices = async () => {
                 />
               </div>
               <div className="form-row">
-                <label>{t(lang, "form_linked_next_tx")}</label>
+                <label>{t(lang, "form_linked_next_tx")}</label>
+                <input
+                  name="linked_tx_next_id"
+                  value={form.linked_tx_next_id}
+                  onChange={handleChange}
+                  placeholder={t(lang, "form_linked_next_tx_placeholder")}
+                  type="number"
+                  min="1"
+                />
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "form_note")}</label>
+                <textarea
+                  name="note"
+                  value={form.note}
+                  onChange={handleChange}
+                  rows={2}
+                  placeholder={t(lang, "form_note_placeholder")}
+                />
+              </div>
+
+              <div className="form-actions">
+                <button type="submit" className="btn-primary">
+                  {editingId ? t(lang, "form_update") : t(lang, "form_save")}
+                </button>
+                {editingId && (
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={resetForm}
+                  >
+                    {t(lang, "close_overlay")}
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showPrivateSalesReport && privateSalesReport && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => setShowPrivateSalesReport(false)}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>
+              {t(lang, "tax_de_title")} {privateSalesReport.year}
+            </h3>
+            <p className="muted">{t(lang, "tax_de_description")}</p>
+
+            <h4>{t(lang, "tax_de_section_sales")}</h4>
+            {privateSalesReport.rows.length === 0 ? (
+              <p className="muted">{t(lang, "tax_de_no_sales")}</p>
+            ) : (
+              <table className="table table-striped">
+                <thead>
+                  <tr>
+                    <th>{t(lang, "pdf_col_asset")}</th>
+                    <th>{t(lang, "pdf_col_amount")}</th>
+                    <th>{t(lang, "tax_de_col_acquired")}</th>
+                    <th>{t(lang, "tax_de_col_sold")}</th>
+                    <th>{t(lang, "tax_de_col_days_held")}</th>
+                    <th>{t(lang, "tax_de_col_proceeds")}</th>
+                    <th>{t(lang, "tax_de_col_cost")}</th>
+                    <th>{t(lang, "tax_de_col_gain")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {privateSalesReport.rows.map((row, index) => (
+                    <tr key={`${row.disposal_transaction_id}-${row.acquisition_transaction_id}-${index}`}>
+                      <td>{row.asset_symbol}</td>
+                      <td>{row.amount}</td>
+                      <td>{dateFormatter.format(new Date(row.acquired_at))}</td>
+                      <td>{dateFormatter.format(new Date(row.disposed_at))}</td>
+                      <td>{row.holding_days}</td>
+                      <td>{formatReportEur(row.proceeds)}</td>
+                      <td>{formatReportEur(row.cost_basis)}</td>
+                      <td>{formatReportEur(row.gain)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <h4>{t(lang, "tax_de_section_anlage_so")}</h4>
+            <table className="table table-striped">
+              <thead>
+                <tr>
+                  <th>{t(lang, "pdf_col_asset")}</th>
+                  <th>{t(lang, "tax_de_col_acquired")}</th>
+                  <th>{t(lang, "tax_de_col_sold")}</th>
+                  <th>{t(lang, "tax_de_col_proceeds")}</th>
+                  <th>{t(lang, "tax_de_col_cost")}</th>
+                  <th>{t(lang, "tax_de_col_gain")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {privateSalesReport.subtotals.map((subtotal) => (
+                  <tr key={subtotal.asset_symbol}>
+                    <td>{subtotal.asset_symbol}</td>
+                    <td>{dateFormatter.format(new Date(subtotal.first_acquired_at))}</td>
+                    <td>{dateFormatter.format(new Date(subtotal.last_disposed_at))}</td>
+                    <td>{formatReportEur(subtotal.proceeds)}</td>
+                    <td>{formatReportEur(subtotal.cost_basis)}</td>
+                    <td>{formatReportEur(subtotal.gain)}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td>
+                    <strong>{t(lang, "tax_de_total")}</strong>
+                  </td>
+                  <td />
+                  <td />
+                  <td>{formatReportEur(privateSalesReport.proceeds)}</td>
+                  <td>{formatReportEur(privateSalesReport.cost_basis)}</td>
+                  <td>{formatReportEur(privateSalesReport.gain)}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            <h4>{t(lang, "tax_de_section_summary")}</h4>
+            <table className="table">
+              <tbody>
+                <tr>
+                  <td>{t(lang, "tax_de_col_gain")}</td>
+                  <td>{formatReportEur(privateSalesReport.gain)}</td>
+                </tr>
+                <tr>
+                  <td>
+                    {t(lang, "tax_de_exemption_limit")} {privateSalesReport.year}
+                  </td>
+                  <td>{formatReportEur(privateSalesReport.exemption_limit)}</td>
+                </tr>
+                <tr>
+                  <td>
+                    <strong>{t(lang, "tax_de_taxable_gain")}</strong>
+                  </td>
+                  <td>
+                    <strong>{formatReportEur(privateSalesReport.taxable_gain)}</strong>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <p>
+              {privateSalesReport.gain < 0
+                ? t(lang, "tax_de_status_loss")
+                : privateSalesReport.exempt
+                  ? t(lang, "tax_de_status_exempt")
+                  : t(lang, "tax_de_status_taxable")}
+            </p>
+            <p className="muted">{t(lang, "tax_de_freigrenze_hint")}</p>
+            {privateSalesReport.unvalued_count > 0 && (
+              <p className="muted">{t(lang, "tax_de_unvalued_hint")}</p>
+            )}
+
+            <div className="form-actions">
+              <button
+                type="button"
+                className="btn-primary"
+                onClick={handleExportPrivateSalesReportPdf}
+              >
+                {t(lang, "action_export_pdf")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showIncomeReport && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => {
+                setShowIncomeReport(false);
+                setIncomeReport(null);
+              }}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>{t(lang, "income_title")}</h3>
+            <p className="muted">{t(lang, "income_description")}</p>
+
+            {incomeReportLoading && (
+              <>
+                <p className="muted">{t(lang, "income_loading")}</p>
+                <progress />
+              </>
+            )}
+
+            {incomeReport && incomeReport.groups.length === 0 && (
+              <p className="muted">{t(lang, "income_empty")}</p>
+            )}
+
+            {incomeReport && incomeReport.groups.length > 0 && (
+              <table className="table table-striped">
+                <thead>
+                  <tr>
+                    <th>{t(lang, "income_col_year")}</th>
+                    <th>{t(lang, "pdf_col_asset")}</th>
+                    <th>{t(lang, "income_col_source")}</th>
+                    <th>{t(lang, "income_col_receipts")}</th>
+                    <th>{t(lang, "income_col_amount")}</th>
+                    <th>{t(lang, "income_col_value")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {incomeReport.year_totals.map((total) => (
+                    <React.Fragment key={total.year}>
+                      {incomeReport.groups
+                        .filter((group) => group.year === total.year)
+                        .map((group) => (
+                          <tr key={`${group.year}-${group.asset_symbol}-${group.source}`}>
+                            <td>{group.year}</td>
+                            <td>{group.asset_symbol}</td>
+                            <td>{group.source || t(lang, "income_source_unknown")}</td>
+                            <td>{group.receipt_count}</td>
+                            <td>{group.amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                            <td>
+                              {group.value.toLocaleString(currentLocale, {
+                                minimumFractionDigits: 2,
+                                maximumFractionDigits: 2,
+                              })}{" "}
+                              {incomeReport.base_currency}
+                              {group.unpriced_count > 0 && (
+                                <span className="pill pill-warning" style={{ marginLeft: "0.5rem" }}>
+                                  {group.unpriced_count} {t(lang, "income_unpriced_badge")}
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      <tr>
+                        <td>
+                          <strong>{total.year}</strong>
+                        </td>
+                        <td colSpan={4}>
+                          <strong>{t(lang, "income_year_total")}</strong>
+                        </td>
+                        <td>
+                          <strong>
+                            {total.value.toLocaleString(currentLocale, {
+                              minimumFractionDigits: 2,
+                              maximumFractionDigits: 2,
+                            })}{" "}
+                            {incomeReport.base_currency}
+                          </strong>
+                        </td>
+                      </tr>
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {incomeReport && incomeReport.unpriced.length > 0 && (
+              <>
+                <h4>{t(lang, "income_unpriced_title")}</h4>
+                <p className="muted">{t(lang, "income_unpriced_hint")}</p>
+                <table className="table table-striped">
+                  <thead>
+                    <tr>
+                      <th>{t(lang, "pdf_col_id")}</th>
+                      <th>{t(lang, "income_col_date")}</th>
+                      <th>{t(lang, "pdf_col_asset")}</th>
+                      <th>{t(lang, "pdf_col_type")}</th>
+                      <th>{t(lang, "income_col_amount")}</th>
+                      <th>{t(lang, "income_col_source")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {incomeReport.unpriced.map((receipt) => (
+                      <tr key={receipt.transaction_id}>
+                        <td>{receipt.transaction_id}</td>
+                        <td>{dateTimeFormatter.format(new Date(receipt.timestamp))}</td>
+                        <td>{receipt.asset_symbol}</td>
+                        <td>{receipt.tx_type}</td>
+                        <td>{receipt.amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                        <td>{receipt.source || t(lang, "income_source_unknown")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showForm8949Report && form8949Report && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => setShowForm8949Report(false)}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>
+              {t(lang, "us_8949_title")} {form8949Report.year}
+            </h3>
+            <p className="muted">{t(lang, "us_8949_description")}</p>
+
+            <h4>{t(lang, "us_8949_schedule_d_title")}</h4>
+            <table className="table table-striped">
+              <thead>
+                <tr>
+                  <th>{t(lang, "us_8949_col_term")}</th>
+                  <th>{t(lang, "us_8949_col_rows")}</th>
+                  <th>{t(lang, "us_8949_col_proceeds")}</th>
+                  <th>{t(lang, "us_8949_col_cost")}</th>
+                  <th>{t(lang, "us_8949_col_gain")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {([
+                  ["us_8949_term_short", form8949Report.short_term_totals],
+                  ["us_8949_term_long", form8949Report.long_term_totals],
+                ] as const).map(([labelKey, totals]) => (
+                  <tr key={labelKey}>
+                    <td>{t(lang, labelKey)}</td>
+                    <td>{totals.row_count}</td>
+                    <td>{formatReportUsd(totals.proceeds)}</td>
+                    <td>{formatReportUsd(totals.cost_basis)}</td>
+                    <td>{formatReportUsd(totals.gain)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {form8949Report.unvalued_count > 0 && (
+              <p className="muted">{t(lang, "us_8949_unvalued_hint")}</p>
+            )}
+
+            <h4>{t(lang, "us_8949_short_term")}</h4>
+            {form8949Report.short_term.length === 0 ? (
+              <p className="muted">{t(lang, "us_8949_empty")}</p>
+            ) : (
+              <table className="table table-striped">
+                <thead>
+                  <tr>
+                    <th>{t(lang, "us_8949_col_description")}</th>
+                    <th>{t(lang, "us_8949_col_acquired")}</th>
+                    <th>{t(lang, "us_8949_col_sold")}</th>
+                    <th>{t(lang, "us_8949_col_proceeds")}</th>
+                    <th>{t(lang, "us_8949_col_cost")}</th>
+                    <th>{t(lang, "us_8949_col_gain")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {form8949Report.short_term.map((row, index) => (
+                    <tr key={`${row.disposal_transaction_id}-${row.acquisition_transaction_id}-${index}`}>
+                      <td>{row.description}</td>
+                      <td>{formatForm8949Date(row.date_acquired)}</td>
+                      <td>{formatForm8949Date(row.date_sold)}</td>
+                      <td>{formatReportUsd(row.proceeds)}</td>
+                      <td>{formatReportUsd(row.cost_basis)}</td>
+                      <td>{formatReportUsd(row.gain)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <h4>{t(lang, "us_8949_long_term")}</h4>
+            {form8949Report.long_term.length === 0 ? (
+              <p className="muted">{t(lang, "us_8949_empty")}</p>
+            ) : (
+              <table className="table table-striped">
+                <thead>
+                  <tr>
+                    <th>{t(lang, "us_8949_col_description")}</th>
+                    <th>{t(lang, "us_8949_col_acquired")}</th>
+                    <th>{t(lang, "us_8949_col_sold")}</th>
+                    <th>{t(lang, "us_8949_col_proceeds")}</th>
+                    <th>{t(lang, "us_8949_col_cost")}</th>
+                    <th>{t(lang, "us_8949_col_gain")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {form8949Report.long_term.map((row, index) => (
+                    <tr key={`${row.disposal_transaction_id}-${row.acquisition_transaction_id}-${index}`}>
+                      <td>{row.description}</td>
+                      <td>{formatForm8949Date(row.date_acquired)}</td>
+                      <td>{formatForm8949Date(row.date_sold)}</td>
+                      <td>{formatReportUsd(row.proceeds)}</td>
+                      <td>{formatReportUsd(row.cost_basis)}</td>
+                      <td>{formatReportUsd(row.gain)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="form-actions">
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={handleExportForm8949Csv}
+              >
+                {t(lang, "csv_export_button")}
+              </button>
+              <button
+                type="button"
+                className="btn-primary"
+                onClick={handleExportForm8949Pdf}
+              >
+                {t(lang, "action_export_pdf")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showSaleSimulator && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => setShowSaleSimulator(false)}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>{t(lang, "simulator_title")}</h3>
+            <p className="muted">{t(lang, "simulator_description")}</p>
+
+            <div className="form">
+              <div className="form-row">
+                <label>{t(lang, "pdf_col_asset")}</label>
+                <select
+                  name="asset_symbol"
+                  value={simulatorForm.asset_symbol}
+                  onChange={handleSimulatorChange}
+                >
+                  {holdings.map((h) => (
+                    <option key={h.asset_symbol} value={h.asset_symbol}>
+                      {h.asset_symbol} ({h.total_amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "form_amount")}</label>
+                <input
+                  type="number"
+                  step="0.00000001"
+                  name="amount"
+                  value={simulatorForm.amount}
+                  onChange={handleSimulatorChange}
+                  placeholder="0"
+                />
+              </div>
+              <div className="form-row">
+                <label>
+                  {t(lang, "simulator_price_label")} ({config?.base_currency === "USD" ? "USD" : "EUR"})
+                </label>
+                <input
+                  type="number"
+                  step="0.00000001"
+                  name="price"
+                  value={simulatorForm.price}
+                  onChange={handleSimulatorChange}
+                  placeholder="0"
+                />
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "simulator_date_label")}</label>
+                <input
+                  type="datetime-local"
+                  name="timestamp"
+                  value={simulatorForm.timestamp}
+                  onChange={handleSimulatorChange}
+                />
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "simulator_tax_rate_label")}</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  name="tax_rate"
+                  value={simulatorForm.tax_rate}
+                  onChange={handleSimulatorChange}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+
+            {saleSimulation && (
+              <>
+                {saleSimulation.unmatched_amount > 0 && (
+                  <p className="error-text">
+                    {t(lang, "simulator_unmatched_hint")}{" "}
+                    {saleSimulation.unmatched_amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}{" "}
+                    {simulatorForm.asset_symbol}
+                  </p>
+                )}
+
+                <table className="table">
+                  <tbody>
+                    <tr>
+                      <td>{t(lang, "gains_col_proceeds")}</td>
+                      <td>{formatBaseCurrencyValue(saleSimulation.proceeds)}</td>
+                    </tr>
+                    <tr>
+                      <td>{t(lang, "gains_col_cost_basis")}</td>
+                      <td>{formatBaseCurrencyValue(saleSimulation.cost_basis)}</td>
+                    </tr>
+                    <tr>
+                      <td>{t(lang, "gains_col_gain")}</td>
+                      <td>{formatBaseCurrencyValue(saleSimulation.gain)}</td>
+                    </tr>
+                    <tr>
+                      <td>{t(lang, "simulator_gain_within")}</td>
+                      <td>{formatBaseCurrencyValue(saleSimulation.gain_within_holding_period)}</td>
+                    </tr>
+                    <tr>
+                      <td>{t(lang, "simulator_gain_outside")}</td>
+                      <td>{formatBaseCurrencyValue(saleSimulation.gain_outside_holding_period)}</td>
+                    </tr>
+                    <tr>
+                      <td>
+                        <strong>{t(lang, "simulator_estimated_tax")}</strong>
+                      </td>
+                      <td>
+                        <strong>{formatBaseCurrencyValue(saleSimulation.estimated_tax)}</strong>
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+                {saleSimulation.unvalued_count > 0 && (
+                  <p className="muted">{t(lang, "gains_compare_unvalued_hint")}</p>
+                )}
+
+                <h4>{t(lang, "simulator_lots_title")}</h4>
+                <table className="table table-striped">
+                  <thead>
+                    <tr>
+                      <th>{t(lang, "tax_de_col_acquired")}</th>
+                      <th>{t(lang, "form_amount")}</th>
+                      <th>{t(lang, "tax_de_col_days_held")}</th>
+                      <th>{t(lang, "gains_col_cost_basis")}</th>
+                      <th>{t(lang, "gains_col_gain")}</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {saleSimulation.consumed.map((event) => {
+                      const within = isWithinHoldingPeriod(
+                        event.holding_days,
+                        config?.holding_period_days ?? DEFAULT_HOLDING_PERIOD_DAYS,
+                      );
+                      return (
+                        <tr key={event.acquisition_transaction_id}>
+                          <td>{dateFormatter.format(new Date(event.acquired_at))}</td>
+                          <td>{event.amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                          <td>{event.holding_days}</td>
+                          <td>{event.cost_basis == null ? "–" : formatBaseCurrencyValue(event.cost_basis)}</td>
+                          <td>{event.gain == null ? "–" : formatBaseCurrencyValue(event.gain)}</td>
+                          <td>
+                            <span className={within ? "pill pill-warning" : "pill pill-success"}>
+                              {t(lang, within ? "simulator_lot_within" : "simulator_lot_outside")}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            <p className="muted">{t(lang, "simulator_no_write_hint")}</p>
+          </div>
+        </div>
+      )}
+
+      {showHarvestReport && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => setShowHarvestReport(false)}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>{t(lang, "harvest_title")}</h3>
+            <p className="muted">{t(lang, "harvest_description")}</p>
+            {config?.price_fetch_enabled === false && (
+              <p className="muted">{t(lang, "harvest_prices_disabled_hint")}</p>
+            )}
+
+            {harvestCandidates.length === 0 ? (
+              <p className="muted">{t(lang, "harvest_empty")}</p>
+            ) : (
+              harvestCandidates.map((asset) => (
+                <div key={asset.asset_symbol}>
+                  <h4>
+                    {asset.asset_symbol}: {formatBaseCurrencyValue(asset.total_loss)}
+                  </h4>
+                  <p className="muted">
+                    {t(lang, "harvest_within_total")}{" "}
+                    {formatBaseCurrencyValue(asset.within_holding_period_loss)}
+                  </p>
+                  <table className="table table-striped">
+                    <thead>
+                      <tr>
+                        <th>{t(lang, "tax_de_col_acquired")}</th>
+                        <th>{t(lang, "form_amount")}</th>
+                        <th>{t(lang, "harvest_col_unit_cost")}</th>
+                        <th>{t(lang, "harvest_col_current_price")}</th>
+                        <th>{t(lang, "harvest_col_loss")}</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {asset.lots.map((lot) => (
+                        <tr key={lot.transaction_id}>
+                          <td>{dateFormatter.format(new Date(lot.acquired_at))}</td>
+                          <td>{lot.remaining_amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                          <td>{formatBaseCurrencyValue(lot.unit_cost)}</td>
+                          <td>{formatBaseCurrencyValue(lot.current_price)}</td>
+                          <td className="holding-value-negative">
+                            {formatBaseCurrencyValue(lot.unrealized_loss)}
+                          </td>
+                          <td>
+                            <span
+                              className={
+                                lot.within_holding_period ? "pill pill-warning" : "pill pill-info"
+                              }
+                            >
+                              {t(
+                                lang,
+                                lot.within_holding_period
+                                  ? "simulator_lot_within"
+                                  : "simulator_lot_outside",
+                              )}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))
+            )}
+            <p className="muted">{t(lang, "harvest_hint")}</p>
+          </div>
+        </div>
+      )}
+
+      {importPreview && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1100,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={handleCancelImport}
+              disabled={importConfirming}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>{t(lang, "import_preview_title")}</h3>
+            <p className="muted">{t(lang, "import_preview_description")}</p>
+            <p>
+              <span className="pill pill-success">
+                {t(lang, "import_preview_new")} {importPreview.transactions.length}
+              </span>{" "}
+              <span className="pill pill-info">
+                {t(lang, "import_preview_duplicates")} {importPreview.duplicates.length}
+              </span>{" "}
+              <span className="pill pill-warning">
+                {t(lang, "import_preview_errors")} {importPreview.errors.length}
+              </span>
+            </p>
+
+            {importPreview.previous_imports.length > 0 && (
+              <div className="csv-errors">
+                <p className="error-text">{t(lang, "import_preview_reimport_warning")}</p>
+                <ul>
+                  {importPreview.previous_imports.map((match) => (
+                    <li key={match.batch.id}>
+                      {t(
+                        lang,
+                        match.reason === "same_file"
+                          ? "import_preview_reimport_same_file"
+                          : "import_preview_reimport_overlap",
+                      )}{" "}
+                      {match.batch.file_name} ({t(lang, IMPORT_KIND_LABEL_KEYS[match.batch.kind])},{" "}
+                      {t(lang, "import_preview_reimport_imported_at")}{" "}
+                      {dateTimeFormatter.format(new Date(match.batch.imported_at))}
+                      {match.batch.first_timestamp && match.batch.last_timestamp && (
+                        <>
+                          , {dateFormatter.format(new Date(match.batch.first_timestamp))} –{" "}
+                          {dateFormatter.format(new Date(match.batch.last_timestamp))}
+                        </>
+                      )}
+                      )
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <h4>{t(lang, "import_preview_holdings_title")}</h4>
+            {importPreview.holdings_delta.length === 0 ? (
+              <p className="muted">{t(lang, "import_preview_holdings_unchanged")}</p>
+            ) : (
+              <table className="table table-striped">
+                <thead>
+                  <tr>
+                    <th>{t(lang, "form_asset")}</th>
+                    <th>{t(lang, "import_preview_col_before")}</th>
+                    <th>{t(lang, "import_preview_col_after")}</th>
+                    <th>{t(lang, "import_preview_col_change")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {importPreview.holdings_delta.map((row) => (
+                    <tr key={row.asset_symbol}>
+                      <td>{row.asset_symbol}</td>
+                      <td>{row.before.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                      <td>{row.after.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                      <td className={row.after < row.before ? "holding-value-negative" : undefined}>
+                        {row.after > row.before ? "+" : ""}
+                        {(row.after - row.before).toLocaleString(currentLocale, {
+                          maximumFractionDigits: 8,
+                        })}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {importPreview.transactions.length > 0 && (
+              <>
+                <h4>{t(lang, "import_preview_transactions_title")}</h4>
+                <table className="table table-striped">
+                  <thead>
+                    <tr>
+                      <th>{t(lang, "form_timestamp")}</th>
+                      <th>{t(lang, "form_type")}</th>
+                      <th>{t(lang, "form_asset")}</th>
+                      <th>{t(lang, "form_amount")}</th>
+                      <th>{t(lang, "import_wizard_field_fiat_value")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {importPreview.transactions.slice(0, IMPORT_PREVIEW_ROW_LIMIT).map((tx) => (
+                      <tr key={tx.id}>
+                        <td>{dateTimeFormatter.format(new Date(tx.timestamp))}</td>
+                        <td>{formatTxTypeLabel(tx.tx_type)}</td>
+                        <td>{tx.asset_symbol}</td>
+                        <td>{tx.amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                        <td>
+                          {tx.fiat_value != null
+                            ? `${tx.fiat_value.toLocaleString(currentLocale, {
+                                maximumFractionDigits: 2,
+                              })} ${tx.fiat_currency}`
+                            : "–"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {importPreview.transactions.length > IMPORT_PREVIEW_ROW_LIMIT && (
+                  <p className="muted">
+                    {t(lang, "import_preview_more_rows")}{" "}
+                    {importPreview.transactions.length - IMPORT_PREVIEW_ROW_LIMIT}
+                  </p>
+                )}
+              </>
+            )}
+
+            {importPreview.duplicates.length > 0 && (
+              <div className="csv-errors">
+                <p className="muted">{t(lang, "import_preview_duplicates_title")}</p>
+                <ul>
+                  {importPreview.duplicates.map((dup, index) => (
+                    <li key={index}>
+                      {dup.message} ({formatTxTypeLabel(dup.transaction.tx_type)}{" "}
+                      {dup.transaction.amount} {dup.transaction.asset_symbol})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {importPreview.errors.length > 0 && (
+              <div className="csv-errors">
+                <p className="muted">{t(lang, "csv_result_errors_title")}</p>
+                <ul>
+                  {importPreview.errors.map((err, index) => (
+                    <li key={index}>{err}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="form-actions">
+              <button
+                type="button"
+                className="btn-primary"
+                onClick={handleConfirmImport}
+                disabled={importConfirming || importPreview.transactions.length === 0}
+              >
+                {t(lang, "import_preview_confirm")}
+              </button>
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={handleCancelImport}
+                disabled={importConfirming}
+              >
+                {t(lang, "form_cancel")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showAccounts && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => setShowAccounts(false)}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>{t(lang, "accounts_title")}</h3>
+            <p className="muted">{t(lang, "accounts_description")}</p>
+            {accounts.length === 0 ? (
+              <p className="muted">{t(lang, "accounts_empty")}</p>
+            ) : (
+              <table className="table table-striped">
+                <thead>
+                  <tr>
+                    <th>{t(lang, "accounts_col_name")}</th>
+                    <th>{t(lang, "accounts_col_type")}</th>
+                    <th>{t(lang, "accounts_col_addresses")}</th>
+                    <th>{t(lang, "accounts_col_transactions")}</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {accounts.map((account) => (
+                    <tr key={account.id}>
+                      <td>{account.name}</td>
+                      <td>{t(lang, `accounts_type_${account.type}`)}</td>
+                      <td>{account.addresses.length > 0 ? account.addresses.join(", ") : "–"}</td>
+                      <td>{transactions.filter((tx) => tx.account_id === account.id).length}</td>
+                      <td>
+                        <button
+                          type="button"
+                          className="btn-secondary"
+                          onClick={() => handleEditAccount(account)}
+                        >
+                          {t(lang, "action_edit")}
+                        </button>{" "}
+                        <button
+                          type="button"
+                          className="btn-secondary"
+                          onClick={() => {
+                            setAccountDeleteId(account.id);
+                            setAccountMoveToId("");
+                          }}
+                        >
+                          {t(lang, "action_delete")}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {accountDeleteId && (
+              <div className="form">
+                <div className="form-row">
+                  <label>{t(lang, "accounts_delete_move_label")}</label>
+                  <select value={accountMoveToId} onChange={(e) => setAccountMoveToId(e.target.value)}>
+                    <option value="">{t(lang, "form_account_none")}</option>
+                    {accounts
+                      .filter((account) => account.id !== accountDeleteId)
+                      .map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div className="form-actions">
+                  <button type="button" className="btn-primary" onClick={() => void handleDeleteAccount()}>
+                    {t(lang, "accounts_delete_confirm")}
+                  </button>
+                  <button type="button" className="btn-secondary" onClick={() => setAccountDeleteId(null)}>
+                    {t(lang, "form_cancel")}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <h4>{accountForm.id ? t(lang, "accounts_edit_title") : t(lang, "accounts_new_title")}</h4>
+            <form className="form" onSubmit={handleSaveAccount}>
+              <div className="form-row">
+                <label>{t(lang, "accounts_col_name")}</label>
+                <input
+                  value={accountForm.name}
+                  onChange={(e) => setAccountForm((prev) => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "accounts_col_type")}</label>
+                <select
+                  value={accountForm.type}
+                  onChange={(e) =>
+                    setAccountForm((prev) => ({ ...prev, type: e.target.value as AccountType }))
+                  }
+                >
+                  {ACCOUNT_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {t(lang, `accounts_type_${type}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "accounts_col_addresses")}</label>
+                <textarea
+                  value={accountAddressesInput}
+                  onChange={(e) => setAccountAddressesInput(e.target.value)}
+                  placeholder={t(lang, "accounts_addresses_placeholder")}
+                  rows={3}
+                />
+              </div>
+              {accountError && <p className="error-text">{accountError}</p>}
+              <div className="form-actions">
+                <button type="submit" className="btn-primary">
+                  {t(lang, "accounts_save")}
+                </button>
+                {accountForm.id && (
+                  <button type="button" className="btn-secondary" onClick={resetAccountForm}>
+                    {t(lang, "form_cancel")}
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showReconciliation && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => setShowReconciliation(false)}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>{t(lang, "reconcile_title")}</h3>
+            <p className="muted">{t(lang, "reconcile_description")}</p>
+            <form className="form" onSubmit={handleAddReportedBalance}>
+              <div className="form-row">
+                <label>{t(lang, "form_account")}</label>
+                <select
+                  value={reconcileForm.account_id}
+                  onChange={(e) => setReconcileForm((prev) => ({ ...prev, account_id: e.target.value }))}
+                >
+                  <option value="">{t(lang, "holdings_account_all")}</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "form_asset")}</label>
+                <input
+                  value={reconcileForm.asset_symbol}
+                  onChange={(e) => setReconcileForm((prev) => ({ ...prev, asset_symbol: e.target.value }))}
+                />
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "form_timestamp")}</label>
+                <input
+                  type="datetime-local"
+                  value={reconcileForm.timestamp}
+                  onChange={(e) => setReconcileForm((prev) => ({ ...prev, timestamp: e.target.value }))}
+                  lang={currentLocale}
+                />
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "reconcile_col_reported")}</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={reconcileForm.amount}
+                  onChange={(e) => setReconcileForm((prev) => ({ ...prev, amount: e.target.value }))}
+                />
+              </div>
+              <div className="form-actions">
+                <button type="submit" className="btn-primary">
+                  {t(lang, "reconcile_add")}
+                </button>
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "import_wizard_date_format")}</label>
+                <select
+                  value={reconcileImportFormat.date_format}
+                  onChange={(e) =>
+                    setReconcileImportFormat((prev) => ({
+                      ...prev,
+                      date_format: e.target.value as ImportDateFormat,
+                    }))
+                  }
+                >
+                  {IMPORT_DATE_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {t(lang, IMPORT_DATE_FORMAT_LABEL_KEYS[format])}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "import_wizard_decimal_separator")}</label>
+                <select
+                  value={reconcileImportFormat.decimal_separator}
+                  onChange={(e) =>
+                    setReconcileImportFormat((prev) => ({
+                      ...prev,
+                      decimal_separator: e.target.value === "," ? "," : ".",
+                    }))
+                  }
+                >
+                  <option value=".">1,234.56</option>
+                  <option value=",">1.234,56</option>
+                </select>
+              </div>
+              <div className="form-row">
+                <label>{t(lang, "import_wizard_timezone")}</label>
+                <input
+                  list="reconcile-import-timezones"
+                  value={reconcileImportFormat.timezone}
+                  onChange={(e) =>
+                    setReconcileImportFormat((prev) => ({ ...prev, timezone: e.target.value.trim() }))
+                  }
+                />
+                <datalist id="reconcile-import-timezones">
+                  {IMPORT_TIMEZONE_SUGGESTIONS.map((zone) => (
+                    <option key={zone} value={zone} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="form-row file-row">
+                <label>{t(lang, "reconcile_import_button")}</label>
+                <div className="file-input-wrapper">
+                  <input
+                    type="file"
+                    accept=".csv,.txt,.xlsx,.xls"
+                    onChange={handleReconcileFileChange}
+                  />
+                </div>
+              </div>
+              <p className="muted">{t(lang, "reconcile_import_hint")}</p>
+            </form>
+            {reconcileError && <p className="error-text">{reconcileError}</p>}
+            {reconcileImportResult && (
+              <div className="csv-result">
+                <p className="muted">
+                  {t(lang, "csv_result_prefix")} {reconcileImportResult.imported}
+                </p>
+                {reconcileImportResult.errors.length > 0 && (
+                  <div className="csv-errors">
+                    <p className="muted">{t(lang, "csv_result_errors_title")}</p>
+                    <ul>
+                      {reconcileImportResult.errors.map((err, index) => (
+                        <li key={index}>{err}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {reconciliations.length === 0 ? (
+              <p className="muted">{t(lang, "reconcile_empty")}</p>
+            ) : (
+              <table className="table table-striped">
+                <thead>
+                  <tr>
+                    <th>{t(lang, "form_timestamp")}</th>
+                    <th>{t(lang, "form_account")}</th>
+                    <th>{t(lang, "form_asset")}</th>
+                    <th>{t(lang, "reconcile_col_reported")}</th>
+                    <th>{t(lang, "reconcile_col_computed")}</th>
+                    <th>{t(lang, "reconcile_col_difference")}</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reconciliations.map((item) => (
+                    <React.Fragment key={item.balance.id}>
+                      <tr>
+                        <td>{dateTimeFormatter.format(new Date(item.balance.timestamp))}</td>
+                        <td>
+                          {item.balance.account_id
+                            ? accounts.find((account) => account.id === item.balance.account_id)?.name ?? "–"
+                            : t(lang, "holdings_account_all")}
+                        </td>
+                        <td>{item.balance.asset_symbol}</td>
+                        <td>{item.balance.amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                        <td>{item.computed_amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                        <td>
+                          {item.difference === 0 ? (
+                            <span className="pill pill-success">{t(lang, "reconcile_match")}</span>
+                          ) : (
+                            <span className="holding-value-negative">
+                              {item.difference.toLocaleString(currentLocale, {
+                                maximumFractionDigits: 8,
+                                signDisplay: "exceptZero",
+                              })}
+                            </span>
+                          )}
+                        </td>
+                        <td>
+                          <button
+                            type="button"
+                            className="btn-secondary"
+                            onClick={() =>
+                              setReconcileExpandedId((prev) =>
+                                prev === item.balance.id ? null : item.balance.id,
+                              )
+                            }
+                          >
+                            {t(lang, "reconcile_show_transactions")}
+                          </button>{" "}
+                          <button
+                            type="button"
+                            className="btn-secondary"
+                            onClick={() => void handleDeleteReportedBalance(item.balance.id)}
+                          >
+                            {t(lang, "action_delete")}
+                          </button>
+                        </td>
+                      </tr>
+                      {reconcileExpandedId === item.balance.id && (
+                        <tr>
+                          <td colSpan={7}>
+                            {item.nearby_transactions.length === 0 ? (
+                              <p className="muted">{t(lang, "reconcile_no_transactions")}</p>
+                            ) : (
+                              <ul>
+                                {item.nearby_transactions.map((tx) => (
+                                  <li
+                                    key={tx.id}
+                                    className={
+                                      Date.parse(tx.timestamp) > Date.parse(item.balance.timestamp)
+                                        ? "muted"
+                                        : undefined
+                                    }
+                                  >
+                                    #{tx.id} {dateTimeFormatter.format(new Date(tx.timestamp))}{" "}
+                                    {formatTxTypeLabel(tx.tx_type)}{" "}
+                                    {tx.amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}{" "}
+                                    {tx.asset_symbol}
+                                    {tx.source ? ` (${tx.source})` : ""}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showDuplicateFinder && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => setShowDuplicateFinder(false)}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>{t(lang, "duplicates_title")}</h3>
+            <p className="muted">{t(lang, "duplicates_description")}</p>
+            <div className="form">
+              <div className="form-row">
+                <label>{t(lang, "duplicates_tolerance_label")}</label>
                 <input
-                  name="linked_tx_next_id"
-                  value={form.linked_tx_next_id}
-                  onChange={handleChange}
-                  placeholder={t(lang, "form_linked_next_tx_placeholder")}
-                  type="number"
-                  min="1"
+                  type="text"
+                  inputMode="decimal"
+                  value={duplicateToleranceInput}
+                  onChange={(e) => setDuplicateToleranceInput(e.target.value)}
                 />
               </div>
               <div className="form-row">
-                <label>{t(lang, "form_note")}</label>
-                <textarea
-                  name="note"
-                  value={form.note}
-                  onChange={handleChange}
-                  rows={2}
-                  placeholder={t(lang, "form_note_placeholder")}
+                <label>{t(lang, "duplicates_window_label")}</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={duplicateWindowInput}
+                  onChange={(e) => setDuplicateWindowInput(e.target.value)}
                 />
               </div>
-
               <div className="form-actions">
-                <button type="submit" className="btn-primary">
-                  {editingId ? t(lang, "form_update") : t(lang, "form_save")}
+                <button
+                  type="button"
+                  className="btn-primary"
+                  onClick={() => void handleFindDuplicates()}
+                  disabled={duplicateBusy}
+                >
+                  {t(lang, "duplicates_search")}
                 </button>
-                {editingId && (
-                  <button
-                    type="button"
-                    className="btn-secondary"
-                    onClick={resetForm}
+              </div>
+            </div>
+            {duplicateError && <p className="error-text">{duplicateError}</p>}
+
+            {duplicatePairs === null ? (
+              duplicateBusy && <p className="muted">{t(lang, "duplicates_searching")}</p>
+            ) : duplicatePairs.length === 0 ? (
+              <p className="muted">{t(lang, "duplicates_none")}</p>
+            ) : (
+              duplicatePairs.map((pair) => (
+                <div key={pair.key} style={{ marginBottom: "1.5rem" }}>
+                  <table className="table table-striped">
+                    <thead>
+                      <tr>
+                        <th>{t(lang, "form_timestamp")}</th>
+                        <th>{t(lang, "form_type")}</th>
+                        <th>{t(lang, "form_asset")}</th>
+                        <th>{t(lang, "form_amount")}</th>
+                        <th>{t(lang, "import_wizard_field_fiat_value")}</th>
+                        <th>{t(lang, "form_source")}</th>
+                        <th>{t(lang, "form_note")}</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[
+                        { keep: pair.first, remove: pair.second },
+                        { keep: pair.second, remove: pair.first },
+                      ].map(({ keep, remove }) => (
+                        <tr key={keep.id}>
+                          <td>{dateTimeFormatter.format(new Date(keep.timestamp))}</td>
+                          <td>{formatTxTypeLabel(keep.tx_type)}</td>
+                          <td>{keep.asset_symbol}</td>
+                          <td>{keep.amount.toLocaleString(currentLocale, { maximumFractionDigits: 8 })}</td>
+                          <td>
+                            {keep.fiat_value != null
+                              ? `${keep.fiat_value.toLocaleString(currentLocale, {
+                                  maximumFractionDigits: 2,
+                                })} ${keep.fiat_currency}`
+                              : "–"}
+                          </td>
+                          <td>{keep.source || "–"}</td>
+                          <td>{keep.note || "–"}</td>
+                          <td>
+                            <button
+                              type="button"
+                              className="btn-secondary"
+                              onClick={() => void handleMergeDuplicatePair(keep, remove)}
+                              disabled={duplicateBusy}
+                            >
+                              {t(lang, "duplicates_keep")}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="muted">
+                    {t(lang, "duplicates_difference")}{" "}
+                    {pair.amount_diff_percent.toLocaleString(currentLocale, { maximumFractionDigits: 4 })} %,{" "}
+                    {pair.time_diff_minutes.toLocaleString(currentLocale, { maximumFractionDigits: 1 })}{" "}
+                    {t(lang, "duplicates_minutes")}{" "}
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => void handleDismissDuplicatePair(pair)}
+                      disabled={duplicateBusy}
+                    >
+                      {t(lang, "duplicates_dismiss")}
+                    </button>
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {showImportHistory && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => setShowImportHistory(false)}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>{t(lang, "import_history_title")}</h3>
+            {importBatches.length === 0 ? (
+              <p className="muted">{t(lang, "import_history_empty")}</p>
+            ) : (
+              <table className="table table-striped">
+                <thead>
+                  <tr>
+                    <th>{t(lang, "import_history_col_date")}</th>
+                    <th>{t(lang, "import_history_col_kind")}</th>
+                    <th>{t(lang, "import_history_col_file")}</th>
+                    <th>{t(lang, "import_history_col_range")}</th>
+                    <th>{t(lang, "import_history_col_count")}</th>
+                    <th>{t(lang, "import_history_col_hash")}</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {importBatches.map((batch) => (
+                    <tr key={batch.id}>
+                      <td>{dateTimeFormatter.format(new Date(batch.imported_at))}</td>
+                      <td>{t(lang, IMPORT_KIND_LABEL_KEYS[batch.kind])}</td>
+                      <td>{batch.file_name}</td>
+                      <td>
+                        {batch.first_timestamp && batch.last_timestamp
+                          ? `${dateFormatter.format(new Date(batch.first_timestamp))} – ${dateFormatter.format(new Date(batch.last_timestamp))}`
+                          : "–"}
+                      </td>
+                      <td>{batch.transaction_count}</td>
+                      <td title={batch.file_hash}>
+                        <code>{batch.file_hash.slice(0, 12)}</code>
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className="btn-secondary"
+                          onClick={() => void handleUndoImportBatch(batch)}
+                          disabled={importBatchUndoing !== null}
+                        >
+                          {t(lang, "import_history_undo")}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showImportWizard && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.4)",
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "1rem",
+          }}
+        >
+          <div
+            className="card"
+            style={{
+              position: "relative",
+              maxWidth: "960px",
+              width: "100%",
+              maxHeight: "80vh",
+              overflow: "auto",
+            }}
+          >
+            <button
+              type="button"
+              className="btn-icon-close"
+              onClick={() => setShowImportWizard(false)}
+              aria-label={t(lang, "close_overlay")}
+              title={t(lang, "close_overlay")}
+            >
+              ×
+            </button>
+            <h3>{t(lang, "import_wizard_title")}</h3>
+            <p className="muted">
+              {t(lang, "import_wizard_step_prefix")} {wizardStep} / 4 –{" "}
+              {t(lang, `import_wizard_step_${wizardStep}`)}
+            </p>
+
+            {wizardStep === 1 && (
+              <div className="form">
+                <div className="form-row">
+                  <label>{t(lang, "import_wizard_template_label")}</label>
+                  <select
+                    value={wizardTemplate.id}
+                    onChange={(e) => handleWizardSelectTemplate(e.target.value)}
                   >
-                    {t(lang, "close_overlay")}
-                  </button>
+                    <option value="">{t(lang, "import_wizard_template_new")}</option>
+                    {importTemplates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-row file-row">
+                  <label>{t(lang, "external_import_file_label")}</label>
+                  <div className="file-input-wrapper">
+                    <input
+                      type="file"
+                      accept=".csv,.txt,.xlsx,.xls"
+                      onChange={handleWizardFileChange}
+                      disabled={wizardBusy}
+                    />
+                    <span className="file-name">
+                      {wizardFile?.name || t(lang, "external_import_no_file")}
+                    </span>
+                  </div>
+                </div>
+                {wizardTable && (
+                  <p className="muted">
+                    {t(lang, "import_wizard_rows_found")} {wizardTable.rows.length}
+                  </p>
                 )}
               </div>
-            </form>
+            )}
+
+            {wizardStep === 2 && wizardTable && (
+              <>
+                <div className="form">
+                  {IMPORT_MAPPABLE_FIELDS.map((field) => (
+                    <div className="form-row" key={field}>
+                      <label>
+                        {t(lang, IMPORT_FIELD_LABEL_KEYS[field])}
+                        {REQUIRED_IMPORT_FIELDS.includes(field) ? " *" : ""}
+                      </label>
+                      <select
+                        value={wizardTemplate.columns[field] ?? ""}
+                        onChange={(e) =>
+                          updateWizardTemplate({
+                            columns: {
+                              ...wizardTemplate.columns,
+                              [field]: e.target.value || undefined,
+                            },
+                          })
+                        }
+                      >
+                        <option value="">{t(lang, "import_wizard_column_none")}</option>
+                        {wizardTable.headers.map((header) => (
+                          <option key={header} value={header}>
+                            {header}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <table className="table table-striped">
+                  <thead>
+                    <tr>
+                      {wizardTable.headers.map((header) => (
+                        <th key={header}>{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {wizardTable.rows.slice(0, 3).map((row, index) => (
+                      <tr key={index}>
+                        {wizardTable.headers.map((header, col) => (
+                          <td key={header}>{row[col] ?? ""}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            {wizardStep === 3 && (
+              <div className="form">
+                <p className="muted">{t(lang, "import_wizard_type_hint")}</p>
+                {wizardTypeValues.map((value) => (
+                  <div className="form-row" key={value}>
+                    <label>{value}</label>
+                    <select
+                      value={wizardTemplate.type_values[value] ?? ""}
+                      onChange={(e) =>
+                        updateWizardTemplate({
+                          type_values: {
+                            ...wizardTemplate.type_values,
+                            [value]: e.target.value,
+                          },
+                        })
+                      }
+                    >
+                      <option value="">{t(lang, "import_wizard_type_as_is")}</option>
+                      {IMPORT_TX_TYPES.map((txType) => (
+                        <option key={txType} value={txType}>
+                          {formatTxTypeLabel(txType)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {wizardStep === 4 && (
+              <>
+                <div className="form">
+                  <div className="form-row">
+                    <label>{t(lang, "import_wizard_date_format")}</label>
+                    <select
+                      value={wizardTemplate.date_format}
+                      onChange={(e) =>
+                        updateWizardTemplate({ date_format: e.target.value as ImportDateFormat })
+                      }
+                    >
+                      {IMPORT_DATE_FORMATS.map((format) => (
+                        <option key={format} value={format}>
+                          {t(lang, IMPORT_DATE_FORMAT_LABEL_KEYS[format])}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="form-row">
+                    <label>{t(lang, "import_wizard_decimal_separator")}</label>
+                    <select
+                      value={wizardTemplate.decimal_separator}
+                      onChange={(e) =>
+                        updateWizardTemplate({
+                          decimal_separator: e.target.value === "," ? "," : ".",
+                        })
+                      }
+                    >
+                      <option value=".">1,234.56</option>
+                      <option value=",">1.234,56</option>
+                    </select>
+                  </div>
+                  <div className="form-row">
+                    <label>{t(lang, "import_wizard_timezone")}</label>
+                    <input
+                      list="import-wizard-timezones"
+                      value={wizardTemplate.timezone}
+                      onChange={(e) => updateWizardTemplate({ timezone: e.target.value.trim() })}
+                    />
+                    <datalist id="import-wizard-timezones">
+                      {IMPORT_TIMEZONE_SUGGESTIONS.map((zone) => (
+                        <option key={zone} value={zone} />
+                      ))}
+                    </datalist>
+                  </div>
+                  <div className="form-row">
+                    <label>{t(lang, "import_wizard_default_fiat")}</label>
+                    <input
+                      value={wizardTemplate.default_fiat_currency}
+                      onChange={(e) =>
+                        updateWizardTemplate({
+                          default_fiat_currency: e.target.value.trim().toUpperCase(),
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="form-row">
+                    <label>{t(lang, "import_wizard_template_name")}</label>
+                    <input
+                      value={wizardTemplate.name}
+                      onChange={(e) => updateWizardTemplate({ name: e.target.value })}
+                      placeholder={t(lang, "import_wizard_template_name_placeholder")}
+                    />
+                  </div>
+                  <div className="form-actions">
+                    <button type="button" className="btn-secondary" onClick={handleWizardSaveTemplate}>
+                      {t(lang, "import_wizard_template_save")}
+                    </button>
+                    {wizardTemplate.id && (
+                      <button type="button" className="btn-secondary" onClick={handleWizardDeleteTemplate}>
+                        {t(lang, "import_wizard_template_delete")}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <h4>{t(lang, "import_wizard_preview_title")}</h4>
+                <table className="table table-striped">
+                  <thead>
+                    <tr>
+                      <th>{t(lang, "form_timestamp")}</th>
+                      <th>{t(lang, "form_type")}</th>
+                      <th>{t(lang, "form_asset")}</th>
+                      <th>{t(lang, "form_amount")}</th>
+                      <th>{t(lang, "import_wizard_field_fiat_value")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {wizardPreview.map((result, index) =>
+                      result.ok ? (
+                        <tr key={index}>
+                          <td>{dateTimeFormatter.format(new Date(result.transaction.timestamp))}</td>
+                          <td>{formatTxTypeLabel(result.transaction.tx_type)}</td>
+                          <td>{result.transaction.asset_symbol}</td>
+                          <td>{result.transaction.amount}</td>
+                          <td>
+                            {result.transaction.fiat_value != null
+                              ? `${result.transaction.fiat_value} ${result.transaction.fiat_currency}`
+                              : "–"}
+                          </td>
+                        </tr>
+                      ) : (
+                        <tr key={index}>
+                          <td colSpan={5} className="error-text">
+                            {t(lang, `import_wizard_error_${result.error}`)} {result.detail}
+                          </td>
+                        </tr>
+                      ),
+                    )}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            {wizardBusy && <progress />}
+            {wizardError && <p className="error-text">{wizardError}</p>}
+
+            {wizardResult && (
+              <div className="csv-result">
+                <p className="muted">
+                  {t(lang, "csv_result_prefix")} {wizardResult.imported}
+                </p>
+                {wizardResult.errors.length > 0 && (
+                  <div className="csv-errors">
+                    <p className="muted">{t(lang, "csv_result_errors_title")}</p>
+                    <ul>
+                      {wizardResult.errors.map((err, index) => (
+                        <li key={index}>{err}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="form-actions">
+              {wizardStep > 1 && !wizardResult && (
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setWizardStep(wizardStep - 1)}
+                >
+                  {t(lang, "import_wizard_back")}
+                </button>
+              )}
+              {wizardStep < 4 && (
+                <button
+                  type="button"
+                  className="btn-primary"
+                  disabled={!wizardTable || (wizardStep === 2 && wizardMissingFields.length > 0)}
+                  onClick={() => setWizardStep(wizardStep + 1)}
+                >
+                  {t(lang, "import_wizard_next")}
+                </button>
+              )}
+              {wizardStep === 4 && !wizardResult && (
+                <button
+                  type="button"
+                  className="btn-primary"
+                  disabled={wizardBusy}
+                  onClick={handleWizardImport}
+                >
+                  {t(lang, "import_wizard_import")}
+                </button>
+              )}
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={() => setShowImportWizard(false)}
+              >
+                {t(lang, wizardResult ? "external_import_done_button" : "form_cancel")}
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -2902,9 +6596,15 @@ const handleReloadHoldingPrices = async () => {
                   <option value="binance_trade_xlsx">
                     {t(lang, "external_import_source_binance_xlsx")}
                   </option>
+                  <option value="coinbase_csv">
+                    {t(lang, "external_import_source_coinbase_csv")}
+                  </option>
                   <option value="bitpanda_csv">
                     {t(lang, "external_import_source_bitpanda_csv")}
                   </option>
+                  <option value="kraken_ledger_csv">
+                    {t(lang, "external_import_source_kraken_csv")}
+                  </option>
                 </select>
               </div>
 
@@ -2931,7 +6631,14 @@ const handleReloadHoldingPrices = async () => {
             {externalImporting && (
               <>
                 <p className="muted">{t(lang, "external_import_running")}</p>
-                <progress />
+                {externalImportProgress && externalImportProgress.total > 0 ? (
+                  <progress
+                    value={externalImportProgress.current}
+                    max={externalImportProgress.total}
+                  />
+                ) : (
+                  <progress />
+                )}
               </>
             )}
 
@@ -2963,6 +6670,15 @@ const handleReloadHoldingPrices = async () => {
                 justifyContent: "flex-end",
               }}
             >
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={handleOpenImportWizard}
+                disabled={externalImporting}
+                style={{ marginRight: "0.5rem" }}
+              >
+                {t(lang, "import_wizard_open_button")}
+              </button>
               <button
                 type="button"
                 className="btn-secondary"
@@ -3211,6 +6927,57 @@ const handleReloadHoldingPrices = async () => {
         </div>
       )}
 
+      {isPasskeyOverlayOpen && activeProfile && (
+        <div className="modal-backdrop">
+          <div className="modal">
+            <h2>{t(lang, "passkey_title")}</h2>
+            <p className="muted">
+              {t(lang, "passkey_description")}
+            </p>
+            {passkeyError && (
+              <p className="error-text modal-error">{passkeyError}</p>
+            )}
+            <p style={{ marginTop: "1rem" }}>
+              {passkeyCreatedAt
+                ? `${t(lang, "passkey_registered_at")} ${dateTimeFormatter.format(new Date(passkeyCreatedAt))}`
+                : t(lang, "passkey_none")}
+            </p>
+            <div className="modal-actions">
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={() => {
+                  setIsPasskeyOverlayOpen(false);
+                  setPasskeyError(null);
+                }}
+              >
+                {t(lang, "form_cancel")}
+              </button>
+              {passkeyCreatedAt && (
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={handleRemovePasskey}
+                  disabled={passkeyBusy}
+                >
+                  {t(lang, "passkey_remove_button")}
+                </button>
+              )}
+              <button
+                type="button"
+                className="btn-primary"
+                onClick={() => void handleRegisterPasskey()}
+                disabled={passkeyBusy}
+              >
+                {passkeyCreatedAt
+                  ? t(lang, "passkey_replace_button")
+                  : t(lang, "passkey_register_button")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {isCreateProfileOverlayOpen && (
         <div className="modal-backdrop">
           <div className="modal">
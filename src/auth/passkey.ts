@@ -0,0 +1,143 @@
+// NOTE:
+// - Passkeys are used purely locally: there is no server, so challenges are
+//   random and never verified. What protects the profile is the output of the
+//   WebAuthn PRF extension, which the authenticator only returns after user
+//   verification and which is the same for the same credential and salt.
+// - That output unwraps the profile data key (see profileStore), as an
+//   alternative to the PIN.
+
+const PASSKEY_TIMEOUT_MS = 60_000;
+const PRF_SALT_LENGTH = 32;
+const CHALLENGE_LENGTH = 32;
+
+export type RegisteredPasskey = {
+  /** Base64-encoded credential id. */
+  credentialId: string;
+  /** Base64-encoded salt passed to the PRF extension. */
+  prfSalt: string;
+};
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  window.crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i += 1) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return window.btoa(binary);
+}
+
+function base64ToBytes(b64: string): Uint8Array {
+  const binary = window.atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function toBytes(value: BufferSource): Uint8Array {
+  if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value);
+  }
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+/**
+ * Whether this browser offers WebAuthn at all. PRF support can only be
+ * detected by registering a passkey.
+ */
+export function isPasskeySupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof window.PublicKeyCredential !== "undefined" &&
+    typeof navigator !== "undefined" &&
+    Boolean(navigator.credentials)
+  );
+}
+
+/**
+ * Evaluate the PRF extension of an existing passkey. Prompts the user.
+ */
+export async function getPasskeySecret(passkey: RegisteredPasskey): Promise<Uint8Array> {
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: randomBytes(CHALLENGE_LENGTH) as unknown as BufferSource,
+      allowCredentials: [
+        {
+          type: "public-key",
+          id: base64ToBytes(passkey.credentialId) as unknown as BufferSource,
+        },
+      ],
+      userVerification: "required",
+      timeout: PASSKEY_TIMEOUT_MS,
+      extensions: {
+        prf: { eval: { first: base64ToBytes(passkey.prfSalt) as unknown as BufferSource } },
+      },
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!assertion) {
+    throw new Error("Passkey request was cancelled");
+  }
+  const first = assertion.getClientExtensionResults().prf?.results?.first;
+  if (!first) {
+    throw new Error("Passkey does not support the PRF extension");
+  }
+  return toBytes(first);
+}
+
+/**
+ * Create a platform passkey for a profile and return its id and PRF salt
+ * together with the PRF output for that salt.
+ */
+export async function registerPasskey(
+  profileName: string,
+): Promise<{ passkey: RegisteredPasskey; secret: Uint8Array }> {
+  const prfSalt = randomBytes(PRF_SALT_LENGTH);
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: randomBytes(CHALLENGE_LENGTH) as unknown as BufferSource,
+      rp: { name: "Traeky" },
+      user: {
+        id: randomBytes(16) as unknown as BufferSource,
+        name: profileName,
+        displayName: profileName,
+      },
+      pubKeyCredParams: [
+        { type: "public-key", alg: -7 },
+        { type: "public-key", alg: -257 },
+      ],
+      authenticatorSelection: {
+        authenticatorAttachment: "platform",
+        residentKey: "preferred",
+        userVerification: "required",
+      },
+      timeout: PASSKEY_TIMEOUT_MS,
+      extensions: {
+        prf: { eval: { first: prfSalt as unknown as BufferSource } },
+      },
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("Passkey registration was cancelled");
+  }
+  const prf = credential.getClientExtensionResults().prf;
+  if (!prf?.enabled && !prf?.results?.first) {
+    throw new Error("Passkey does not support the PRF extension");
+  }
+
+  const passkey: RegisteredPasskey = {
+    credentialId: bytesToBase64(new Uint8Array(credential.rawId)),
+    prfSalt: bytesToBase64(prfSalt),
+  };
+
+  // Some authenticators only evaluate the PRF on assertion, not on creation.
+  const secret = prf.results?.first ? toBytes(prf.results.first) : await getPasskeySecret(passkey);
+  return { passkey, secret };
+}
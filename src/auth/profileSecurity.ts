@@ -1,8 +1,25 @@
-import { encryptJsonWithPassphrase, decryptJsonWithPassphrase, type EncryptedPayload } from "../crypto/cryptoService";
+import {
+  decryptJsonWithKey,
+  decryptJsonWithPassphrase,
+  encryptJsonWithKey,
+  generateDataKey,
+  unwrapKeyWithPassphrase,
+  unwrapKeyWithSecret,
+  wrapKeyWithPassphrase,
+  wrapKeyWithSecret,
+  type EncryptedPayload,
+  type WrappedKey,
+} from "../crypto/cryptoService";
 
 // NOTE:
-//   This avoids subtle issues where changing the PIN or salt would make old data unreadable.
-// - The PIN hash is stored separately in localStorage and compared during login.
+// - Every profile has its own random data key. Profile data is encrypted with
+//   that key, and the key itself is stored wrapped by a key derived from the PIN
+//   (PBKDF2 with a per-profile random salt). Changing the PIN only re-wraps the key.
+// - A salted, slow PIN verifier is stored separately in localStorage and
+//   checked during login. Older profiles still have a plain SHA-256 hash there,
+//   which is replaced on their next successful login.
+// - The build-time encryption key is only used to read profiles written before
+//   per-profile keys existed; they are migrated on their next login.
 
 const rawProfilePinSalt =
   (import.meta.env.VITE_PROFILE_PIN_SALT as string | undefined) ??
@@ -14,11 +31,7 @@ const rawProfileEncryptionKey =
   (import.meta.env.VITE_PROFILE_ENCRYPTION_KEY as string | undefined) ??
   (import.meta.env.TRAEKY_PROFILE_ENCRYPTION_KEY as string | undefined);
 
-if (!rawProfileEncryptionKey) {
-  throw new Error("Missing profile encryption key in environment");
-}
 
-const PROFILE_ENCRYPTION_KEY = rawProfileEncryptionKey;
 function getWebCrypto(): Crypto {
   if (typeof globalThis !== "undefined" && globalThis.crypto && "subtle" in globalThis.crypto) {
     return globalThis.crypto as Crypto;
@@ -36,7 +49,25 @@ function toHex(buffer: ArrayBuffer): string {
   return hex;
 }
 
-export async function hashPin(pin: string): Promise<string> {
+/**
+ * Per-profile PIN verifier: PBKDF2 over the PIN with a random salt.
+ */
+export type PinVerifier = {
+  version: 2;
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string;
+  hash: string;
+};
+
+const PIN_VERIFIER_ITERATIONS = 600_000;
+const PIN_VERIFIER_SALT_LENGTH = 16;
+
+/**
+ * Legacy PIN hash (single SHA-256 over a global salt). Only used to check
+ * verifiers written before PinVerifier existed.
+ */
+async function hashPin(pin: string): Promise<string> {
   const encoder = new TextEncoder();
   const salt = PROFILE_PIN_SALT;
   const data = encoder.encode(`${salt}:${pin}`);
@@ -45,12 +76,119 @@ export async function hashPin(pin: string): Promise<string> {
   return hex;
 }
 
-export async function encryptProfilePayload<T>(pinHash: string, payload: T): Promise<EncryptedPayload> {
-  // NOTE: pinHash is intentionally ignored here. We always use a fixed encryption key.
-  return encryptJsonWithPassphrase(payload, PROFILE_ENCRYPTION_KEY);
+async function derivePinHash(pin: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const crypto = getWebCrypto();
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(pin) as unknown as BufferSource,
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      salt: salt as unknown as BufferSource,
+      iterations,
+      hash: "SHA-256",
+    },
+    baseKey,
+    256,
+  );
+  return toHex(bits);
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(Math.floor(hex.length / 2));
+  for (let i = 0; i < bytes.length; i += 1) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function createPinVerifier(pin: string): Promise<PinVerifier> {
+  const salt = new Uint8Array(PIN_VERIFIER_SALT_LENGTH);
+  getWebCrypto().getRandomValues(salt);
+  return {
+    version: 2,
+    kdf: "PBKDF2-SHA256",
+    iterations: PIN_VERIFIER_ITERATIONS,
+    salt: toHex(salt.buffer),
+    hash: await derivePinHash(pin, salt, PIN_VERIFIER_ITERATIONS),
+  };
+}
+
+/**
+ * Whether the stored verifier is still a legacy hash from hashPin.
+ */
+export function isLegacyPinVerifier(verifier: PinVerifier | string): verifier is string {
+  return typeof verifier === "string";
+}
+
+export async function verifyPin(pin: string, verifier: PinVerifier | string): Promise<boolean> {
+  if (isLegacyPinVerifier(verifier)) {
+    return constantTimeEqual(await hashPin(pin), verifier);
+  }
+  if (verifier.version !== 2 || verifier.kdf !== "PBKDF2-SHA256") {
+    return false;
+  }
+  const hash = await derivePinHash(pin, hexToBytes(verifier.salt), verifier.iterations);
+  return constantTimeEqual(hash, verifier.hash);
+}
+
+export async function createProfileDataKey(): Promise<CryptoKey> {
+  return generateDataKey();
+}
+
+export async function wrapProfileDataKey(dataKey: CryptoKey, pin: string): Promise<WrappedKey> {
+  return wrapKeyWithPassphrase(dataKey, pin);
+}
+
+/**
+ * Fails if the PIN does not match the one the key was wrapped with.
+ */
+export async function unwrapProfileDataKey(wrapped: WrappedKey, pin: string): Promise<CryptoKey> {
+  return unwrapKeyWithPassphrase(wrapped, pin);
+}
+
+/**
+ * Wrap the data key with the PRF output of a passkey, see auth/passkey.ts.
+ */
+export async function wrapProfileDataKeyWithPasskey(dataKey: CryptoKey, secret: Uint8Array): Promise<WrappedKey> {
+  return wrapKeyWithSecret(dataKey, secret);
+}
+
+export async function unwrapProfileDataKeyWithPasskey(wrapped: WrappedKey, secret: Uint8Array): Promise<CryptoKey> {
+  return unwrapKeyWithSecret(wrapped, secret);
+}
+
+export async function encryptProfilePayload<T>(dataKey: CryptoKey, payload: T): Promise<EncryptedPayload> {
+  return encryptJsonWithKey(payload, dataKey);
+}
+
+export async function decryptProfilePayload<T>(dataKey: CryptoKey, encrypted: EncryptedPayload): Promise<T> {
+  return decryptJsonWithKey<T>(encrypted, dataKey);
 }
 
-export async function decryptProfilePayload<T>(pinHash: string, encrypted: EncryptedPayload): Promise<T> {
-  // NOTE: pinHash is intentionally ignored here. We always use a fixed encryption key.
-  return decryptJsonWithPassphrase<T>(encrypted, PROFILE_ENCRYPTION_KEY);
-}
\ No newline at end of file
+/**
+ * Whether the payload still uses the build-time key from before per-profile keys.
+ */
+export function isLegacyProfilePayload(encrypted: EncryptedPayload): boolean {
+  return encrypted.version === 1;
+}
+
+export async function decryptLegacyProfilePayload<T>(encrypted: EncryptedPayload): Promise<T> {
+  if (!rawProfileEncryptionKey) {
+    throw new Error("Missing profile encryption key in environment");
+  }
+  return decryptJsonWithPassphrase<T>(encrypted, rawProfileEncryptionKey);
+}
@@ -1,8 +1,23 @@
 
-import type { AppConfig, Transaction } from "../domain/types";
-import { DEFAULT_HOLDING_PERIOD_DAYS, DEFAULT_UPCOMING_WINDOW_DAYS } from "../domain/config";
-import type { EncryptedPayload } from "../crypto/cryptoService";
-import { hashPin, encryptProfilePayload, decryptProfilePayload } from "./profileSecurity";
+import type { Account, AppConfig, ImportBatch, ImportTemplate, ReportedBalance, Transaction } from "../domain/types";
+import { DEFAULT_COST_BASIS_METHOD, DEFAULT_HOLDING_PERIOD_DAYS, DEFAULT_UPCOMING_WINDOW_DAYS } from "../domain/config";
+import type { EncryptedPayload, WrappedKey } from "../crypto/cryptoService";
+import {
+  createPinVerifier,
+  verifyPin,
+  isLegacyPinVerifier,
+  createProfileDataKey,
+  wrapProfileDataKey,
+  unwrapProfileDataKey,
+  encryptProfilePayload,
+  decryptProfilePayload,
+  isLegacyProfilePayload,
+  decryptLegacyProfilePayload,
+  wrapProfileDataKeyWithPasskey,
+  unwrapProfileDataKeyWithPasskey,
+  type PinVerifier,
+} from "./profileSecurity";
+import { getPasskeySecret, registerPasskey, type RegisteredPasskey } from "./passkey";
 
 export type ProfileId = string;
 
@@ -13,18 +28,36 @@ export type ProfileSummary = {
   updatedAt: string;
 };
 
+/**
+ * A profile that currently refuses login attempts after failed PINs.
+ */
+export type ProfileLoginLock = {
+  /** Epoch milliseconds from which the next attempt is accepted. */
+  retryAt: number;
+  /** True for the long lockout, false for the short exponential backoff. */
+  lockedOut: boolean;
+};
+
 export type ProfileOverview = {
   profiles: ProfileSummary[];
   hasLegacyData: boolean;
 };
 
-type ProfileDataPayloadVersion = 1;
+export type ProfileDataPayloadVersion = 1;
 
-type ProfileDataPayload = {
+export type ProfileDataPayload = {
   version: ProfileDataPayloadVersion;
   transactions: Transaction[];
   nextTransactionId: number;
   config: AppConfig;
+  // Named column mappings of the generic import wizard; missing in older payloads.
+  importTemplates?: ImportTemplate[];
+  // Confirmed import runs, oldest first; missing in older payloads.
+  importBatches?: ImportBatch[];
+  // Keys of duplicate candidate pairs the user marked as distinct.
+  dismissedDuplicatePairs?: string[];
+  accounts?: Account[];
+  reportedBalances?: ReportedBalance[];
 };
 
 type ProfilesIndex = {
@@ -34,21 +67,44 @@ type ProfilesIndex = {
 
 type ActiveProfileSession = {
   meta: ProfileSummary;
-  pinHash: string;
+  // Random per-profile key the data is encrypted with; stored wrapped by the PIN.
+  dataKey: CryptoKey;
   data: ProfileDataPayload;
 };
 
 const LS_PROFILES_INDEX_KEY = "traeky:profiles:index";
 const PROFILE_DATA_PREFIX = "traeky:profile:";
 const PROFILE_DATA_SUFFIX = ":data";
+const PROFILE_KEY_SUFFIX = ":key";
+const PROFILE_PASSKEY_SUFFIX = ":passkey";
 
 const LEGACY_TRANSACTIONS_KEY = "traeky:transactions";
 const LEGACY_NEXT_ID_KEY = "traeky:next-tx-id";
 const LEGACY_CONFIG_KEY = "traeky:app-config";
 const PROFILE_PIN_INDEX_KEY = "traeky:profiles-pin-index";
+const PROFILE_LOGIN_ATTEMPTS_KEY = "traeky:profiles-login-attempts";
+
+// Failed logins allowed before every further attempt has to wait; the wait
+// doubles with each failure.
+const LOGIN_BACKOFF_FREE_ATTEMPTS = 3;
+const LOGIN_BACKOFF_BASE_MS = 1000;
+// Failed logins in a row after which the profile is locked for a longer time.
+const LOGIN_LOCKOUT_ATTEMPTS = 10;
+const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
 
+// Legacy entries are plain SHA-256 hex strings, see hashPin.
 type ProfilePinIndex = {
-  [profileId: string]: string;
+  [profileId: string]: PinVerifier | string;
+};
+
+// The profile data key wrapped by the PRF output of a registered passkey.
+type ProfilePasskeyRecord = RegisteredPasskey & {
+  wrappedKey: WrappedKey;
+  createdAt: string;
+};
+
+type ProfileLoginAttempts = {
+  [profileId: string]: { failures: number; retryAt: number };
 };
 
 function readProfilePinIndex(): ProfilePinIndex {
@@ -63,6 +119,53 @@ function writeProfilePinIndex(index: ProfilePinIndex): void {
   writeJson(PROFILE_PIN_INDEX_KEY, index);
 }
 
+function readProfileLoginAttempts(): ProfileLoginAttempts {
+  const value = readJson<ProfileLoginAttempts | null>(PROFILE_LOGIN_ATTEMPTS_KEY);
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+  return value;
+}
+
+function writeProfileLoginAttempts(attempts: ProfileLoginAttempts): void {
+  writeJson(PROFILE_LOGIN_ATTEMPTS_KEY, attempts);
+}
+
+function recordFailedLogin(profileId: ProfileId): void {
+  const attempts = readProfileLoginAttempts();
+  const failures = (attempts[profileId]?.failures ?? 0) + 1;
+  let delay = 0;
+  if (failures >= LOGIN_LOCKOUT_ATTEMPTS) {
+    delay = LOGIN_LOCKOUT_MS;
+  } else if (failures >= LOGIN_BACKOFF_FREE_ATTEMPTS) {
+    delay = LOGIN_BACKOFF_BASE_MS * 2 ** (failures - LOGIN_BACKOFF_FREE_ATTEMPTS);
+  }
+  attempts[profileId] = { failures, retryAt: Date.now() + delay };
+  writeProfileLoginAttempts(attempts);
+}
+
+function clearFailedLogins(profileId: ProfileId): void {
+  const attempts = readProfileLoginAttempts();
+  if (!(profileId in attempts)) return;
+  delete attempts[profileId];
+  writeProfileLoginAttempts(attempts);
+}
+
+/**
+ * The current backoff or lockout of a profile, or null if a login attempt is
+ * allowed right now.
+ */
+export function getProfileLoginLock(profileId: ProfileId): ProfileLoginLock | null {
+  const entry = readProfileLoginAttempts()[profileId];
+  if (!entry || entry.retryAt <= Date.now()) {
+    return null;
+  }
+  return {
+    retryAt: entry.retryAt,
+    lockedOut: entry.failures >= LOGIN_LOCKOUT_ATTEMPTS,
+  };
+}
+
 
 let activeProfile: ActiveProfileSession | null = null;
 
@@ -144,11 +247,20 @@ function buildProfileDataKey(profileId: ProfileId): string {
   return `${PROFILE_DATA_PREFIX}${profileId}${PROFILE_DATA_SUFFIX}`;
 }
 
+function buildProfileKeyStorageKey(profileId: ProfileId): string {
+  return `${PROFILE_DATA_PREFIX}${profileId}${PROFILE_KEY_SUFFIX}`;
+}
+
+function buildProfilePasskeyStorageKey(profileId: ProfileId): string {
+  return `${PROFILE_DATA_PREFIX}${profileId}${PROFILE_PASSKEY_SUFFIX}`;
+}
+
 function createDefaultConfig(): AppConfig {
   return {
     holding_period_days: DEFAULT_HOLDING_PERIOD_DAYS,
     upcoming_holding_window_days: DEFAULT_UPCOMING_WINDOW_DAYS,
     base_currency: "EUR",
+    cost_basis_method: DEFAULT_COST_BASIS_METHOD,
     price_fetch_enabled: true,
     coingecko_api_key: null,
   };
@@ -205,6 +317,7 @@ function readLegacyConfig(): AppConfig | null {
     holding_period_days: holding,
     upcoming_holding_window_days: upcoming,
     base_currency: baseCurrency,
+    cost_basis_method: DEFAULT_COST_BASIS_METHOD,
     price_fetch_enabled: priceFetchEnabled,
     coingecko_api_key: coingeckoApiKey,
   };
@@ -253,28 +366,30 @@ export function logoutActiveProfileSession(): void {
 
 
 async function persistActiveProfile(): Promise<void> {
-  if (!activeProfile) return;
-  const payload: ProfileDataPayload = activeProfile.data;
+  // Keep a reference: the session may be locked or switched while encrypting.
+  const session = activeProfile;
+  if (!session) return;
+  const payload: ProfileDataPayload = session.data;
   const encrypted: EncryptedPayload = await encryptProfilePayload(
-    activeProfile.pinHash,
+    session.dataKey,
     payload,
   );
-  const key = buildProfileDataKey(activeProfile.meta.id);
+  const key = buildProfileDataKey(session.meta.id);
   writeJson(key, encrypted);
   const index = readProfilesIndex();
   const now = nowIso();
   const updatedProfiles = index.profiles.map((p) =>
-    p.id === activeProfile!.meta.id ? { ...p, updatedAt: now, name: activeProfile!.meta.name } : p,
+    p.id === session.meta.id ? { ...p, updatedAt: now, name: session.meta.name } : p,
   );
   writeProfilesIndex({
-    currentProfileId: activeProfile.meta.id,
+    currentProfileId: session.meta.id,
     profiles: updatedProfiles,
   });
 }
 
 export async function createInitialProfile(name: string, pin: string): Promise<ProfileSummary> {
   const trimmedName = name.trim() || "Default";
-  const pinHash = await hashPin(pin);
+  const pinVerifier = await createPinVerifier(pin);
 
   const index = readProfilesIndex();
   const id = generateProfileId();
@@ -307,9 +422,12 @@ export async function createInitialProfile(name: string, pin: string): Promise<P
     data = createEmptyProfileData();
   }
 
+  const dataKey = await createProfileDataKey();
+  writeJson(buildProfileKeyStorageKey(id), await wrapProfileDataKey(dataKey, pin));
+
   activeProfile = {
     meta,
-    pinHash,
+    dataKey,
     data,
   };
 
@@ -320,7 +438,7 @@ export async function createInitialProfile(name: string, pin: string): Promise<P
   });
 
   const pinIndex = readProfilePinIndex();
-  pinIndex[id] = pinHash;
+  pinIndex[id] = pinVerifier;
   writeProfilePinIndex(pinIndex);
 
   await persistActiveProfile();
@@ -334,19 +452,22 @@ export async function loginProfile(profileId: ProfileId, pin: string): Promise<P
     throw new Error("Profile not found");
   }
 
-  const pinIndex = readProfilePinIndex();
-  const pinHash = await hashPin(pin);
-
-  let meta: ProfileSummary | null =
-    index.profiles.find((p) => p.id === profileId && pinIndex[p.id] === pinHash) ?? null;
-
+  const meta = index.profiles.find((p) => p.id === profileId) ?? null;
   if (!meta) {
-    meta = index.profiles.find((p) => pinIndex[p.id] === pinHash) ?? null;
+    throw new Error("Profile not found");
   }
 
-  if (!meta) {
+  if (getProfileLoginLock(meta.id)) {
+    throw new Error("Profile temporarily locked");
+  }
+
+  const pinIndex = readProfilePinIndex();
+  const verifier = pinIndex[meta.id];
+  if (!verifier || !(await verifyPin(pin, verifier))) {
+    recordFailedLogin(meta.id);
     throw new Error("Invalid PIN");
   }
+  clearFailedLogins(meta.id);
 
   const key = buildProfileDataKey(meta.id);
   const encrypted = readJson<EncryptedPayload>(key);
@@ -354,29 +475,126 @@ export async function loginProfile(profileId: ProfileId, pin: string): Promise<P
     throw new Error("Profile data not found");
   }
 
-  const data = await decryptProfilePayload<ProfileDataPayload>(pinHash, encrypted);
+  const wrappedKey = readJson<WrappedKey>(buildProfileKeyStorageKey(meta.id));
+  const needsMigration = !wrappedKey || isLegacyProfilePayload(encrypted);
+  const dataKey = wrappedKey
+    ? await unwrapProfileDataKey(wrappedKey, pin)
+    : await createProfileDataKey();
+
+  // Profiles from before per-profile keys are still encrypted with the
+  // build-time key; they are re-encrypted with their own key below.
+  const data = isLegacyProfilePayload(encrypted)
+    ? await decryptLegacyProfilePayload<ProfileDataPayload>(encrypted)
+    : await decryptProfilePayload<ProfileDataPayload>(dataKey, encrypted);
   if (!data || data.version !== 1) {
     throw new Error("Unsupported profile data version");
   }
 
-  activeProfile = {
-    meta,
-    pinHash,
-    data,
-  };
+  if (!wrappedKey) {
+    writeJson(buildProfileKeyStorageKey(meta.id), await wrapProfileDataKey(dataKey, pin));
+  }
+
+  if (isLegacyPinVerifier(verifier)) {
+    pinIndex[meta.id] = await createPinVerifier(pin);
+    writeProfilePinIndex(pinIndex);
+  }
+
+  const updatedMeta = startProfileSession(index, meta, dataKey, data);
+
+  if (needsMigration) {
+    await persistActiveProfile();
+  }
+
+  return updatedMeta;
+}
 
+function startProfileSession(
+  index: ProfilesIndex,
+  meta: ProfileSummary,
+  dataKey: CryptoKey,
+  data: ProfileDataPayload,
+): ProfileSummary {
   const now = nowIso();
   const updatedMeta: ProfileSummary = { ...meta, updatedAt: now };
-  const updatedProfiles = index.profiles.map((p) => (p.id === meta!.id ? updatedMeta : p));
+  const updatedProfiles = index.profiles.map((p) => (p.id === meta.id ? updatedMeta : p));
   writeProfilesIndex({
     currentProfileId: meta.id,
     profiles: updatedProfiles,
   });
-  activeProfile.meta = updatedMeta;
-
+  activeProfile = {
+    meta: updatedMeta,
+    dataKey,
+    data,
+  };
   return updatedMeta;
 }
 
+export function profileHasPasskey(profileId: ProfileId): boolean {
+  return readJson<ProfilePasskeyRecord>(buildProfilePasskeyStorageKey(profileId)) !== null;
+}
+
+/**
+ * Unlock a profile with its registered passkey instead of the PIN.
+ */
+export async function loginProfileWithPasskey(profileId: ProfileId): Promise<ProfileSummary> {
+  const index = readProfilesIndex();
+  const meta = index.profiles.find((p) => p.id === profileId) ?? null;
+  if (!meta) {
+    throw new Error("Profile not found");
+  }
+
+  const record = readJson<ProfilePasskeyRecord>(buildProfilePasskeyStorageKey(meta.id));
+  if (!record) {
+    throw new Error("No passkey registered for this profile");
+  }
+
+  const encrypted = readJson<EncryptedPayload>(buildProfileDataKey(meta.id));
+  if (!encrypted) {
+    throw new Error("Profile data not found");
+  }
+
+  const secret = await getPasskeySecret(record);
+  const dataKey = await unwrapProfileDataKeyWithPasskey(record.wrappedKey, secret);
+  const data = await decryptProfilePayload<ProfileDataPayload>(dataKey, encrypted);
+  if (!data || data.version !== 1) {
+    throw new Error("Unsupported profile data version");
+  }
+
+  clearFailedLogins(meta.id);
+  return startProfileSession(index, meta, dataKey, data);
+}
+
+/**
+ * Register a platform passkey for the active profile, replacing an earlier one.
+ */
+export async function registerActiveProfilePasskey(): Promise<void> {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  const { passkey, secret } = await registerPasskey(activeProfile.meta.name);
+  const record: ProfilePasskeyRecord = {
+    ...passkey,
+    wrappedKey: await wrapProfileDataKeyWithPasskey(activeProfile.dataKey, secret),
+    createdAt: nowIso(),
+  };
+  writeJson(buildProfilePasskeyStorageKey(activeProfile.meta.id), record);
+}
+
+export function getActiveProfilePasskeyCreatedAt(): string | null {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  const record = readJson<ProfilePasskeyRecord>(buildProfilePasskeyStorageKey(activeProfile.meta.id));
+  return record ? record.createdAt : null;
+}
+
+export function removeActiveProfilePasskey(): void {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  removeKey(buildProfilePasskeyStorageKey(activeProfile.meta.id));
+}
+
 
 export function getActiveProfileConfig(): AppConfig {
   if (!activeProfile) {
@@ -393,6 +611,81 @@ export function setActiveProfileConfig(config: AppConfig): void {
   void persistActiveProfile();
 }
 
+export function getActiveProfileImportTemplates(): ImportTemplate[] {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  return activeProfile.data.importTemplates ?? [];
+}
+
+export function setActiveProfileImportTemplates(templates: ImportTemplate[]): void {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  activeProfile.data.importTemplates = templates;
+  void persistActiveProfile();
+}
+
+export function getActiveProfileImportBatches(): ImportBatch[] {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  return activeProfile.data.importBatches ?? [];
+}
+
+export function setActiveProfileImportBatches(batches: ImportBatch[]): void {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  activeProfile.data.importBatches = batches;
+  void persistActiveProfile();
+}
+
+export function getActiveProfileDismissedDuplicatePairs(): string[] {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  return activeProfile.data.dismissedDuplicatePairs ?? [];
+}
+
+export function setActiveProfileDismissedDuplicatePairs(keys: string[]): void {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  activeProfile.data.dismissedDuplicatePairs = keys;
+  void persistActiveProfile();
+}
+
+export function getActiveProfileAccounts(): Account[] {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  return activeProfile.data.accounts ?? [];
+}
+
+export function setActiveProfileAccounts(accounts: Account[]): void {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  activeProfile.data.accounts = accounts;
+  void persistActiveProfile();
+}
+
+export function getActiveProfileReportedBalances(): ReportedBalance[] {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  return activeProfile.data.reportedBalances ?? [];
+}
+
+export function setActiveProfileReportedBalances(balances: ReportedBalance[]): void {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  activeProfile.data.reportedBalances = balances;
+  void persistActiveProfile();
+}
+
 export function getActiveProfileTransactions(): Transaction[] {
   if (!activeProfile) {
     throw new Error("No active profile session");
@@ -408,6 +701,14 @@ export function setActiveProfileTransactions(items: Transaction[]): void {
   void persistActiveProfile();
 }
 
+/** Id the next transaction will get, without reserving it. */
+export function peekNextActiveProfileTxId(): number {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  return activeProfile.data.nextTransactionId;
+}
+
 export function getNextActiveProfileTxId(): number {
   if (!activeProfile) {
     throw new Error("No active profile session");
@@ -424,7 +725,7 @@ export async function createAdditionalProfile(
   pin: string,
 ): Promise<ProfileSummary> {
   const trimmedName = name.trim() || "Profile";
-  const pinHash = await hashPin(pin);
+  const pinVerifier = await createPinVerifier(pin);
 
   const index = readProfilesIndex();
   const id = generateProfileId();
@@ -439,7 +740,9 @@ export async function createAdditionalProfile(
 
   const data = createEmptyProfileData();
   const payload: ProfileDataPayload = data;
-  const encrypted: EncryptedPayload = await encryptProfilePayload(pinHash, payload);
+  const dataKey = await createProfileDataKey();
+  writeJson(buildProfileKeyStorageKey(id), await wrapProfileDataKey(dataKey, pin));
+  const encrypted: EncryptedPayload = await encryptProfilePayload(dataKey, payload);
   const key = buildProfileDataKey(id);
   writeJson(key, encrypted);
 
@@ -451,12 +754,12 @@ export async function createAdditionalProfile(
   });
 
   const pinIndex = readProfilePinIndex();
-  pinIndex[id] = pinHash;
+  pinIndex[id] = pinVerifier;
   writeProfilePinIndex(pinIndex);
 
   activeProfile = {
     meta,
-    pinHash,
+    dataKey,
     data,
   };
 
@@ -471,12 +774,36 @@ export async function resetActiveProfileData(): Promise<void> {
   await persistActiveProfile();
 }
 
+/**
+ * Copy of all data of the active profile, e.g. for a backup.
+ */
+export function getActiveProfileDataSnapshot(): ProfileDataPayload {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  return JSON.parse(JSON.stringify(activeProfile.data)) as ProfileDataPayload;
+}
+
+/**
+ * Replace all data of the active profile, e.g. when restoring a backup.
+ */
+export async function replaceActiveProfileData(data: ProfileDataPayload): Promise<void> {
+  if (!activeProfile) {
+    throw new Error("No active profile session");
+  }
+  if (!data || data.version !== 1 || !Array.isArray(data.transactions) || !data.config) {
+    throw new Error("Unsupported profile data version");
+  }
+  activeProfile.data = data;
+  await persistActiveProfile();
+}
+
 export async function verifyActiveProfilePin(pin: string): Promise<boolean> {
   if (!activeProfile) {
     throw new Error("No active profile session");
   }
-  const candidateHash = await hashPin(pin);
-  return candidateHash === activeProfile.pinHash;
+  const verifier = readProfilePinIndex()[activeProfile.meta.id];
+  return Boolean(verifier) && (await verifyPin(pin, verifier));
 }
 
 export function renameActiveProfile(name: string): void {
@@ -504,15 +831,15 @@ export async function changeActiveProfilePin(
   if (!activeProfile) {
     throw new Error("No active profile session");
   }
-  const currentHash = await hashPin(currentPin);
-  if (currentHash !== activeProfile.pinHash) {
+  if (!(await verifyActiveProfilePin(currentPin))) {
     throw new Error("Invalid current PIN");
   }
-  const newHash = await hashPin(newPin);
-  activeProfile.pinHash = newHash;
+  const newVerifier = await createPinVerifier(newPin);
+  const wrappedKey = await wrapProfileDataKey(activeProfile.dataKey, newPin);
+  writeJson(buildProfileKeyStorageKey(activeProfile.meta.id), wrappedKey);
 
   const pinIndex = readProfilePinIndex();
-  pinIndex[activeProfile.meta.id] = newHash;
+  pinIndex[activeProfile.meta.id] = newVerifier;
   writeProfilePinIndex(pinIndex);
 
   void persistActiveProfile();
@@ -527,6 +854,13 @@ export function deleteActiveProfile(): void {
 
   const key = buildProfileDataKey(idToDelete);
   removeKey(key);
+  removeKey(buildProfileKeyStorageKey(idToDelete));
+  removeKey(buildProfilePasskeyStorageKey(idToDelete));
+
+  const pinIndex = readProfilePinIndex();
+  delete pinIndex[idToDelete];
+  writeProfilePinIndex(pinIndex);
+  clearFailedLogins(idToDelete);
 
   const remainingProfiles = index.profiles.filter((p) => p.id !== idToDelete);
   const nextCurrentId = remainingProfiles.length > 0 ? remainingProfiles[0].id : null;
@@ -7,12 +7,16 @@
  *   auth/profileSecurity.ts and related modules.
  * - There is no cloud/online/sync functionality in this build.
  */
-export type SupportedEncryptionVersion = 1;
+/**
+ * 1: key derived from a passphrase with PBKDF2.
+ * 2: encrypted directly with a random data key; `salt` is empty.
+ */
+export type SupportedEncryptionVersion = 1 | 2;
 
 export interface EncryptedPayload {
   version: SupportedEncryptionVersion;
   algorithm: "AES-GCM";
-  /** Base64-encoded salt used for key derivation (PBKDF2). */
+  /** Base64-encoded salt used for key derivation (PBKDF2), empty for version 2. */
   salt: string;
   /** Base64-encoded initialization vector for AES-GCM. */
   iv: string;
@@ -20,6 +24,22 @@ export interface EncryptedPayload {
   ciphertext: string;
 }
 
+/**
+ * A data key encrypted with a key derived from a passphrase (e.g. a PIN) or
+ * from a high-entropy secret (e.g. a passkey PRF output).
+ */
+export interface WrappedKey {
+  version: 1;
+  algorithm: "AES-GCM";
+  kdf: "PBKDF2-SHA256" | "HKDF-SHA256";
+  /** PBKDF2 only. */
+  iterations?: number;
+  /** Base64-encoded random salt, new for every wrap. */
+  salt: string;
+  iv: string;
+  /** Base64-encoded ciphertext of the raw key. */
+  ciphertext: string;
+}
 
 const AES_ALGO = "AES-GCM";
 const AES_KEY_LENGTH = 256;
@@ -74,7 +94,11 @@ function randomBytes(length: number): Uint8Array {
   return bytes;
 }
 
-async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS,
+): Promise<CryptoKey> {
   const crypto = getWebCrypto();
   const keyMaterial = await crypto.subtle.importKey(
     "raw",
@@ -88,7 +112,7 @@ async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKe
     {
       name: "PBKDF2",
       salt: salt as unknown as BufferSource,
-      iterations: PBKDF2_ITERATIONS,
+      iterations,
       hash: PBKDF2_HASH,
     },
     keyMaterial,
@@ -151,4 +175,158 @@ export async function decryptJsonWithPassphrase<T>(encrypted: EncryptedPayload,
   const decoder = new TextDecoder();
   const json = decoder.decode(plaintextBuf);
   return JSON.parse(json) as T;
-}
\ No newline at end of file
+}
+
+/**
+ * Generate a random AES-GCM data key. It is extractable so that it can be
+ * wrapped again, e.g. after a PIN change.
+ */
+export async function generateDataKey(): Promise<CryptoKey> {
+  return getWebCrypto().subtle.generateKey({ name: AES_ALGO, length: AES_KEY_LENGTH }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+export async function encryptJsonWithKey<T>(payload: T, key: CryptoKey): Promise<EncryptedPayload> {
+  const iv = randomBytes(IV_LENGTH);
+  const ciphertextBuf = await getWebCrypto().subtle.encrypt(
+    {
+      name: AES_ALGO,
+      iv: iv as unknown as BufferSource,
+    },
+    key,
+    encodeUtf8(JSON.stringify(payload)) as unknown as BufferSource,
+  );
+
+  return {
+    version: 2,
+    algorithm: AES_ALGO,
+    salt: "",
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertextBuf)),
+  };
+}
+
+export async function decryptJsonWithKey<T>(encrypted: EncryptedPayload, key: CryptoKey): Promise<T> {
+  if (encrypted.algorithm !== AES_ALGO || encrypted.version !== 2) {
+    throw new Error("Unsupported encryption format");
+  }
+
+  const plaintextBuf = await getWebCrypto().subtle.decrypt(
+    {
+      name: AES_ALGO,
+      iv: base64ToBytes(encrypted.iv) as unknown as BufferSource,
+    },
+    key,
+    base64ToBytes(encrypted.ciphertext) as unknown as BufferSource,
+  );
+
+  return JSON.parse(new TextDecoder().decode(plaintextBuf)) as T;
+}
+
+const HKDF_INFO = "traeky:wrapped-key";
+
+async function deriveKeyFromSecret(secret: Uint8Array, salt: Uint8Array): Promise<CryptoKey> {
+  const crypto = getWebCrypto();
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    secret as unknown as BufferSource,
+    "HKDF",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: PBKDF2_HASH,
+      salt: salt as unknown as BufferSource,
+      info: encodeUtf8(HKDF_INFO) as unknown as BufferSource,
+    },
+    baseKey,
+    {
+      name: AES_ALGO,
+      length: AES_KEY_LENGTH,
+    },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function encryptRawKey(
+  key: CryptoKey,
+  wrappingKey: CryptoKey,
+  salt: Uint8Array,
+  kdf: WrappedKey["kdf"],
+): Promise<WrappedKey> {
+  const crypto = getWebCrypto();
+  const iv = randomBytes(IV_LENGTH);
+  const raw = await crypto.subtle.exportKey("raw", key);
+  const ciphertextBuf = await crypto.subtle.encrypt(
+    {
+      name: AES_ALGO,
+      iv: iv as unknown as BufferSource,
+    },
+    wrappingKey,
+    raw,
+  );
+
+  return {
+    version: 1,
+    algorithm: AES_ALGO,
+    kdf,
+    ...(kdf === "PBKDF2-SHA256" ? { iterations: PBKDF2_ITERATIONS } : {}),
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertextBuf)),
+  };
+}
+
+async function decryptRawKey(wrapped: WrappedKey, wrappingKey: CryptoKey): Promise<CryptoKey> {
+  const crypto = getWebCrypto();
+  const raw = await crypto.subtle.decrypt(
+    {
+      name: AES_ALGO,
+      iv: base64ToBytes(wrapped.iv) as unknown as BufferSource,
+    },
+    wrappingKey,
+    base64ToBytes(wrapped.ciphertext) as unknown as BufferSource,
+  );
+
+  return crypto.subtle.importKey("raw", raw, { name: AES_ALGO }, true, ["encrypt", "decrypt"]);
+}
+
+function assertWrappedKeyFormat(wrapped: WrappedKey, kdf: WrappedKey["kdf"]): void {
+  if (wrapped.algorithm !== AES_ALGO || wrapped.version !== 1 || wrapped.kdf !== kdf) {
+    throw new Error("Unsupported key wrapping format");
+  }
+}
+
+export async function wrapKeyWithPassphrase(key: CryptoKey, passphrase: string): Promise<WrappedKey> {
+  const salt = randomBytes(SALT_LENGTH);
+  return encryptRawKey(key, await deriveKey(passphrase, salt), salt, "PBKDF2-SHA256");
+}
+
+/**
+ * Recover a wrapped data key. Fails (AES-GCM authentication error) if the
+ * passphrase is wrong.
+ */
+export async function unwrapKeyWithPassphrase(wrapped: WrappedKey, passphrase: string): Promise<CryptoKey> {
+  assertWrappedKeyFormat(wrapped, "PBKDF2-SHA256");
+  const salt = base64ToBytes(wrapped.salt);
+  return decryptRawKey(wrapped, await deriveKey(passphrase, salt, wrapped.iterations));
+}
+
+/**
+ * Wrap a data key with a secret that is already uniformly random, so a fast
+ * KDF (HKDF) is enough.
+ */
+export async function wrapKeyWithSecret(key: CryptoKey, secret: Uint8Array): Promise<WrappedKey> {
+  const salt = randomBytes(SALT_LENGTH);
+  return encryptRawKey(key, await deriveKeyFromSecret(secret, salt), salt, "HKDF-SHA256");
+}
+
+export async function unwrapKeyWithSecret(wrapped: WrappedKey, secret: Uint8Array): Promise<CryptoKey> {
+  assertWrappedKeyFormat(wrapped, "HKDF-SHA256");
+  return decryptRawKey(wrapped, await deriveKeyFromSecret(secret, base64ToBytes(wrapped.salt)));
+}
@@ -1,19 +1,42 @@
 import jsPDF from "jspdf";
 import { applyPricesToHoldings, fetchHistoricalPriceForSymbol, setCoingeckoApiKey } from "./priceService";
 import type {
+  Account,
+  AccountHoldingsItem,
   AppConfig,
+  BalanceReconciliation,
+  CostBasisMethod,
   HoldingsResponse,
   Transaction,
   ExpiringHolding,
   CsvImportResult,
+  ImportBatch,
+  ImportBatchMatch,
+  ImportHoldingsDelta,
+  ImportPreview,
+  ImportKind,
+  ImportProgress,
+  ImportStaging,
+  ImportTable,
+  ImportTemplate,
+  ReportedBalance,
+  ReportedBalanceImportFormat,
 } from "../domain/types";
 import type { Language } from "../i18n";
 import type { DataSourceMode } from "./localStore";
-import { DEFAULT_HOLDING_PERIOD_DAYS, DEFAULT_UPCOMING_WINDOW_DAYS } from "../domain/config";
+import { DEFAULT_COST_BASIS_METHOD, DEFAULT_HOLDING_PERIOD_DAYS, DEFAULT_TRANSFER_MATCH_FEE_TOLERANCE_PERCENT, DEFAULT_TRANSFER_MATCH_WINDOW_HOURS, DEFAULT_UPCOMING_WINDOW_DAYS } from "../domain/config";
 import { CURRENT_CSV_SCHEMA_VERSION, CSV_SCHEMA_VERSION_COLUMN } from "./csvSchema";
 import { t } from "../i18n";
 import { getAssetMetadata, getTxExplorerUrl } from "../domain/assets";
-import { getActiveProfileConfig, setActiveProfileConfig, getActiveProfileTransactions, setActiveProfileTransactions, getNextActiveProfileTxId } from "../auth/profileStore";
+import { applyCostBasisToHoldings, computeCostBasisLots, getCryptoFee, isFiatSymbol, normalizeCostBasisMethod } from "../domain/costBasis";
+import { buildIncomeReport, formatForm8949Date, isIncomeType } from "../domain/taxReports";
+import { mapImportRow, parseImportDate, parseImportNumber } from "../domain/importMapping";
+import { findDuplicateCandidates } from "../domain/duplicates";
+import { findTransferMatches } from "../domain/transfers";
+import { getTransactionBalanceChanges, reconcileBalance } from "../domain/reconciliation";
+import type { DuplicateCandidatePair, DuplicateFinderOptions } from "../domain/duplicates";
+import type { Form8949Report, Form8949Row, IncomeReceipt, IncomeReport, PrivateSalesReport } from "../domain/taxReports";
+import { getActiveProfileConfig, setActiveProfileConfig, getActiveProfileTransactions, setActiveProfileTransactions, getNextActiveProfileTxId, peekNextActiveProfileTxId, getActiveProfileImportTemplates, setActiveProfileImportTemplates, getActiveProfileImportBatches, setActiveProfileImportBatches, getActiveProfileDismissedDuplicatePairs, setActiveProfileDismissedDuplicatePairs, getActiveProfileAccounts, setActiveProfileAccounts, getActiveProfileReportedBalances, setActiveProfileReportedBalances } from "../auth/profileStore";
 
 
 type SheetJsModule = {
@@ -54,7 +77,7 @@ async function getXlsxModule(): Promise<SheetJsModule> {
 // Minimal CSV parser that understands quotes and escaped quotes.
 // This is used for importing third-party CSV exports (e.g. Bitpanda)
 // where fields may contain commas and quotes.
-function parseCsvLine(line: string): string[] {
+function parseCsvLine(line: string, delimiter = ","): string[] {
   const result: string[] = [];
   let current = "";
   let inQuotes = false;
@@ -70,7 +93,7 @@ function parseCsvLine(line: string): string[] {
       } else {
         inQuotes = !inQuotes;
       }
-    } else if (ch === "," && !inQuotes) {
+    } else if (ch === delimiter && !inQuotes) {
       result.push(current);
       current = "";
     } else {
@@ -145,25 +168,142 @@ export interface PortfolioDataSource {
     tx_id: string | null;
     linked_tx_prev_id?: number | null;
     linked_tx_next_id?: number | null;
+    fee_amount?: number | null;
+    fee_asset?: string | null;
+    account_id?: string | null;
   }): Promise<void>;
 
   deleteTransaction(id: number): Promise<void>;
 
-  importCsv(lang: Language, file: File): Promise<CsvImportResult>;
+  listAccounts(): Promise<Account[]>;
+
+  /** Create (without id) or update an account. */
+  saveAccount(account: Account): Promise<Account>;
+
+  /**
+   * Delete an account. Its transactions move to `moveToId`, or stay without
+   * an account when it is null.
+   */
+  deleteAccount(id: string, moveToId: string | null): Promise<void>;
+
+  /** Every reported balance compared with the computed one, newest first. */
+  listBalanceReconciliations(): Promise<BalanceReconciliation[]>;
+
+  saveReportedBalance(balance: Omit<ReportedBalance, "id">): Promise<ReportedBalance>;
+
+  deleteReportedBalance(id: string): Promise<void>;
+
+  /**
+   * Read reported balances for one account from a CSV or XLSX file with a
+   * date, an asset and an amount column. Dates and amounts are parsed with
+   * the given format, as in the import wizard.
+   */
+  importReportedBalances(
+    lang: Language,
+    file: File,
+    accountId: string | null,
+    format: ReportedBalanceImportFormat,
+  ): Promise<CsvImportResult>;
+
+  importCsv(lang: Language, file: File, staging: ImportStaging): Promise<CsvImportResult>;
 
   exportPdf(lang: Language, transactions?: Transaction[]): Promise<Blob>;
 
+  /** Staking, reward and airdrop income valued at receipt in the base currency. */
+  computeIncomeReport(transactions: Transaction[]): Promise<IncomeReport>;
+
+  /** PDF report of private sales under § 23 EStG for one tax year. */
+  exportPrivateSalesReportPdf(lang: Language, report: PrivateSalesReport): Promise<Blob>;
+
+  /** PDF with Form 8949 rows (short-/long-term) and Schedule D totals for one tax year. */
+  exportForm8949Pdf(lang: Language, report: Form8949Report): Promise<Blob>;
+
   /** External imports (e.g. Binance XLSX). */
   importBinanceSpotXlsx?(
     lang: Language,
     file: File,
+    staging: ImportStaging,
   ): Promise<CsvImportResult>;
 
   /** External imports for Bitpanda CSV trade history. */
   importBitpandaCsv?(
     lang: Language,
     file: File,
+    staging: ImportStaging,
+  ): Promise<CsvImportResult>;
+
+  /** External imports for Coinbase transaction history CSV exports. */
+  importCoinbaseCsv?(
+    lang: Language,
+    file: File,
+    staging: ImportStaging,
+  ): Promise<CsvImportResult>;
+
+  /** External imports for Kraken ledger CSV exports. */
+  importKrakenLedgerCsv?(
+    lang: Language,
+    file: File,
+    staging: ImportStaging,
+    onProgress?: (progress: ImportProgress) => void,
+  ): Promise<CsvImportResult>;
+
+  /** Read any CSV or XLSX file as text cells for the column-mapping import wizard. */
+  readImportTable(file: File): Promise<ImportTable>;
+
+  /** Named column mappings of the active profile. */
+  listImportTemplates(): Promise<ImportTemplate[]>;
+
+  /** Create (empty id) or update a named column mapping. */
+  saveImportTemplate(template: ImportTemplate): Promise<ImportTemplate>;
+
+  deleteImportTemplate(id: string): Promise<void>;
+
+  /** Import a table from readImportTable using a column mapping. */
+  importMappedTable(
+    lang: Language,
+    table: ImportTable,
+    template: ImportTemplate,
+    staging: ImportStaging,
   ): Promise<CsvImportResult>;
+
+  /**
+   * Run one of the import methods on `file` as a dry run against the staging
+   * context passed to `run`. The outcome is kept until confirmImport adds it
+   * to the current transactions as a new import batch or cancelImport drops it.
+   */
+  previewImport(
+    kind: ImportKind,
+    file: File,
+    run: (staging: ImportStaging) => Promise<CsvImportResult>,
+  ): Promise<ImportPreview>;
+
+  confirmImport(): Promise<CsvImportResult>;
+
+  cancelImport(): void;
+
+  /** Confirmed import runs of the active profile, newest first. */
+  listImportBatches(): Promise<ImportBatch[]>;
+
+  /** Delete the transactions created by an import batch; returns how many were removed. */
+  undoImportBatch(batchId: string): Promise<number>;
+
+  /**
+   * Link unlinked TRANSFER_OUT rows to the TRANSFER_IN on the receiving side,
+   * see findTransferMatches. Returns the number of new pairs.
+   */
+  matchTransfers(): Promise<number>;
+
+  /** Likely duplicates across sources, without pairs dismissed before. */
+  findDuplicateTransactions(options: DuplicateFinderOptions): Promise<DuplicateCandidatePair[]>;
+
+  /** Remember a candidate pair as two distinct transactions. */
+  dismissDuplicatePair(key: string): Promise<void>;
+
+  /**
+   * Keep `keepId`, fill its missing fields from `removeId` and delete `removeId`.
+   * Links pointing to the removed transaction are moved to the kept one.
+   */
+  mergeDuplicateTransactions(keepId: number, removeId: number): Promise<void>;
 }
 
 function loadLocalConfig(): AppConfig {
@@ -175,6 +315,7 @@ function loadLocalConfig(): AppConfig {
       holding_period_days: DEFAULT_HOLDING_PERIOD_DAYS,
       upcoming_holding_window_days: DEFAULT_UPCOMING_WINDOW_DAYS,
       base_currency: "EUR",
+      cost_basis_method: DEFAULT_COST_BASIS_METHOD,
       price_fetch_enabled: true,
       coingecko_api_key: null,
     };
@@ -208,6 +349,28 @@ function saveLocalTransactions(items: Transaction[]): void {
   setActiveProfileTransactions(items);
 }
 
+function loadStagedTransactions(staging: ImportStaging): Transaction[] {
+  // Importers mutate the loaded array and its entries, so hand out copies.
+  return staging.transactions.map((tx) => ({ ...tx }));
+}
+
+function saveStagedTransactions(staging: ImportStaging, items: Transaction[]): void {
+  staging.transactions = items;
+}
+
+function getNextStagedId(staging: ImportStaging): number {
+  const id = staging.next_id;
+  staging.next_id = id + 1;
+  return id;
+}
+
+/**
+ * Report a row skipped as duplicate; the dry run lists it in the preview.
+ */
+function reportDuplicate(staging: ImportStaging, message: string, tx: Transaction): void {
+  staging.duplicates.push({ message, transaction: tx });
+}
+
 
 export function overwriteLocalTransactions(items: Transaction[]): void {
   saveLocalTransactions(items);
@@ -392,6 +555,252 @@ function buildTransactionDedupKey(tx: Transaction): string {
   ].join("|");
 }
 
+/**
+ * Derive the fiat value of a fee in the transaction's fiat currency. Fees in
+ * a third asset (e.g. BNB) cannot be valued here and yield null.
+ */
+function deriveFeeFiatValue(
+  feeAmount: number | null,
+  feeAsset: string | null,
+  assetSymbol: string,
+  fiatCurrency: string,
+  priceFiat: number | null,
+): number | null {
+  if (feeAmount == null || !Number.isFinite(feeAmount) || feeAmount === 0) {
+    return null;
+  }
+  const asset = (feeAsset || "").toUpperCase();
+  if (asset === fiatCurrency.toUpperCase()) {
+    return Math.abs(feeAmount);
+  }
+  if (asset === assetSymbol.toUpperCase() && priceFiat != null && Number.isFinite(priceFiat)) {
+    return Math.abs(feeAmount) * priceFiat;
+  }
+  return null;
+}
+
+/**
+ * Value both legs of a crypto-to-crypto swap with the same market value at
+ * trade time. The quote leg is priced first, then the base leg; if neither
+ * price is known the legs stay unvalued and are enriched one by one on load.
+ */
+async function valueSwapLegs(baseLeg: Transaction, quoteLeg: Transaction): Promise<void> {
+  for (const leg of [quoteLeg, baseLeg]) {
+    let hist: { eur: number | null; usd: number | null } | null = null;
+    try {
+      hist = await fetchHistoricalPriceForSymbol(leg.asset_symbol, "EUR", leg.timestamp);
+    } catch {
+      continue;
+    }
+    const amount = Math.abs(leg.amount);
+    const valueEur = hist?.eur != null && Number.isFinite(hist.eur) ? hist.eur * amount : null;
+    const valueUsd = hist?.usd != null && Number.isFinite(hist.usd) ? hist.usd * amount : null;
+    if (valueEur == null && valueUsd == null) {
+      continue;
+    }
+    for (const target of [baseLeg, quoteLeg]) {
+      target.value_eur = valueEur;
+      target.value_usd = valueUsd;
+    }
+    return;
+  }
+}
+
+// Legacy Kraken asset codes that do not match the plain ticker.
+const KRAKEN_ASSET_CODES: Record<string, string> = {
+  XXBT: "BTC",
+  XBT: "BTC",
+  XETH: "ETH",
+  XETC: "ETC",
+  XLTC: "LTC",
+  XXRP: "XRP",
+  XXLM: "XLM",
+  XXMR: "XMR",
+  XZEC: "ZEC",
+  XXDG: "DOGE",
+  XDG: "DOGE",
+  XREP: "REP",
+  XMLN: "MLN",
+  ZEUR: "EUR",
+  ZUSD: "USD",
+  ZGBP: "GBP",
+  ZCAD: "CAD",
+  ZJPY: "JPY",
+  ZAUD: "AUD",
+  ZCHF: "CHF",
+};
+
+type KrakenLedgerRow = {
+  line: number;
+  txid: string;
+  refid: string;
+  timestamp: string;
+  type: string;
+  subtype: string;
+  asset: string;
+  amount: number;
+  fee: number;
+};
+
+/**
+ * Map a Kraken ledger asset code to the plain ticker. Staking and earn
+ * variants (ETH2.S, DOT28.S, USDC.M, ...) resolve to their underlying asset.
+ */
+function normalizeKrakenAsset(code: string): string {
+  let asset = code.trim().toUpperCase();
+  const dotIndex = asset.indexOf(".");
+  if (dotIndex !== -1) {
+    asset = asset.slice(0, dotIndex).replace(/\d+$/, "");
+  } else if (asset === "ETH2") {
+    asset = "ETH";
+  }
+  return KRAKEN_ASSET_CODES[asset] ?? asset;
+}
+
+/**
+ * Parse Coinbase amounts such as "€1,234.56" or "-$5.00"; currency symbols
+ * and thousands separators are dropped.
+ */
+function parseCoinbaseNumber(raw: string | undefined): number | null {
+  const cleaned = (raw || "").replace(/[^0-9.eE+-]/g, "");
+  if (!cleaned) {
+    return null;
+  }
+  const parsed = parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Display names for accounts created from the sources our importers write.
+const IMPORT_SOURCE_ACCOUNT_NAMES: Record<string, string> = {
+  BINANCE: "Binance",
+  BITPANDA: "Bitpanda",
+  KRAKEN: "Kraken",
+  COINBASE: "Coinbase",
+};
+
+function normalizeAccountSource(source: string | null | undefined): string {
+  return (source || "").trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+/**
+ * Assign an account to every transaction that never had one, based on its
+ * source. Sources that differ only in case or spacing share one account;
+ * missing accounts are created. Returns true if any transaction changed.
+ */
+function assignAccountsFromSource(items: Transaction[]): boolean {
+  const accounts = getActiveProfileAccounts().slice();
+  let accountsChanged = false;
+  let changed = false;
+
+  for (const tx of items) {
+    if (tx.account_id !== undefined) continue;
+    const key = normalizeAccountSource(tx.source);
+    if (!key) continue;
+
+    let account = accounts.find(
+      (item) => item.import_source === key || normalizeAccountSource(item.name) === key,
+    );
+    if (!account) {
+      account = {
+        id: generateImportId("account"),
+        name: IMPORT_SOURCE_ACCOUNT_NAMES[key] ?? (tx.source || "").trim(),
+        type: "exchange",
+        addresses: [],
+        import_source: key,
+      };
+      accounts.push(account);
+      accountsChanged = true;
+    }
+    tx.account_id = account.id;
+    changed = true;
+  }
+
+  if (accountsChanged) {
+    setActiveProfileAccounts(accounts);
+  }
+  return changed;
+}
+
+/**
+ * Link unlinked TRANSFER_OUT / TRANSFER_IN pairs in place, using the matching
+ * window and fee tolerance of the profile config. Returns the number of new pairs.
+ */
+function linkMatchedTransfers(
+  items: Transaction[],
+  config: AppConfig,
+  involvingIds?: ReadonlySet<number>,
+): number {
+  const matches = findTransferMatches(items, {
+    window_hours: config.transfer_match_window_hours ?? DEFAULT_TRANSFER_MATCH_WINDOW_HOURS,
+    fee_tolerance_percent:
+      config.transfer_match_fee_tolerance_percent ?? DEFAULT_TRANSFER_MATCH_FEE_TOLERANCE_PERCENT,
+    involving_ids: involvingIds,
+  });
+  for (const match of matches) {
+    match.out.linked_tx_next_id = match.in.id;
+    match.in.linked_tx_prev_id = match.out.id;
+  }
+  return matches.length;
+}
+
+function generateImportId(prefix: string): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function getTimestampRange(items: Transaction[]): { first: string; last: string } | null {
+  let first: { value: string; ms: number } | null = null;
+  let last: { value: string; ms: number } | null = null;
+  for (const tx of items) {
+    const ms = Date.parse(tx.timestamp);
+    if (Number.isNaN(ms)) continue;
+    if (!first || ms < first.ms) first = { value: tx.timestamp, ms };
+    if (!last || ms > last.ms) last = { value: tx.timestamp, ms };
+  }
+  return first && last ? { first: first.value, last: last.value } : null;
+}
+
+/**
+ * Earlier batches an import of `batch` may repeat: the same file content from
+ * any source, or an overlapping date range from the same source.
+ */
+function findMatchingImportBatches(
+  batch: ImportBatch,
+  previous: ImportBatch[],
+): ImportBatchMatch[] {
+  const matches: ImportBatchMatch[] = [];
+  const first = batch.first_timestamp ? Date.parse(batch.first_timestamp) : NaN;
+  const last = batch.last_timestamp ? Date.parse(batch.last_timestamp) : NaN;
+
+  for (const candidate of previous) {
+    if (candidate.file_hash === batch.file_hash) {
+      matches.push({ batch: candidate, reason: "same_file" });
+      continue;
+    }
+    if (candidate.kind !== batch.kind || Number.isNaN(first) || Number.isNaN(last)) {
+      continue;
+    }
+    const candidateFirst = candidate.first_timestamp ? Date.parse(candidate.first_timestamp) : NaN;
+    const candidateLast = candidate.last_timestamp ? Date.parse(candidate.last_timestamp) : NaN;
+    if (Number.isNaN(candidateFirst) || Number.isNaN(candidateLast)) {
+      continue;
+    }
+    if (first <= candidateLast && candidateFirst <= last) {
+      matches.push({ batch: candidate, reason: "overlapping_range" });
+    }
+  }
+  return matches;
+}
+
+async function hashImportFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
 function getNextLocalId(): number {
   try {
     return getNextActiveProfileTxId();
@@ -403,13 +812,50 @@ function getNextLocalId(): number {
 }
 
 
-export function computeLocalHoldings(transactions: Transaction[]): HoldingsResponse {
+/**
+ * Asset quantities per account. Crypto fees are taken from the account of the
+ * transaction that paid them; only positive balances are returned.
+ */
+export function computeAccountHoldings(transactions: Transaction[]): AccountHoldingsItem[] {
+  const map = new Map<string, AccountHoldingsItem>();
+  const add = (accountId: string | null, symbol: string, delta: number) => {
+    const key = `${accountId ?? ""}|${symbol}`;
+    const entry = map.get(key) ?? { account_id: accountId, asset_symbol: symbol, total_amount: 0 };
+    entry.total_amount += delta;
+    map.set(key, entry);
+  };
+
+  for (const tx of transactions) {
+    for (const change of getTransactionBalanceChanges(tx)) {
+      add(tx.account_id ?? null, change.asset_symbol, change.amount);
+    }
+  }
+
+  return Array.from(map.values())
+    .filter((item) => !isFiatSymbol(item.asset_symbol) && item.total_amount > 1e-12)
+    .sort((a, b) => a.asset_symbol.localeCompare(b.asset_symbol));
+}
+
+export function computeLocalHoldings(
+  transactions: Transaction[],
+  baseCurrency: "EUR" | "USD" = "EUR",
+  costBasisMethod: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+): HoldingsResponse {
   const map = new Map<string, { quantity: number }>();
 
   for (const tx of transactions) {
     const symbol = tx.asset_symbol || "UNKNOWN";
     const txType = (tx.tx_type || "").toUpperCase();
     const amount = Number(tx.amount || 0);
+
+    // Fees paid in crypto reduce the holdings of the fee asset.
+    const cryptoFee = getCryptoFee(tx);
+    if (cryptoFee) {
+      const feeEntry = map.get(cryptoFee.asset_symbol) ?? { quantity: 0 };
+      feeEntry.quantity -= cryptoFee.amount;
+      map.set(cryptoFee.asset_symbol, feeEntry);
+    }
+
     if (!Number.isFinite(amount) || amount === 0) continue;
     if (txType === "TRANSFER_INTERNAL") continue;
 
@@ -453,15 +899,27 @@ export function computeLocalHoldings(transactions: Transaction[]): HoldingsRespo
 
   items.sort((a, b) => a.asset_symbol.localeCompare(b.asset_symbol));
 
-  return {
-    items,
-    portfolio_value_eur,
-    portfolio_value_usd,
-    fx_rate_eur_usd: null,
-    fx_rate_usd_eur: null,
-  };
+  const { open_lots } = computeCostBasisLots(transactions, baseCurrency, costBasisMethod);
+
+  return applyCostBasisToHoldings(
+    {
+      items,
+      portfolio_value_eur,
+      portfolio_value_usd,
+      fx_rate_eur_usd: null,
+      fx_rate_usd_eur: null,
+    },
+    open_lots,
+  );
 }
 
+/**
+ * Holding periods that end within the upcoming window.
+ *
+ * Entries are derived from the lots that are still open after all disposals
+ * have been matched with the configured cost-basis method, so coins that were
+ * already sold do not show up. The amount is the remaining part of the lot.
+ */
 export function computeLocalExpiring(transactions: Transaction[], config: AppConfig): ExpiringHolding[] {
   const holdingDays = config.holding_period_days ?? DEFAULT_HOLDING_PERIOD_DAYS;
   const upcomingDays = config.upcoming_holding_window_days ?? DEFAULT_UPCOMING_WINDOW_DAYS;
@@ -472,20 +930,18 @@ export function computeLocalExpiring(transactions: Transaction[], config: AppCon
 
   const now = new Date();
   const results: ExpiringHolding[] = [];
-
-  for (const tx of transactions) {
-    const txType = (tx.tx_type || "").toUpperCase();
-    const asset = (tx.asset_symbol || "").toUpperCase();
-
-    // Skip obvious fiat assets; they should not create holding period entries
-    if (asset === "EUR" || asset === "USD") {
-      continue;
-    }
-
-    if (!["BUY", "AIRDROP", "REWARD", "STAKING_REWARD"].includes(txType)) {
+  const { open_lots } = computeCostBasisLots(
+    transactions,
+    config.base_currency === "USD" ? "USD" : "EUR",
+    normalizeCostBasisMethod(config.cost_basis_method),
+  );
+
+  for (const lot of open_lots) {
+    // Transfers in do not start a new holding period.
+    if (!["BUY", "AIRDROP", "REWARD", "STAKING_REWARD"].includes(lot.tx_type)) {
       continue;
     }
-    const ts = new Date(tx.timestamp);
+    const ts = new Date(lot.acquired_at);
     if (isNaN(ts.getTime())) continue;
 
     const end = new Date(ts.getTime());
@@ -499,10 +955,11 @@ export function computeLocalExpiring(transactions: Transaction[], config: AppCon
     }
 
     results.push({
-      transaction_id: tx.id,
-      asset_symbol: tx.asset_symbol,
-      amount: tx.amount,
-      timestamp: tx.timestamp,
+      transaction_id: lot.transaction_id,
+      asset_symbol: lot.asset_symbol,
+      amount: lot.remaining_amount,
+      original_amount: lot.original_amount,
+      timestamp: lot.acquired_at,
       holding_period_end: end.toISOString(),
       days_remaining: remainingDays,
     });
@@ -516,6 +973,35 @@ export function computeLocalExpiring(transactions: Transaction[], config: AppCon
 
 
 
+/**
+ * Per-asset holdings change between two transaction lists, for import previews.
+ */
+function computeImportHoldingsDelta(before: Transaction[], after: Transaction[]): ImportHoldingsDelta[] {
+  const config = loadLocalConfig();
+  const baseCurrency = config.base_currency === "USD" ? "USD" : "EUR";
+  const method = normalizeCostBasisMethod(config.cost_basis_method);
+  const amounts = (items: Transaction[]) =>
+    new Map(
+      computeLocalHoldings(items, baseCurrency, method).items.map((item) => [
+        item.asset_symbol,
+        item.total_amount,
+      ]),
+    );
+
+  const beforeAmounts = amounts(before);
+  const afterAmounts = amounts(after);
+  const symbols = new Set([...beforeAmounts.keys(), ...afterAmounts.keys()]);
+  const delta: ImportHoldingsDelta[] = [];
+  for (const symbol of symbols) {
+    const previous = beforeAmounts.get(symbol) ?? 0;
+    const next = afterAmounts.get(symbol) ?? 0;
+    if (Math.abs(next - previous) > 1e-12) {
+      delta.push({ asset_symbol: symbol, before: previous, after: next });
+    }
+  }
+  return delta.sort((a, b) => a.asset_symbol.localeCompare(b.asset_symbol));
+}
+
 async function enrichTransactionsWithBaseFiat(
   transactions: Transaction[],
   baseCurrency: "EUR" | "USD",
@@ -585,99 +1071,451 @@ async function enrichTransactionsWithBaseFiat(
 }
 
 /**
- * Local-only implementation using browser storage.
+ * Value staking, reward and airdrop receipts at their timestamp.
  *
- * NOTES:
- * - Fiat values and FX rates are currently not recalculated. They are left as
- *   null and will be filled in once a local price service is implemented.
- * - PDF export is not implemented here; callers should not switch to
- *   local-only mode for PDF yet.
+ * The historical market price wins; the stored value_eur / value_usd is only
+ * used when no price could be fetched (or price fetching is disabled).
  */
-class LocalDataSource implements PortfolioDataSource {
-  async loadInitialData() {
-    const config: AppConfig = loadLocalConfig();
-    setCoingeckoApiKey(config.coingecko_api_key ?? null);
-    const rawTxs = loadLocalTransactions().map((tx) => ({ ...tx }));
+async function valueIncomeReceipts(
+  transactions: Transaction[],
+  baseCurrency: "EUR" | "USD",
+  priceFetchEnabled: boolean,
+): Promise<IncomeReceipt[]> {
+  const receipts: IncomeReceipt[] = [];
 
-    // Heal any one-way / dangling chain links from older stored data.
-    const didNormalizeLinks = normalizeLinkedTransactionGraph(rawTxs);
-    if (didNormalizeLinks) {
-      saveLocalTransactions(rawTxs);
+  for (const tx of transactions) {
+    const symbol = (tx.asset_symbol || "").toUpperCase();
+    const amount = Math.abs(typeof tx.amount === "number" ? tx.amount : 0);
+    if (!symbol || !isIncomeType(tx.tx_type) || !Number.isFinite(amount) || amount === 0) {
+      continue;
     }
 
-    const baseCurrency: "EUR" | "USD" =
-      config.base_currency === "USD" ? "USD" : "EUR";
-
-    let transactions = rawTxs;
+    let value: number | null = null;
+    let priceSource: IncomeReceipt["price_source"] = null;
 
-    if (config.price_fetch_enabled !== false) {
+    if (priceFetchEnabled) {
       try {
-        transactions = await enrichTransactionsWithBaseFiat(rawTxs, baseCurrency);
-      } catch (err) {
-        console.warn("Failed to enrich transactions with fiat values", err);
+        const hist = await fetchHistoricalPriceForSymbol(symbol, baseCurrency, tx.timestamp);
+        const price = baseCurrency === "USD" ? hist?.usd : hist?.eur;
+        if (typeof price === "number" && Number.isFinite(price)) {
+          value = price * amount;
+          priceSource = "historical";
+        }
+      } catch {
+        // Fall back to the recorded value below.
       }
     }
 
-    let holdings = computeLocalHoldings(transactions);
-
-    if (config.price_fetch_enabled !== false) {
-      try {
-        holdings = await applyPricesToHoldings(holdings);
-      } catch (err) {
-        console.warn("Failed to enrich holdings with prices", err);
+    if (value == null) {
+      const recorded = baseCurrency === "USD" ? tx.value_usd : tx.value_eur;
+      if (typeof recorded === "number" && Number.isFinite(recorded)) {
+        value = Math.abs(recorded);
+        priceSource = "recorded";
       }
     }
 
-    const expiring = computeLocalExpiring(transactions, config);
-
-    return {
-      config,
-      holdings,
-      transactions,
-      expiring,
-    };
+    receipts.push({
+      transaction_id: tx.id,
+      asset_symbol: symbol,
+      tx_type: (tx.tx_type || "").toUpperCase(),
+      source: (tx.source || "").trim(),
+      amount,
+      timestamp: tx.timestamp,
+      value,
+      price_source: priceSource,
+    });
   }
 
+  return receipts;
+}
 
-async saveTransaction(payload: {
-  id?: number | null;
-  asset_symbol: string;
-  tx_type: string;
-  amount: number;
-  price_fiat: number | null;
-  fiat_currency: string;
-  timestamp: string;
-  source: string | null;
-  note: string | null;
-  tx_id: string | null;
-  linked_tx_prev_id?: number | null;
-  linked_tx_next_id?: number | null;
-}): Promise<void> {
-  // Clone transactions so we can mutate safely.
-  const items = loadLocalTransactions().map((tx) => ({ ...tx }));
-  const isEdit = payload.id != null;
-  const txId: number = isEdit ? (payload.id as number) : getNextLocalId();
+// Shared page layout for the PDF reports (landscape A4, jsPDF units).
+const PDF_MARGIN_LEFT = 10;
+const PDF_MARGIN_TOP = 12;
+const PDF_MARGIN_BOTTOM = 12;
+const PDF_TABLE_HEADER_Y = PDF_MARGIN_TOP + 16;
+const PDF_TABLE_FONT_SIZE = 9;
+const PDF_TABLE_FONT_FAMILY = "times";
+const PDF_LINE_HEIGHT = 4.5;
+
+function getPdfUsableWidth(doc: jsPDF): number {
+  return doc.internal.pageSize.getWidth() - PDF_MARGIN_LEFT * 2;
+}
 
-  const newPrevId = sanitizeLinkedTxId(payload.linked_tx_prev_id);
-  const newNextId = sanitizeLinkedTxId(payload.linked_tx_next_id);
+/**
+ * Format a number for PDF tables with a fixed number of (truncated) fraction
+ * digits and the decimal separator of the report language.
+ */
+function formatPdfNumber(value: number | null, lang: Language): string {
+  if (value == null || !Number.isFinite(value)) {
+    return "";
+  }
 
-  const index = items.findIndex((tx) => tx.id === txId);
-  const existing = index !== -1 ? items[index] : null;
+  const negative = value < 0;
+  const x = Math.abs(value);
+  let s = String(x);
+  if (s.includes("e") || s.includes("E")) {
+    s = x.toFixed(10);
+  }
 
-  const oldPrevId = existing ? sanitizeLinkedTxId(existing.linked_tx_prev_id) : null;
-  const oldNextId = existing ? sanitizeLinkedTxId(existing.linked_tx_next_id) : null;
+  const dotIndex = s.indexOf(".");
+  const intPart = dotIndex === -1 ? s : s.slice(0, dotIndex);
+  const fracPart = dotIndex === -1 ? "" : s.slice(dotIndex + 1);
 
-  const priceFiat = payload.price_fiat;
-  const fiatValue =
-    priceFiat != null && Number.isFinite(priceFiat)
-      ? priceFiat * payload.amount
-      : null;
+  const paddedFrac = (fracPart + "000").slice(0, 3);
+  let result = intPart;
+  if (paddedFrac.length > 0) {
+    result += "." + paddedFrac;
+  }
 
-  // Detach previous neighbors if the edited tx changed its links.
-  const mapBefore = buildTxIndex(items);
+  if (lang === "de") {
+    result = result.replace(".", ",");
+  }
 
-  if (oldPrevId != null && oldPrevId !== newPrevId) {
-    const prevTx = mapBefore.get(oldPrevId);
+  return negative ? `-${result}` : result;
+}
+
+/**
+ * Format a fiat amount with two rounded decimals for PDF tables.
+ */
+function formatPdfMoney(value: number | null, lang: Language): string {
+  if (value == null || !Number.isFinite(value)) {
+    return "";
+  }
+  const result = value.toFixed(2);
+  return lang === "de" ? result.replace(".", ",") : result;
+}
+
+/**
+ * Draw the report title and generation date; returns the y position where
+ * the first table header goes.
+ */
+function drawPdfTitle(doc: jsPDF, lang: Language, title: string): number {
+  const dateStr = new Date().toISOString().slice(0, 10);
+  doc.setFontSize(16);
+  doc.text(title, PDF_MARGIN_LEFT, PDF_MARGIN_TOP);
+  doc.setFontSize(10);
+  doc.text(`${t(lang, "pdf_generated_label")} ${dateStr}`, PDF_MARGIN_LEFT, PDF_MARGIN_TOP + 6);
+  return PDF_TABLE_HEADER_Y;
+}
+
+/**
+ * Draw a bold section heading, starting a new page if it would not fit
+ * together with the first table rows. Returns the next y position.
+ */
+function drawPdfSectionTitle(doc: jsPDF, text: string, y: number): number {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let nextY = y;
+  if (nextY + PDF_LINE_HEIGHT * 4 > pageHeight - PDF_MARGIN_BOTTOM) {
+    doc.addPage("a4", "landscape");
+    nextY = PDF_TABLE_HEADER_Y;
+  }
+  doc.setFontSize(11);
+  doc.setFont(PDF_TABLE_FONT_FAMILY, "bold");
+  doc.text(text, PDF_MARGIN_LEFT, nextY);
+  doc.setFont(PDF_TABLE_FONT_FAMILY, "normal");
+  return nextY + PDF_LINE_HEIGHT + 2;
+}
+
+type PdfColumnLayout = {
+  colX: number[];
+  colWidths: number[];
+};
+
+/**
+ * Derive column widths from the longest cell per column and scale them down
+ * to the page width if needed. The transaction report uses a hand-tuned
+ * variant of this heuristic in exportPdf.
+ */
+function computePdfColumnLayout(
+  doc: jsPDF,
+  headers: string[],
+  rows: string[][],
+  maxCap = 24,
+): PdfColumnLayout {
+  const rawWidths = headers.map((header, col) => {
+    let maxLen = header.length;
+    for (const row of rows) {
+      for (const line of (row[col] ?? "").split("\n")) {
+        if (line.length > maxLen) {
+          maxLen = line.length;
+        }
+      }
+    }
+    return Math.max(12, Math.max(6, Math.min(maxLen + 1, maxCap)) * 2.0);
+  });
+
+  const gap = 2;
+  const totalGaps = gap * Math.max(0, headers.length - 1);
+  const usableWidthForCols = Math.max(10, getPdfUsableWidth(doc) - totalGaps);
+  const totalRawWidth = rawWidths.reduce((sum, w) => sum + w, 0);
+  const scale = totalRawWidth > usableWidthForCols ? usableWidthForCols / totalRawWidth : 1;
+  const colWidths = rawWidths.map((w) => w * scale);
+
+  const colX: number[] = [];
+  let acc = PDF_MARGIN_LEFT;
+  for (const width of colWidths) {
+    colX.push(acc);
+    acc += width + gap;
+  }
+  return { colX, colWidths };
+}
+
+type PdfTableOptions = PdfColumnLayout & {
+  headers: string[];
+  rows: string[][];
+  /** Y position of the header row on the current page. */
+  startY: number;
+  /** Columns whose text is wrapped to the column width. */
+  wrapColumns?: Set<number>;
+  /** Columns that only break at manual line breaks. */
+  lineBreakColumns?: Set<number>;
+  /** Optional clickable URL per row for one column. */
+  links?: { column: number; urls: (string | null)[] };
+};
+
+/**
+ * Draw a zebra-striped table with bold headers that are repeated after every
+ * page break. Returns the y position below the last row.
+ */
+function drawPdfTable(doc: jsPDF, options: PdfTableOptions): number {
+  const { headers, rows, colX, colWidths, links } = options;
+  const wrapColumns = options.wrapColumns ?? new Set<number>();
+  const lineBreakColumns = options.lineBreakColumns ?? new Set<number>();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const usableWidth = getPdfUsableWidth(doc);
+  const lineHeight = PDF_LINE_HEIGHT;
+  let y = options.startY;
+
+  const drawHeader = () => {
+    doc.setFontSize(PDF_TABLE_FONT_SIZE);
+    doc.setFont(PDF_TABLE_FONT_FAMILY, "bold");
+    headers.forEach((h, idx) => {
+      doc.text(h, colX[idx], y);
+    });
+    doc.setFont(PDF_TABLE_FONT_FAMILY, "normal");
+    y += lineHeight + 1;
+  };
+
+  drawHeader();
+
+  let globalRowIndex = 0;
+
+  for (const rowValues of rows) {
+    const wrapped: string[][] = rowValues.map((val, idx) => {
+      const text = String(val ?? "");
+      if (!text) {
+        return [""];
+      }
+      // Manual line breaks keep the layout deterministic and avoid unintended wrapping.
+      if (lineBreakColumns.has(idx)) {
+        const parts = text.split("\n");
+        return parts.length > 0 ? parts : [text];
+      }
+      if (!wrapColumns.has(idx)) {
+        return [text];
+      }
+      const cellWidth = colWidths[idx] - 2; // small inner padding
+      const width = cellWidth > 0 ? cellWidth : 1;
+      return doc.splitTextToSize(text, width) as string[];
+    });
+
+    const maxLines = wrapped.reduce(
+      (max, lines) => (lines.length > max ? lines.length : max),
+      1,
+    );
+    const rowHeight = maxLines * lineHeight + 2;
+
+    // Page break if needed
+    if (y + rowHeight > pageHeight - PDF_MARGIN_BOTTOM) {
+      doc.addPage("a4", "landscape");
+      y = PDF_TABLE_HEADER_Y;
+      drawHeader();
+    }
+
+    // Zebra striping: even rows get a light grey background
+    if (globalRowIndex % 2 === 1) {
+      doc.setFillColor(240, 240, 240);
+      doc.rect(PDF_MARGIN_LEFT, y - lineHeight + 1, usableWidth, rowHeight, "F");
+    }
+
+    // Write cell texts
+    wrapped.forEach((lines, idx) => {
+      const cellX = colX[idx] + 1;
+      let lineY = y;
+
+      for (const line of lines) {
+        doc.text(String(line), cellX, lineY);
+
+        // Add an invisible clickable link to the first line of the link column
+        if (links && idx === links.column) {
+          const link = links.urls[globalRowIndex] || null;
+          if (link && line === lines[0]) {
+            const cellWidth = colWidths[idx] - 2;
+            const width = cellWidth > 0 ? cellWidth : 1;
+            const height = rowHeight - 2;
+            try {
+              doc.link(cellX, y, width, height, { url: link });
+            } catch {
+              // ignore link errors to avoid breaking PDF generation
+            }
+          }
+        }
+
+        lineY += lineHeight;
+      }
+    });
+
+    y += rowHeight;
+    globalRowIndex += 1;
+  }
+
+  return y;
+}
+
+/**
+ * Append the standard disclaimer below the given y position.
+ */
+function drawPdfDisclaimer(doc: jsPDF, lang: Language, y: number): void {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  doc.setFontSize(8);
+  const disclaimerLines = doc.splitTextToSize(t(lang, "pdf_disclaimer"), getPdfUsableWidth(doc)) as string[];
+  let disclaimerY = y + 8;
+
+  if (disclaimerY + disclaimerLines.length * (PDF_LINE_HEIGHT - 1) > pageHeight - PDF_MARGIN_BOTTOM) {
+    doc.addPage("a4", "landscape");
+    disclaimerY = PDF_MARGIN_TOP;
+  }
+
+  doc.text(disclaimerLines, PDF_MARGIN_LEFT, disclaimerY);
+}
+
+/**
+ * Local-only implementation using browser storage.
+ *
+ * NOTES:
+ * - Fiat values and FX rates are currently not recalculated. They are left as
+ *   null and will be filled in once a local price service is implemented.
+ * - PDF export is not implemented here; callers should not switch to
+ *   local-only mode for PDF yet.
+ */
+class LocalDataSource implements PortfolioDataSource {
+  // Outcome of the last dry run, waiting for confirmImport / cancelImport.
+  private pendingImport: {
+    // New rows with temporary ids; real ids are assigned on confirmation.
+    created: Transaction[];
+    // Link fields the import changed on rows that already existed.
+    linkUpdates: Pick<Transaction, "id" | "linked_tx_prev_id" | "linked_tx_next_id">[];
+    result: CsvImportResult;
+    batch: ImportBatch;
+  } | null = null;
+
+  async loadInitialData() {
+    const config: AppConfig = loadLocalConfig();
+    setCoingeckoApiKey(config.coingecko_api_key ?? null);
+    const rawTxs = loadLocalTransactions().map((tx) => ({ ...tx }));
+
+    // Heal any one-way / dangling chain links from older stored data.
+    const didNormalizeLinks = normalizeLinkedTransactionGraph(rawTxs);
+    // Transactions stored before accounts existed get one from their source.
+    const didAssignAccounts = assignAccountsFromSource(rawTxs);
+    if (didNormalizeLinks || didAssignAccounts) {
+      saveLocalTransactions(rawTxs);
+    }
+
+    const baseCurrency: "EUR" | "USD" =
+      config.base_currency === "USD" ? "USD" : "EUR";
+
+    let transactions = rawTxs;
+
+    if (config.price_fetch_enabled !== false) {
+      try {
+        transactions = await enrichTransactionsWithBaseFiat(rawTxs, baseCurrency);
+      } catch (err) {
+        console.warn("Failed to enrich transactions with fiat values", err);
+      }
+    }
+
+    let holdings = computeLocalHoldings(
+      transactions,
+      baseCurrency,
+      normalizeCostBasisMethod(config.cost_basis_method),
+    );
+
+    if (config.price_fetch_enabled !== false) {
+      try {
+        holdings = await applyPricesToHoldings(holdings, baseCurrency);
+      } catch (err) {
+        console.warn("Failed to enrich holdings with prices", err);
+      }
+    }
+
+    const expiring = computeLocalExpiring(transactions, config);
+
+    return {
+      config,
+      holdings,
+      transactions,
+      expiring,
+    };
+  }
+
+
+async saveTransaction(payload: {
+  id?: number | null;
+  asset_symbol: string;
+  tx_type: string;
+  amount: number;
+  price_fiat: number | null;
+  fiat_currency: string;
+  timestamp: string;
+  source: string | null;
+  note: string | null;
+  tx_id: string | null;
+  linked_tx_prev_id?: number | null;
+  linked_tx_next_id?: number | null;
+  fee_amount?: number | null;
+  fee_asset?: string | null;
+  account_id?: string | null;
+}): Promise<void> {
+  // Clone transactions so we can mutate safely.
+  const items = loadLocalTransactions().map((tx) => ({ ...tx }));
+  const isEdit = payload.id != null;
+  const txId: number = isEdit ? (payload.id as number) : getNextLocalId();
+
+  const newPrevId = sanitizeLinkedTxId(payload.linked_tx_prev_id);
+  const newNextId = sanitizeLinkedTxId(payload.linked_tx_next_id);
+
+  const index = items.findIndex((tx) => tx.id === txId);
+  const existing = index !== -1 ? items[index] : null;
+
+  const oldPrevId = existing ? sanitizeLinkedTxId(existing.linked_tx_prev_id) : null;
+  const oldNextId = existing ? sanitizeLinkedTxId(existing.linked_tx_next_id) : null;
+
+  const priceFiat = payload.price_fiat;
+  const fiatValue =
+    priceFiat != null && Number.isFinite(priceFiat)
+      ? priceFiat * payload.amount
+      : null;
+  const feeAmount = payload.fee_amount ?? null;
+  const feeAsset = feeAmount != null ? (payload.fee_asset || payload.fiat_currency).toUpperCase() : null;
+
+  // A fee in a third asset cannot be re-derived here; keep the value the
+  // importer stored as long as the fee itself was not edited.
+  const feeUnchanged =
+    existing != null &&
+    feeAmount === (existing.fee_amount ?? null) &&
+    feeAsset === (existing.fee_asset ? existing.fee_asset.toUpperCase() : null) &&
+    payload.fiat_currency === existing.fiat_currency;
+  const feeFiatValue =
+    deriveFeeFiatValue(feeAmount, feeAsset, payload.asset_symbol, payload.fiat_currency, priceFiat) ??
+    (feeUnchanged ? existing?.fee_fiat_value ?? null : null);
+
+  // Detach previous neighbors if the edited tx changed its links.
+  const mapBefore = buildTxIndex(items);
+
+  if (oldPrevId != null && oldPrevId !== newPrevId) {
+    const prevTx = mapBefore.get(oldPrevId);
     if (prevTx && prevTx.linked_tx_next_id === txId) {
       prevTx.linked_tx_next_id = null;
     }
@@ -708,6 +1546,10 @@ async saveTransaction(payload: {
     value_usd: existing?.value_usd ?? null,
     linked_tx_prev_id: newPrevId,
     linked_tx_next_id: newNextId,
+    fee_amount: feeAmount,
+    fee_asset: feeAsset,
+    account_id: payload.account_id !== undefined ? payload.account_id : existing?.account_id,
+    fee_fiat_value: feeFiatValue,
   };
 
   if (index !== -1) {
@@ -784,7 +1626,7 @@ async deleteTransaction(id: number): Promise<void> {
   saveLocalTransactions(filtered);
 }
 
-  async importCsv(lang: Language, file: File): Promise<CsvImportResult> {
+  async importCsv(lang: Language, file: File, staging: ImportStaging): Promise<CsvImportResult> {
     const text = await file.text();
     const normalized = normalizeCsvText(text);
     const lines = normalized.split(/\r?\n/).filter((l) => l.trim().length > 0);
@@ -804,7 +1646,7 @@ async deleteTransaction(id: number): Promise<void> {
       };
     }
 
-    const items = loadLocalTransactions();
+    const items = loadStagedTransactions(staging);
     const existingKeys = new Set<string>(items.map((tx) => buildTransactionDedupKey(tx)));
     const importedKeys = new Set<string>();
     const errors: string[] = [];
@@ -875,7 +1717,7 @@ async deleteTransaction(id: number): Promise<void> {
           throw new Error("csv_invalid_amount");
         }
 
-        const id = getNextLocalId();
+        const id = getNextStagedId(staging);
 
         let priceFiat: number | null = null;
         if (record["price_fiat"]) {
@@ -959,6 +1801,26 @@ async deleteTransaction(id: number): Promise<void> {
         }
 
 
+        // Fee columns exist from CSV schema version 5 on.
+        const parseOptionalNumber = (rawValue: string | undefined): number | null => {
+          let raw = (rawValue || "").trim().replace(/\s+/g, "");
+          if (!raw) {
+            return null;
+          }
+          if (raw.includes(",") && raw.includes(".")) {
+            const lastComma = raw.lastIndexOf(",");
+            const lastDot = raw.lastIndexOf(".");
+            raw = lastComma > lastDot ? raw.replace(/\./g, "").replace(",", ".") : raw.replace(/,/g, "");
+          } else if (raw.includes(",")) {
+            raw = raw.replace(",", ".");
+          }
+          const parsed = parseFloat(raw);
+          return Number.isFinite(parsed) ? parsed : null;
+        };
+        const feeAmount = parseOptionalNumber(record["fee_amount"]);
+        const feeAsset = (record["fee_asset"] || "").trim().toUpperCase() || null;
+        const feeFiatValue = parseOptionalNumber(record["fee_fiat_value"]);
+
         const linkedPrev = sanitizeLinkedTxId(
           record["linked_tx_prev_id"]
             ? parseInt(String(record["linked_tx_prev_id"]).trim(), 10)
@@ -985,12 +1847,17 @@ async deleteTransaction(id: number): Promise<void> {
           value_usd: valueUsd,
           linked_tx_prev_id: linkedPrev,
           linked_tx_next_id: linkedNext,
+          fee_amount: feeAmount,
+          fee_asset: feeAmount != null ? feeAsset : null,
+          fee_fiat_value: feeFiatValue,
         };
 
         const key = buildTransactionDedupKey(tx);
         if (existingKeys.has(key) || importedKeys.has(key)) {
-          errors.push(
+          reportDuplicate(
+            staging,
             `Line ${lineIndex + 1}: duplicate transaction detected (skipped).`,
+            tx,
           );
           continue;
         }
@@ -1007,14 +1874,14 @@ async deleteTransaction(id: number): Promise<void> {
     }
 
     normalizeLinkedTransactionGraph(items);
-    saveLocalTransactions(items);
+    saveStagedTransactions(staging, items);
 
     return {
       imported: importedCount,
       errors,
     };
   }
-  async importBinanceSpotXlsx(lang: Language, file: File): Promise<CsvImportResult> {
+  async importBinanceSpotXlsx(lang: Language, file: File, staging: ImportStaging): Promise<CsvImportResult> {
     // Read the XLSX file as ArrayBuffer so XLSX can parse it.
     const buffer = await file.arrayBuffer();
     const XLSX = await getXlsxModule();
@@ -1070,11 +1937,15 @@ async deleteTransaction(id: number): Promise<void> {
       defval: "",
     });
 
-    const items = loadLocalTransactions();
-    const existingKeys = new Set<string>(items.map((tx) => buildTransactionDedupKey(tx)));
+    const items = loadStagedTransactions(staging);
+    const existingByKey = new Map<string, Transaction>(
+      items.map((tx) => [buildTransactionDedupKey(tx), tx]),
+    );
     const importedKeys = new Set<string>();
     const errors: string[] = [];
     let importedCount = 0;
+    // Crypto-to-crypto trades are stored as a base leg and a linked quote leg.
+    const swaps: { baseLeg: Transaction; quoteLeg: Transaction }[] = [];
 
     rows.forEach((row, index) => {
       const rowIndex = index + 2; // +2 because header is Excel row 1
@@ -1165,7 +2036,7 @@ async deleteTransaction(id: number): Promise<void> {
           txType = "BUY";
         }
 
-        const id = getNextLocalId();
+        const id = getNextStagedId(staging);
 
         // If we have a price, store it; otherwise prefer Total / Amount.
         let priceFiat: number | null = null;
@@ -1178,7 +2049,12 @@ async deleteTransaction(id: number): Promise<void> {
         const fiatValue =
           priceFiat != null && Number.isFinite(priceFiat) ? priceFiat * amount : null;
 
-        // Fee is currently stored only in the note to keep the schema simple.
+        const feeAmount =
+          rawFee !== "" && rawFee != null ? parseFloat(String(rawFee)) : null;
+        const feeAsset = String(rawFeeCoin || "").trim().toUpperCase() || null;
+        const hasFee = feeAmount != null && Number.isFinite(feeAmount) && feeAmount !== 0 && !!feeAsset;
+
+        // The fee also stays in the note so that dedup keys of earlier imports remain stable.
         let note = `Binance trade ${rawPair || `${baseAsset}/${quoteAsset}`}`;
         if (rawFee && rawFeeCoin) {
           note += ` (fee ${rawFee} ${rawFeeCoin})`;
@@ -1198,17 +2074,102 @@ async deleteTransaction(id: number): Promise<void> {
           fiat_value: fiatValue,
           value_eur: null,
           value_usd: null,
+          fee_amount: hasFee ? feeAmount : null,
+          fee_asset: hasFee ? feeAsset : null,
+          fee_fiat_value: hasFee
+            ? deriveFeeFiatValue(feeAmount, feeAsset, baseAsset, quoteAsset || "USDT", priceFiat)
+            : null,
         };
 
+        // The quote asset moves in the opposite direction. Fiat quotes are
+        // covered by fiat_value; crypto quotes (including stablecoins) need
+        // their own leg so the spent or received coins show up in holdings.
+        const quoteAmount =
+          Number.isFinite(total as number) && total !== 0
+            ? Math.abs(total as number)
+            : fiatValue != null
+              ? Math.abs(fiatValue)
+              : null;
+        const isSwap =
+          !!quoteAsset &&
+          !isFiatSymbol(quoteAsset) &&
+          !!getAssetMetadata(quoteAsset) &&
+          quoteAmount != null &&
+          quoteAmount > 0;
+
         const key = buildTransactionDedupKey(tx);
-        if (existingKeys.has(key) || importedKeys.has(key)) {
-          errors.push(`Line ${rowIndex}: duplicate transaction detected (skipped).`);
+        const existingBaseLeg = existingByKey.get(key) ?? null;
+
+        if (!isSwap) {
+          if (existingBaseLeg) {
+            reportDuplicate(staging, `Line ${rowIndex}: duplicate transaction detected (skipped).`, tx);
+            return;
+          }
+          items.push(tx);
+          existingByKey.set(key, tx);
+          importedKeys.add(key);
+          importedCount += 1;
           return;
         }
 
-        items.push(tx);
-        existingKeys.add(key);
-        importedKeys.add(key);
+        const quoteLeg: Transaction = {
+          id: getNextStagedId(staging),
+          asset_symbol: quoteAsset,
+          tx_type: txType === "SELL" ? "BUY" : "SELL",
+          amount: quoteAmount,
+          price_fiat: amount / quoteAmount,
+          fiat_currency: baseAsset,
+          timestamp,
+          source: "BINANCE",
+          note: `Binance trade ${rawPair || `${baseAsset}/${quoteAsset}`} (${quoteAsset} leg)`,
+          tx_id: null,
+          fiat_value: amount,
+          value_eur: null,
+          value_usd: null,
+        };
+        const quoteKey = buildTransactionDedupKey(quoteLeg);
+
+        // A fee in the quote asset is paid from the coins the quote leg
+        // brings in, so it belongs on that leg. Existing base legs keep theirs.
+        if (hasFee && feeAsset === quoteAsset && !existingBaseLeg) {
+          quoteLeg.fee_amount = feeAmount;
+          quoteLeg.fee_asset = feeAsset;
+          quoteLeg.fee_fiat_value = deriveFeeFiatValue(
+            feeAmount,
+            feeAsset,
+            quoteAsset,
+            baseAsset,
+            quoteLeg.price_fiat ?? null,
+          );
+          tx.fee_amount = null;
+          tx.fee_asset = null;
+          tx.fee_fiat_value = null;
+        }
+
+        // Trades imported before the two-leg model only have the base leg;
+        // re-importing them adds the missing quote leg to the existing one.
+        const baseLeg = existingBaseLeg ?? tx;
+        if (
+          existingByKey.has(quoteKey) ||
+          (existingBaseLeg &&
+            (importedKeys.has(key) || existingBaseLeg.linked_tx_next_id != null))
+        ) {
+          reportDuplicate(staging, `Line ${rowIndex}: duplicate transaction detected (skipped).`, tx);
+          return;
+        }
+
+        baseLeg.linked_tx_next_id = quoteLeg.id;
+        quoteLeg.linked_tx_prev_id = baseLeg.id;
+
+        if (!existingBaseLeg) {
+          items.push(baseLeg);
+          existingByKey.set(key, baseLeg);
+          importedKeys.add(key);
+        }
+        items.push(quoteLeg);
+        existingByKey.set(quoteKey, quoteLeg);
+        importedKeys.add(quoteKey);
+        swaps.push({ baseLeg, quoteLeg });
         importedCount += 1;
       } catch (err) {
         console.error("Failed to import Binance row", err);
@@ -1222,8 +2183,14 @@ async deleteTransaction(id: number): Promise<void> {
       }
     });
 
+    if (swaps.length > 0 && loadLocalConfig().price_fetch_enabled !== false) {
+      for (const swap of swaps) {
+        await valueSwapLegs(swap.baseLeg, swap.quoteLeg);
+      }
+    }
+
     normalizeLinkedTransactionGraph(items);
-    saveLocalTransactions(items);
+    saveStagedTransactions(staging, items);
 
     return {
       imported: importedCount,
@@ -1408,7 +2375,7 @@ async deleteTransaction(id: number): Promise<void> {
 
   return remaining.concat(merged);
 }
-async importBitpandaCsv(lang: Language, file: File): Promise<CsvImportResult> {
+async importBitpandaCsv(lang: Language, file: File, staging: ImportStaging): Promise<CsvImportResult> {
     const text = await file.text();
     const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
     if (lines.length < 2) {
@@ -1458,7 +2425,7 @@ async importBitpandaCsv(lang: Language, file: File): Promise<CsvImportResult> {
       };
     }
 
-    const existingItems = loadLocalTransactions();
+    const existingItems = loadStagedTransactions(staging);
     const existingKeys = new Set<string>(
       existingItems.map((tx) => buildTransactionDedupKey(tx)),
     );
@@ -1624,7 +2591,7 @@ async importBitpandaCsv(lang: Language, file: File): Promise<CsvImportResult> {
           txType = "BUY";
         }
 
-        const id = getNextLocalId();
+        const id = getNextStagedId(staging);
 
         // Prefer explicit fiat amount if present; otherwise fall back to market price.
         let priceFiat: number | null = null;
@@ -1659,9 +2626,13 @@ const spread = normalizeOptionalField(record["Spread"]);
 const spreadCurrency = normalizeOptionalField(record["Spread Currency"]);
 const taxFiat = normalizeOptionalField(record["Tax Fiat"]);
 
+const hasFee = Number.isFinite(fee) && fee !== 0;
+const feeAssetSymbol = (feeAsset || assetSymbol).toUpperCase();
+
+// Fee details also stay in the note so that dedup keys of earlier imports remain stable.
 let note = `Bitpanda ${record["Transaction Type"] || ""} (${record["In/Out"] || ""})`;
 const feeParts: string[] = [];
-if (Number.isFinite(fee) && fee !== 0) {
+if (hasFee) {
   feeParts.push(`fee ${fee} ${feeAsset || assetSymbol}`);
 }
 if (feePercent) {
@@ -1706,6 +2677,11 @@ if (txType === "TRANSFER_IN" || txType === "TRANSFER_OUT") {
           fiat_value: fiatValue,
           value_eur: null,
           value_usd: null,
+          fee_amount: hasFee ? fee : null,
+          fee_asset: hasFee ? feeAssetSymbol : null,
+          fee_fiat_value: hasFee
+            ? deriveFeeFiatValue(fee, feeAssetSymbol, assetSymbol, fiatCurrency, priceFiat)
+            : null,
         };
 
         const txForKey: Transaction = {
@@ -1715,10 +2691,12 @@ if (txType === "TRANSFER_IN" || txType === "TRANSFER_OUT") {
 
         const key = buildTransactionDedupKey(txForKey);
         if (existingKeys.has(key) || importedKeys.has(key)) {
-          errors.push(
+          reportDuplicate(
+            staging,
             `${t(lang, "csv_import_error_line_prefix")} ${
               i + 1
             }: duplicate transaction detected (skipped).`,
+            tx,
           );
           continue;
         }
@@ -1740,7 +2718,7 @@ if (txType === "TRANSFER_IN" || txType === "TRANSFER_OUT") {
     const finalNewItems = this.mergeBitpandaInternalTransfers(newItems);
     const allItems = existingItems.concat(finalNewItems);
 
-    saveLocalTransactions(allItems);
+    saveStagedTransactions(staging, allItems);
 
     return {
       imported: finalNewItems.length,
@@ -1748,81 +2726,927 @@ if (txType === "TRANSFER_IN" || txType === "TRANSFER_OUT") {
     };
   }
 
-  async exportPdf(lang: Language, transactions?: Transaction[]): Promise<Blob> {
-    const txs = transactions ?? loadLocalTransactions();
-    const config = loadLocalConfig();
+  async importKrakenLedgerCsv(
+    lang: Language,
+    file: File,
+    staging: ImportStaging,
+    onProgress?: (progress: ImportProgress) => void,
+  ): Promise<CsvImportResult> {
+    const text = await file.text();
+    const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
+    if (lines.length < 2) {
+      return {
+        imported: 0,
+        errors: [t(lang, "csv_import_kraken_file_too_short")],
+      };
+    }
 
-    // Map internal transaction type codes to human-readable labels in the PDF.
-    // The internal codes are kept unchanged for storage and processing.
-    const formatTxTypeForPdf = (txType: string | null | undefined): string => {
-      const code = (txType || "").toUpperCase();
-      switch (code) {
-        case "STAKING_REWARD":
-          return "STAKING\nREWARD";
-        case "TRANSFER_IN":
-          return "TRANSFER\n(IN)";
-        case "TRANSFER_OUT":
-          return "TRANSFER\n(OUT)";
-        case "TRANSFER_INTERNAL":
-          return "TRANSFER\n(INTERNAL)";
-        default:
-          return code;
-      }
-    };
+    const headerCols = parseCsvLine(lines[0]).map((c) =>
+      c.replace(/^"+|"+$/g, "").trim(),
+    );
+    const required = ["txid", "refid", "time", "type", "asset", "amount", "fee"];
+    const missing = required.filter((r) => !headerCols.includes(r));
+    if (missing.length > 0) {
+      return {
+        imported: 0,
+        errors: [
+          `${t(lang, "external_import_missing_columns_prefix")} ${missing.join(", ")}`,
+        ],
+      };
+    }
 
-    // Use landscape orientation for better column layout
-    const doc = new jsPDF({ orientation: "landscape" });
+    const errors: string[] = [];
+    const lineError = (line: number, message: string) => {
+      errors.push(`${t(lang, "csv_import_error_line_prefix")} ${line}: ${message}`);
+    };
 
-    const isDe = lang === "de";
-    const title = t(lang, "pdf_title");
-    const generatedLabel = t(lang, "pdf_generated_label");
-    const tzDate = new Date();
-    const dateStr = tzDate.toISOString().slice(0, 10);
-
-    const marginLeft = 10;
-    const marginTop = 12;
-    const marginBottom = 12;
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const usableWidth = pageWidth - marginLeft * 2;
-
-    const decimalSeparator = isDe ? "," : ".";
-    const formatNumber = (value: number | null): string => {
-      if (value == null || !Number.isFinite(value)) {
-        return "";
-      }
+    // Group ledger entries by refid; a trade is one refid with two legs.
+    const groups = new Map<string, KrakenLedgerRow[]>();
+    for (let i = 1; i < lines.length; i++) {
+      const cols = parseCsvLine(lines[i]);
+      const record: Record<string, string> = {};
+      headerCols.forEach((colName, idx) => {
+        record[colName] = (cols[idx] ?? "").replace(/^"+|"+$/g, "").trim();
+      });
 
-      const negative = value < 0;
-      const x = Math.abs(value);
-      let s = String(x);
-      if (s.includes("e") || s.includes("E")) {
-        s = x.toFixed(10);
+      // Kraken lists pending deposits and withdrawals a second time without
+      // a txid; only the settled entry is imported.
+      const txid = record["txid"];
+      if (!txid) continue;
+
+      const normalizedTime = (record["time"] || "").replace(" ", "T");
+      const date = new Date(normalizedTime.endsWith("Z") ? normalizedTime : `${normalizedTime}Z`);
+      const amount = parseFloat(record["amount"] || "");
+      const fee = parseFloat(record["fee"] || "0");
+      if (isNaN(date.getTime()) || !Number.isFinite(amount)) {
+        lineError(i + 1, t(lang, "csv_import_unknown_error"));
+        continue;
       }
 
-      const dotIndex = s.indexOf(".");
-      let intPart = dotIndex === -1 ? s : s.slice(0, dotIndex);
-      let fracPart = dotIndex === -1 ? "" : s.slice(dotIndex + 1);
+      const refid = record["refid"] || txid;
+      const row: KrakenLedgerRow = {
+        line: i + 1,
+        txid,
+        refid,
+        timestamp: date.toISOString(),
+        type: (record["type"] || "").toLowerCase(),
+        subtype: (record["subtype"] || "").toLowerCase(),
+        asset: normalizeKrakenAsset(record["asset"] || ""),
+        amount,
+        fee: Number.isFinite(fee) ? Math.abs(fee) : 0,
+      };
+      const group = groups.get(refid);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(refid, [row]);
+      }
+    }
+
+    const config = loadLocalConfig();
+    const baseCurrency = config.base_currency === "USD" ? "USD" : "EUR";
+    const priceFetchEnabled = config.price_fetch_enabled !== false;
+
+    const items = loadStagedTransactions(staging);
+    const existingKeys = new Set<string>(items.map((tx) => buildTransactionDedupKey(tx)));
+    let importedCount = 0;
+
+    const feeOf = (row: KrakenLedgerRow) =>
+      row.fee !== 0 ? { amount: row.fee, asset: row.asset } : null;
+
+    const buildTx = (
+      row: KrakenLedgerRow,
+      txType: string,
+      amount: number,
+      fiatCurrency: string,
+      fiatValue: number | null,
+      fee: { amount: number; asset: string } | null,
+    ): Transaction => {
+      const priceFiat = fiatValue != null && amount !== 0 ? fiatValue / amount : null;
+      return {
+        id: getNextStagedId(staging),
+        asset_symbol: row.asset,
+        tx_type: txType,
+        amount,
+        price_fiat: priceFiat,
+        fiat_currency: fiatCurrency,
+        timestamp: row.timestamp,
+        source: "KRAKEN",
+        note: `Kraken ${row.type} ${row.refid}`,
+        tx_id: null,
+        fiat_value: fiatValue,
+        value_eur: null,
+        value_usd: null,
+        fee_amount: fee ? fee.amount : null,
+        fee_asset: fee ? fee.asset : null,
+        fee_fiat_value: fee
+          ? deriveFeeFiatValue(fee.amount, fee.asset, row.asset, fiatCurrency, priceFiat)
+          : null,
+      };
+    };
 
-      const paddedFrac = (fracPart + "000").slice(0, 3);
-      let result = intPart;
-      if (paddedFrac.length > 0) {
-        result += "." + paddedFrac;
+    const addUnlessDuplicate = (line: number, txs: Transaction[]): boolean => {
+      const keys = txs.map((tx) => buildTransactionDedupKey(tx));
+      // Deposits and withdrawals imported before they carried the ledger txid
+      // are only known by their key without it.
+      const legacyKeys = txs
+        .filter((tx) => tx.tx_id)
+        .map((tx) => buildTransactionDedupKey({ ...tx, tx_id: null }));
+      if ([...keys, ...legacyKeys].some((key) => existingKeys.has(key))) {
+        reportDuplicate(
+          staging,
+          `${t(lang, "csv_import_error_line_prefix")} ${line}: duplicate transaction detected (skipped).`,
+          txs[0],
+        );
+        return false;
       }
+      keys.forEach((key) => existingKeys.add(key));
+      items.push(...txs);
+      importedCount += 1;
+      return true;
+    };
+
+    const groupList = Array.from(groups.values());
+    onProgress?.({ kind: "kraken", current: 0, total: groupList.length });
+
+    for (let g = 0; g < groupList.length; g++) {
+      const group = groupList[g];
+      const first = group[0];
+
+      // Yield now and then so the progress indicator can repaint.
+      if (g > 0 && g % 200 === 0) {
+        onProgress?.({ kind: "kraken", current: g, total: groupList.length });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+
+      try {
+        const unsupported = group.find(
+          (row) => !isFiatSymbol(row.asset) && !getAssetMetadata(row.asset),
+        );
+
+        if (group.some((row) => ["trade", "spend", "receive"].includes(row.type))) {
+          const spent = group.filter((row) => row.amount < 0);
+          const received = group.filter((row) => row.amount > 0);
+          if (spent.length !== 1 || received.length !== 1) {
+            lineError(first.line, `${t(lang, "csv_import_kraken_unbalanced_trade")} ${first.refid}`);
+            continue;
+          }
+          const out = spent[0];
+          const inc = received[0];
+          if (isFiatSymbol(out.asset) && isFiatSymbol(inc.asset)) {
+            continue;
+          }
+          if (unsupported) {
+            lineError(unsupported.line, `${t(lang, "external_import_unsupported_asset_prefix")} ${unsupported.asset}`);
+            continue;
+          }
+
+          if (isFiatSymbol(out.asset)) {
+            addUnlessDuplicate(inc.line, [
+              buildTx(inc, "BUY", inc.amount, out.asset, Math.abs(out.amount), feeOf(out) ?? feeOf(inc)),
+            ]);
+          } else if (isFiatSymbol(inc.asset)) {
+            addUnlessDuplicate(out.line, [
+              buildTx(out, "SELL", Math.abs(out.amount), inc.asset, inc.amount, feeOf(inc) ?? feeOf(out)),
+            ]);
+          } else {
+            // Crypto-to-crypto: linked sell and buy legs, each priced in the other asset.
+            const sellLeg = buildTx(out, "SELL", Math.abs(out.amount), inc.asset, inc.amount, feeOf(out));
+            const buyLeg = buildTx(inc, "BUY", inc.amount, out.asset, Math.abs(out.amount), feeOf(inc));
+            sellLeg.linked_tx_next_id = buyLeg.id;
+            buyLeg.linked_tx_prev_id = sellLeg.id;
+            if (addUnlessDuplicate(out.line, [sellLeg, buyLeg]) && priceFetchEnabled) {
+              await valueSwapLegs(buyLeg, sellLeg);
+            }
+          }
+          continue;
+        }
+
+        for (const row of group) {
+          // Fiat funding and wallet moves (spot <-> staking) do not change crypto holdings.
+          const isReward =
+            row.type === "staking" || (row.type === "earn" && row.subtype === "reward");
+          if (
+            isFiatSymbol(row.asset) ||
+            row.type === "transfer" ||
+            (row.type === "earn" && !isReward)
+          ) {
+            continue;
+          }
+          if (!["deposit", "withdrawal"].includes(row.type) && !isReward) {
+            lineError(row.line, `${t(lang, "csv_import_kraken_unsupported_type")} ${row.type}`);
+            continue;
+          }
+          if (!getAssetMetadata(row.asset)) {
+            lineError(row.line, `${t(lang, "external_import_unsupported_asset_prefix")} ${row.asset}`);
+            continue;
+          }
 
-      if (decimalSeparator === ",") {
-        result = result.replace(".", ",");
+          // The ledger txid lets transfer matching pair both sides by tx_id.
+          if (row.type === "withdrawal") {
+            addUnlessDuplicate(row.line, [
+              {
+                ...buildTx(row, "TRANSFER_OUT", Math.abs(row.amount), baseCurrency, null, feeOf(row)),
+                tx_id: row.txid,
+              },
+            ]);
+          } else if (isReward) {
+            if (row.amount > 0) {
+              addUnlessDuplicate(row.line, [
+                buildTx(row, "STAKING_REWARD", row.amount, baseCurrency, null, feeOf(row)),
+              ]);
+            }
+          } else if (row.amount > 0) {
+            addUnlessDuplicate(row.line, [
+              { ...buildTx(row, "TRANSFER_IN", row.amount, baseCurrency, null, feeOf(row)), tx_id: row.txid },
+            ]);
+          }
+        }
+      } catch (err) {
+        console.error("Failed to import Kraken ledger entry", err);
+        const msg = err instanceof Error ? err.message : String(err);
+        lineError(first.line, `${t(lang, "csv_import_unknown_error")} ${msg}`);
       }
+    }
 
-      return negative ? `-${result}` : result;
+    onProgress?.({ kind: "kraken", current: groupList.length, total: groupList.length });
+
+    normalizeLinkedTransactionGraph(items);
+    saveStagedTransactions(staging, items);
+
+    return {
+      imported: importedCount,
+      errors,
     };
+  }
 
-    doc.setFontSize(16);
-    doc.text(title, marginLeft, marginTop);
-    doc.setFontSize(10);
-    doc.text(`${generatedLabel} ${dateStr}`, marginLeft, marginTop + 6);
+  async importCoinbaseCsv(lang: Language, file: File, staging: ImportStaging): Promise<CsvImportResult> {
+    const text = await file.text();
+    const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
+
+    // The export starts with a few preamble lines (report notice, user info)
+    // before the actual header row.
+    const headerIndex = lines.findIndex(
+      (l) => l.includes("Timestamp") && l.includes("Transaction Type"),
+    );
+    if (headerIndex === -1) {
+      return {
+        imported: 0,
+        errors: [t(lang, "csv_import_coinbase_header_not_found")],
+      };
+    }
+
+    const headerCols = parseCsvLine(lines[headerIndex]).map((c) =>
+      c.replace(/^"+|"+$/g, "").trim(),
+    );
+    const required = ["Timestamp", "Transaction Type", "Asset", "Quantity Transacted"];
+    const missing = required.filter((r) => !headerCols.includes(r));
+    if (missing.length > 0) {
+      return {
+        imported: 0,
+        errors: [
+          `${t(lang, "external_import_missing_columns_prefix")} ${missing.join(", ")}`,
+        ],
+      };
+    }
+
+    // Older exports prefix the price columns with "Spot".
+    const priceCurrencyCol = headerCols.includes("Price Currency")
+      ? "Price Currency"
+      : "Spot Price Currency";
+    const priceCol = headerCols.includes("Price at Transaction")
+      ? "Price at Transaction"
+      : "Spot Price at Transaction";
+    const totalCol =
+      headerCols.find((c) => c.startsWith("Total")) ?? "Total (inclusive of fees and/or spread)";
+
+    const items = loadStagedTransactions(staging);
+    const existingKeys = new Set<string>(items.map((tx) => buildTransactionDedupKey(tx)));
+    const errors: string[] = [];
+    let importedCount = 0;
+
+    const lineError = (line: number, message: string) => {
+      errors.push(`${t(lang, "csv_import_error_line_prefix")} ${line}: ${message}`);
+    };
+
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+      const cols = parseCsvLine(lines[i]);
+      const record: Record<string, string> = {};
+      headerCols.forEach((colName, idx) => {
+        record[colName] = (cols[idx] ?? "").replace(/^"+|"+$/g, "").trim();
+      });
+
+      try {
+        const typeRaw = record["Transaction Type"] || "";
+        const typeLower = typeRaw.toLowerCase();
+        const assetSymbol = (record["Asset"] || "").toUpperCase();
+        const quantity = Math.abs(parseCoinbaseNumber(record["Quantity Transacted"]) ?? NaN);
+
+        const date = new Date(
+          (record["Timestamp"] || "").replace(/ UTC$/, "Z").replace(" ", "T"),
+        );
+        if (isNaN(date.getTime()) || !assetSymbol || !Number.isFinite(quantity) || quantity === 0) {
+          lineError(i + 1, t(lang, "csv_import_unknown_error"));
+          continue;
+        }
+        const timestamp = date.toISOString();
+
+        // Fiat deposits and withdrawals do not touch crypto holdings.
+        if (isFiatSymbol(assetSymbol)) {
+          continue;
+        }
+
+        let txType: string | null = null;
+        if (typeLower === "buy" || typeLower === "advanced trade buy") {
+          txType = "BUY";
+        } else if (typeLower === "sell" || typeLower === "advanced trade sell") {
+          txType = "SELL";
+        } else if (typeLower === "convert") {
+          txType = "SELL";
+        } else if (typeLower === "send") {
+          txType = "TRANSFER_OUT";
+        } else if (typeLower === "receive") {
+          txType = "TRANSFER_IN";
+        } else if (typeLower === "staking income" || typeLower === "inflation reward") {
+          txType = "STAKING_REWARD";
+        } else if (typeLower === "rewards income" || typeLower === "learning reward") {
+          txType = "REWARD";
+        }
+        if (!txType) {
+          lineError(i + 1, `${t(lang, "csv_import_coinbase_unsupported_type")} ${typeRaw}`);
+          continue;
+        }
+
+        if (!getAssetMetadata(assetSymbol)) {
+          lineError(i + 1, `${t(lang, "external_import_unsupported_asset_prefix")} ${assetSymbol}`);
+          continue;
+        }
+
+        const fiatCurrency = (record[priceCurrencyCol] || "").toUpperCase() || "USD";
+        const price = parseCoinbaseNumber(record[priceCol]);
+        const subtotal = parseCoinbaseNumber(record["Subtotal"]);
+        const total = parseCoinbaseNumber(record[totalCol]);
+        const fee = parseCoinbaseNumber(record["Fees and/or Spread"]);
+        const feeAmount = fee != null && fee !== 0 ? Math.abs(fee) : null;
+
+        // Subtotal excludes fees and spread; fall back to the spot price.
+        let fiatValue: number | null = null;
+        if (subtotal != null && subtotal !== 0) {
+          fiatValue = Math.abs(subtotal);
+        } else if (price != null) {
+          fiatValue = Math.abs(price) * quantity;
+        } else if (total != null) {
+          fiatValue = Math.abs(total);
+        }
+
+        const id = record["ID"] || "";
+        const note = id ? `Coinbase ${typeRaw} ${id}` : `Coinbase ${typeRaw}`;
+
+        const buildTx = (asset: string, type: string, amount: number, legFee: number | null): Transaction => {
+          const priceFiat = fiatValue != null ? fiatValue / amount : null;
+          return {
+            id: getNextStagedId(staging),
+            asset_symbol: asset,
+            tx_type: type,
+            amount,
+            price_fiat: priceFiat,
+            fiat_currency: fiatCurrency,
+            timestamp,
+            source: "COINBASE",
+            note,
+            tx_id: null,
+            fiat_value: fiatValue,
+            value_eur: null,
+            value_usd: null,
+            fee_amount: legFee,
+            fee_asset: legFee != null ? fiatCurrency : null,
+            fee_fiat_value: legFee,
+          };
+        };
+
+        const txs: Transaction[] = [];
+        if (typeLower === "convert") {
+          // "Converted 0.5 ETH to 0.025 BTC": the received side only lives in the notes.
+          const match = /converted\s+([\d.,]+)\s+(\S+)\s+to\s+([\d.,]+)\s+(\S+)/i.exec(
+            record["Notes"] || "",
+          );
+          const targetAmount = match ? parseCoinbaseNumber(match[3]) : null;
+          const targetSymbol = match ? match[4].toUpperCase() : "";
+          if (!targetSymbol || targetAmount == null || targetAmount === 0) {
+            lineError(i + 1, t(lang, "csv_import_coinbase_convert_unparsed"));
+            continue;
+          }
+          if (!getAssetMetadata(targetSymbol)) {
+            lineError(i + 1, `${t(lang, "external_import_unsupported_asset_prefix")} ${targetSymbol}`);
+            continue;
+          }
+          // The spread reduces the proceeds of the sell leg.
+          const sellLeg = buildTx(assetSymbol, "SELL", quantity, feeAmount);
+          const buyLeg = buildTx(targetSymbol, "BUY", Math.abs(targetAmount), null);
+          sellLeg.linked_tx_next_id = buyLeg.id;
+          buyLeg.linked_tx_prev_id = sellLeg.id;
+          txs.push(sellLeg, buyLeg);
+        } else {
+          txs.push(buildTx(assetSymbol, txType, quantity, feeAmount));
+        }
+
+        const keys = txs.map((tx) => buildTransactionDedupKey(tx));
+        if (keys.some((key) => existingKeys.has(key))) {
+          reportDuplicate(
+            staging,
+            `${t(lang, "csv_import_error_line_prefix")} ${i + 1}: duplicate transaction detected (skipped).`,
+            txs[0],
+          );
+          continue;
+        }
+        keys.forEach((key) => existingKeys.add(key));
+        items.push(...txs);
+        importedCount += 1;
+      } catch (err) {
+        console.error("Failed to import Coinbase row", err);
+        const msg = err instanceof Error ? err.message : String(err);
+        lineError(i + 1, `${t(lang, "csv_import_unknown_error")} ${msg}`);
+      }
+    }
+
+    normalizeLinkedTransactionGraph(items);
+    saveStagedTransactions(staging, items);
+
+    return {
+      imported: importedCount,
+      errors,
+    };
+  }
+
+
+  async readImportTable(file: File): Promise<ImportTable> {
+    let cells: string[][];
+
+    if (/\.xlsx?$/i.test(file.name)) {
+      const XLSX = await getXlsxModule();
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      // raw:false returns the displayed text, so dates and numbers go through
+      // the same format settings as CSV values.
+      const rows = sheet
+        ? (XLSX.utils.sheet_to_json(sheet, { header: 1, defval: "", raw: false }) as unknown[][])
+        : [];
+      cells = rows.map((row) => row.map((cell) => String(cell ?? "").trim()));
+    } else {
+      const lines = normalizeCsvText(await file.text())
+        .split(/\r?\n/)
+        .filter((l) => l.trim().length > 0);
+      const header = lines[0] ?? "";
+      const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+        header.split(candidate).length > header.split(best).length ? candidate : best,
+      );
+      cells = lines.map((line) =>
+        parseCsvLine(line, delimiter).map((cell) => cell.replace(/^"+|"+$/g, "").trim()),
+      );
+    }
+
+    const nonEmpty = cells.filter((row) => row.some((cell) => cell !== ""));
+    const [headers = [], ...rows] = nonEmpty;
+    return { headers, rows };
+  }
+
+  async listImportTemplates(): Promise<ImportTemplate[]> {
+    return getActiveProfileImportTemplates();
+  }
+
+  async saveImportTemplate(template: ImportTemplate): Promise<ImportTemplate> {
+    const templates = getActiveProfileImportTemplates();
+    const saved: ImportTemplate = {
+      ...template,
+      id: template.id || generateImportId("template"),
+      name: template.name.trim() || "Template",
+    };
+    const exists = templates.some((item) => item.id === saved.id);
+    setActiveProfileImportTemplates(
+      exists
+        ? templates.map((item) => (item.id === saved.id ? saved : item))
+        : [...templates, saved],
+    );
+    return saved;
+  }
+
+  async deleteImportTemplate(id: string): Promise<void> {
+    setActiveProfileImportTemplates(
+      getActiveProfileImportTemplates().filter((item) => item.id !== id),
+    );
+  }
+
+  async importMappedTable(
+    lang: Language,
+    table: ImportTable,
+    template: ImportTemplate,
+    staging: ImportStaging,
+  ): Promise<CsvImportResult> {
+    const items = loadStagedTransactions(staging);
+    const existingKeys = new Set<string>(items.map((tx) => buildTransactionDedupKey(tx)));
+    const errors: string[] = [];
+    let importedCount = 0;
+
+    table.rows.forEach((row, index) => {
+      const line = index + 2; // +2 because the header is line 1
+      const result = mapImportRow(table.headers, row, template);
+      if (!result.ok) {
+        errors.push(
+          `${t(lang, "csv_import_error_line_prefix")} ${line}: ${t(
+            lang,
+            `import_wizard_error_${result.error}`,
+          )} ${result.detail}`,
+        );
+        return;
+      }
+
+      const tx: Transaction = { id: getNextStagedId(staging), ...result.transaction };
+      const key = buildTransactionDedupKey(tx);
+      if (existingKeys.has(key)) {
+        reportDuplicate(
+          staging,
+          `${t(lang, "csv_import_error_line_prefix")} ${line}: duplicate transaction detected (skipped).`,
+          tx,
+        );
+        return;
+      }
+
+      items.push(tx);
+      existingKeys.add(key);
+      importedCount += 1;
+    });
+
+    saveStagedTransactions(staging, items);
+
+    return {
+      imported: importedCount,
+      errors,
+    };
+  }
 
-    const headerYStart = marginTop + 16;
-    let y = headerYStart;
+  async previewImport(
+    kind: ImportKind,
+    file: File,
+    run: (staging: ImportStaging) => Promise<CsvImportResult>,
+  ): Promise<ImportPreview> {
+    const fileHash = await hashImportFile(file);
+    const before = loadLocalTransactions();
+    const staging: ImportStaging = {
+      transactions: before,
+      next_id: peekNextActiveProfileTxId(),
+      duplicates: [],
+    };
+
+    this.pendingImport = null;
+    const result = await run(staging);
+
+    const after = staging.transactions;
+    const beforeById = buildTxIndex(before);
+    const created = after.filter((tx) => !beforeById.has(tx.id));
+    const linkUpdates = after
+      .filter((tx) => {
+        const previous = beforeById.get(tx.id);
+        return (
+          !!previous &&
+          (previous.linked_tx_prev_id !== tx.linked_tx_prev_id ||
+            previous.linked_tx_next_id !== tx.linked_tx_next_id)
+        );
+      })
+      .map((tx) => ({
+        id: tx.id,
+        linked_tx_prev_id: tx.linked_tx_prev_id,
+        linked_tx_next_id: tx.linked_tx_next_id,
+      }));
+    // Rows skipped as duplicates still belong to the file's date range.
+    const range = getTimestampRange([
+      ...created,
+      ...staging.duplicates.map((dup) => dup.transaction),
+    ]);
+    const batch: ImportBatch = {
+      id: generateImportId("batch"),
+      kind,
+      file_name: file.name,
+      file_hash: fileHash,
+      imported_at: "",
+      transaction_count: created.length,
+      first_timestamp: range?.first ?? null,
+      last_timestamp: range?.last ?? null,
+    };
+    this.pendingImport = { created, linkUpdates, result, batch };
+
+    return {
+      transactions: created,
+      duplicates: staging.duplicates,
+      errors: result.errors,
+      holdings_delta: computeImportHoldingsDelta(before, after),
+      previous_imports: findMatchingImportBatches(batch, getActiveProfileImportBatches()),
+    };
+  }
+
+  async confirmImport(): Promise<CsvImportResult> {
+    const pending = this.pendingImport;
+    if (!pending) {
+      throw new Error("No pending import");
+    }
+    this.pendingImport = null;
+
+    const batch: ImportBatch = { ...pending.batch, imported_at: new Date().toISOString() };
+    // The profile may have changed since the preview, so the new rows are
+    // merged into the current transactions and only now get their ids.
+    const idMap = new Map<number, number>();
+    for (const tx of pending.created) {
+      idMap.set(tx.id, getNextLocalId());
+    }
+    const remapId = (id: number | null | undefined) => (id != null ? idMap.get(id) ?? id : id);
+
+    const items = loadLocalTransactions().map((tx) => ({ ...tx }));
+    const byId = buildTxIndex(items);
+    for (const update of pending.linkUpdates) {
+      const tx = byId.get(update.id);
+      if (!tx) continue;
+      tx.linked_tx_prev_id = remapId(update.linked_tx_prev_id);
+      tx.linked_tx_next_id = remapId(update.linked_tx_next_id);
+    }
+    for (const tx of pending.created) {
+      items.push({
+        ...tx,
+        id: idMap.get(tx.id) as number,
+        linked_tx_prev_id: remapId(tx.linked_tx_prev_id),
+        linked_tx_next_id: remapId(tx.linked_tx_next_id),
+        import_batch_id: batch.id,
+      });
+    }
+    // Links to rows deleted since the preview are dropped.
+    normalizeLinkedTransactionGraph(items);
+    // Imported deposits and withdrawals are paired with their other side right
+    // away. Pairs of older rows are left alone, the user may have unlinked them.
+    linkMatchedTransfers(items, loadLocalConfig(), new Set(idMap.values()));
+    assignAccountsFromSource(items);
+
+    saveLocalTransactions(items);
+    if (batch.transaction_count > 0) {
+      setActiveProfileImportBatches([...getActiveProfileImportBatches(), batch]);
+    }
+    return pending.result;
+  }
+
+  cancelImport(): void {
+    this.pendingImport = null;
+  }
+
+  async listImportBatches(): Promise<ImportBatch[]> {
+    return getActiveProfileImportBatches()
+      .slice()
+      .sort((a, b) => b.imported_at.localeCompare(a.imported_at));
+  }
+
+  async listAccounts(): Promise<Account[]> {
+    return getActiveProfileAccounts()
+      .slice()
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveAccount(account: Account): Promise<Account> {
+    const saved: Account = {
+      ...account,
+      id: account.id || generateImportId("account"),
+      name: account.name.trim(),
+      addresses: account.addresses.map((address) => address.trim()).filter((address) => address),
+    };
+    const accounts = getActiveProfileAccounts().filter((item) => item.id !== saved.id);
+    setActiveProfileAccounts([...accounts, saved]);
+    return saved;
+  }
+
+  async deleteAccount(id: string, moveToId: string | null): Promise<void> {
+    const target = moveToId && moveToId !== id ? moveToId : null;
+    const items = loadLocalTransactions().map((tx) =>
+      tx.account_id === id ? { ...tx, account_id: target } : tx,
+    );
+    saveLocalTransactions(items);
+    // Reported balances belong to the account itself; without a target they go too.
+    setActiveProfileReportedBalances(
+      getActiveProfileReportedBalances().flatMap((balance) =>
+        balance.account_id !== id ? [balance] : target ? [{ ...balance, account_id: target }] : [],
+      ),
+    );
+
+    const accounts = getActiveProfileAccounts();
+    const removedSource = accounts.find((item) => item.id === id)?.import_source ?? null;
+    setActiveProfileAccounts(
+      accounts
+        .filter((item) => item.id !== id)
+        // Future imports of the removed account's source follow its transactions.
+        .map((item) =>
+          item.id === target && removedSource && !item.import_source
+            ? { ...item, import_source: removedSource }
+            : item,
+        ),
+    );
+  }
+
+  async listBalanceReconciliations(): Promise<BalanceReconciliation[]> {
+    const transactions = loadLocalTransactions();
+    return getActiveProfileReportedBalances()
+      .map((balance) => reconcileBalance(transactions, balance))
+      .sort((a, b) => Date.parse(b.balance.timestamp) - Date.parse(a.balance.timestamp));
+  }
+
+  async saveReportedBalance(balance: Omit<ReportedBalance, "id">): Promise<ReportedBalance> {
+    const saved: ReportedBalance = {
+      ...balance,
+      id: generateImportId("balance"),
+      asset_symbol: balance.asset_symbol.trim().toUpperCase(),
+    };
+    setActiveProfileReportedBalances([...getActiveProfileReportedBalances(), saved]);
+    return saved;
+  }
+
+  async deleteReportedBalance(id: string): Promise<void> {
+    setActiveProfileReportedBalances(
+      getActiveProfileReportedBalances().filter((balance) => balance.id !== id),
+    );
+  }
+
+  async importReportedBalances(
+    lang: Language,
+    file: File,
+    accountId: string | null,
+    format: ReportedBalanceImportFormat,
+  ): Promise<CsvImportResult> {
+    const table = await this.readImportTable(file);
+    const findColumn = (pattern: RegExp) => table.headers.findIndex((header) => pattern.test(header));
+    const dateColumn = findColumn(/date|time|zeit|datum/i);
+    const assetColumn = findColumn(/asset|coin|currency|symbol|w(ä|ae)hrung/i);
+    const amountColumn = findColumn(/balance|amount|total|quantity|bestand|menge|saldo/i);
+    if (dateColumn === -1 || assetColumn === -1 || amountColumn === -1) {
+      return { imported: 0, errors: [t(lang, "reconcile_import_missing_columns")] };
+    }
+
+    const errors: string[] = [];
+    const balances: ReportedBalance[] = [];
+    table.rows.forEach((row, index) => {
+      const line = index + 2; // +2 because the header is line 1
+      const amount = parseImportNumber(row[amountColumn] ?? "", format.decimal_separator);
+      const timestamp = parseImportDate(row[dateColumn] ?? "", format.date_format, format.timezone);
+      const asset = (row[assetColumn] ?? "").trim().toUpperCase();
+      if (amount == null || !timestamp || !asset) {
+        errors.push(
+          `${t(lang, "csv_import_error_line_prefix")} ${line}: ${t(lang, "reconcile_import_invalid_row")}`,
+        );
+        return;
+      }
+      balances.push({
+        id: generateImportId("balance"),
+        account_id: accountId,
+        asset_symbol: asset,
+        timestamp,
+        amount,
+      });
+    });
+
+    setActiveProfileReportedBalances([...getActiveProfileReportedBalances(), ...balances]);
+    return { imported: balances.length, errors };
+  }
+
+  async matchTransfers(): Promise<number> {
+    const items = loadLocalTransactions().map((tx) => ({ ...tx }));
+    const linked = linkMatchedTransfers(items, loadLocalConfig());
+    if (linked > 0) {
+      saveLocalTransactions(items);
+    }
+    return linked;
+  }
+
+  async findDuplicateTransactions(
+    options: DuplicateFinderOptions,
+  ): Promise<DuplicateCandidatePair[]> {
+    return findDuplicateCandidates(
+      loadLocalTransactions(),
+      options,
+      new Set(getActiveProfileDismissedDuplicatePairs()),
+    );
+  }
+
+  async dismissDuplicatePair(key: string): Promise<void> {
+    const keys = getActiveProfileDismissedDuplicatePairs();
+    if (!keys.includes(key)) {
+      setActiveProfileDismissedDuplicatePairs([...keys, key]);
+    }
+  }
+
+  async mergeDuplicateTransactions(keepId: number, removeId: number): Promise<void> {
+    const items = loadLocalTransactions().map((tx) => ({ ...tx }));
+    const map = buildTxIndex(items);
+    const kept = map.get(keepId);
+    const removed = map.get(removeId);
+    if (!kept || !removed || keepId === removeId) {
+      throw new Error("Duplicate pair not found");
+    }
+
+    kept.tx_id = kept.tx_id || removed.tx_id || null;
+    kept.source = kept.source || removed.source || null;
+    kept.value_eur = kept.value_eur ?? removed.value_eur ?? null;
+    kept.value_usd = kept.value_usd ?? removed.value_usd ?? null;
+    // Fiat amounts are only comparable in the same currency.
+    const sameCurrency = kept.fiat_currency === removed.fiat_currency;
+    if (sameCurrency) {
+      kept.price_fiat = kept.price_fiat ?? removed.price_fiat ?? null;
+      kept.fiat_value = kept.fiat_value ?? removed.fiat_value ?? null;
+    }
+    // The fee is taken as a whole so that amount, asset and value stay together.
+    if (kept.fee_amount == null && removed.fee_amount != null) {
+      kept.fee_amount = removed.fee_amount;
+      kept.fee_asset = removed.fee_asset ?? null;
+      kept.fee_fiat_value = sameCurrency ? removed.fee_fiat_value ?? null : null;
+    } else if (
+      kept.fee_fiat_value == null &&
+      sameCurrency &&
+      kept.fee_amount === removed.fee_amount &&
+      kept.fee_asset === removed.fee_asset
+    ) {
+      kept.fee_fiat_value = removed.fee_fiat_value ?? null;
+    }
+
+    const removedPrev = sanitizeLinkedTxId(removed.linked_tx_prev_id);
+    const removedNext = sanitizeLinkedTxId(removed.linked_tx_next_id);
+    if (kept.linked_tx_prev_id == null && removedPrev != null && removedPrev !== keepId) {
+      kept.linked_tx_prev_id = removedPrev;
+    }
+    if (kept.linked_tx_next_id == null && removedNext != null && removedNext !== keepId) {
+      kept.linked_tx_next_id = removedNext;
+    }
+
+    const filtered = items.filter((tx) => tx.id !== removeId);
+    for (const tx of filtered) {
+      if (tx.id === keepId) continue;
+      if (tx.linked_tx_prev_id === removeId) {
+        tx.linked_tx_prev_id = kept.linked_tx_next_id === tx.id ? keepId : null;
+      }
+      if (tx.linked_tx_next_id === removeId) {
+        tx.linked_tx_next_id = kept.linked_tx_prev_id === tx.id ? keepId : null;
+      }
+    }
+
+    normalizeLinkedTransactionGraph(filtered);
+    saveLocalTransactions(filtered);
+  }
+
+  async undoImportBatch(batchId: string): Promise<number> {
+    const items = loadLocalTransactions();
+    const remaining = items.filter((tx) => tx.import_batch_id !== batchId);
+    const removed = items.length - remaining.length;
+
+    // Links from older transactions into the batch (e.g. a Binance quote leg
+    // added to an existing base leg) become dangling and are dropped here.
+    normalizeLinkedTransactionGraph(remaining);
+    saveLocalTransactions(remaining);
+    setActiveProfileImportBatches(
+      getActiveProfileImportBatches().filter((batch) => batch.id !== batchId),
+    );
+    return removed;
+  }
+
+  async computeIncomeReport(transactions: Transaction[]): Promise<IncomeReport> {
+    const config = loadLocalConfig();
+    const baseCurrency = config.base_currency === "USD" ? "USD" : "EUR";
+    const receipts = await valueIncomeReceipts(
+      transactions,
+      baseCurrency,
+      config.price_fetch_enabled !== false,
+    );
+    return buildIncomeReport(receipts, baseCurrency);
+  }
+
+  async exportPdf(lang: Language, transactions?: Transaction[]): Promise<Blob> {
+    const txs = transactions ?? loadLocalTransactions();
+    const config = loadLocalConfig();
+
+    // Map internal transaction type codes to human-readable labels in the PDF.
+    // The internal codes are kept unchanged for storage and processing.
+    const formatTxTypeForPdf = (txType: string | null | undefined): string => {
+      const code = (txType || "").toUpperCase();
+      switch (code) {
+        case "STAKING_REWARD":
+          return "STAKING\nREWARD";
+        case "TRANSFER_IN":
+          return "TRANSFER\n(IN)";
+        case "TRANSFER_OUT":
+          return "TRANSFER\n(OUT)";
+        case "TRANSFER_INTERNAL":
+          return "TRANSFER\n(INTERNAL)";
+        default:
+          return code;
+      }
+    };
+
+    // Use landscape orientation for better column layout
+    const doc = new jsPDF({ orientation: "landscape" });
+
+    const formatNumber = (value: number | null): string => formatPdfNumber(value, lang);
+
+    const y = drawPdfTitle(doc, lang, t(lang, "pdf_title"));
+    const usableWidth = getPdfUsableWidth(doc);
 
     const colId = t(lang, "pdf_col_id");
     const colTime = t(lang, "pdf_col_time");
@@ -2022,122 +3846,229 @@ if (txType === "TRANSFER_IN" || txType === "TRANSFER_OUT") {
 
     const colX: number[] = [];
     {
-      let acc = marginLeft;
+      let acc = PDF_MARGIN_LEFT;
       for (let i = 0; i < colWidths.length; i++) {
         colX.push(acc);
         acc += colWidths[i] + (i < colGaps.length ? colGaps[i] : 0);
       }
     }
 
-    const tableFontSize = 9;
-    const tableFontFamily = "times";
-    const lineHeight = 4.5;
-
-    doc.setFontSize(tableFontSize);
-    doc.setFont(tableFontFamily, "bold");
-    headers.forEach((h, idx) => {
-      doc.text(h, colX[idx], y);
+    const tableEndY = drawPdfTable(doc, {
+      headers,
+      rows,
+      colX,
+      colWidths,
+      startY: y,
+      wrapColumns,
+      // Chain is formatted as exactly two lines (Next/Prev), Type breaks long codes.
+      lineBreakColumns: new Set<number>([1, 4]),
+      links: { column: 10, urls: txIdLinks },
     });
 
-    doc.setFont(tableFontFamily, "normal");
-    y += lineHeight + 1;
-
-    let globalRowIndex = 0;
+    drawPdfDisclaimer(doc, lang, tableEndY);
 
-    const drawHeader = () => {
-      doc.setFontSize(tableFontSize);
-      doc.setFont(tableFontFamily, "bold");
-      y = headerYStart;
-      headers.forEach((h, idx) => {
-        doc.text(h, colX[idx], y);
-      });
-      doc.setFont(tableFontFamily, "normal");
-      y += lineHeight + 1;
-    };
+    return doc.output("blob") as Blob;
+  }
 
-    for (const rowValues of rows) {
-      const wrapped: string[][] = rowValues.map((val, idx) => {
-        const text = String(val ?? "");
-        if (!text) {
-          return [""];
-        }
-        // For the Chain and Type columns we always respect manual line breaks.
-        // This keeps the table layout deterministic and avoids unintended wrapping.
-        // (Chain is formatted as exactly two lines: Next/Prev.)
-        if (idx === 1 || idx === 4) {
-          const parts = text.split("\n");
-          return parts.length > 0 ? parts : [text];
-        }
-        if (!wrapColumns.has(idx)) {
-          return [text];
-        }
-        const cellWidth = colWidths[idx] - 2; // small inner padding
-        const width = cellWidth > 0 ? cellWidth : 1;
-        return doc.splitTextToSize(text, width) as string[];
-      });
+  async exportPrivateSalesReportPdf(lang: Language, report: PrivateSalesReport): Promise<Blob> {
+    const doc = new jsPDF({ orientation: "landscape" });
 
-      const maxLines = wrapped.reduce(
-        (max, lines) => (lines.length > max ? lines.length : max),
-        1,
-      );
-      const rowHeight = maxLines * lineHeight + 2;
+    const formatDate = (iso: string): string => (iso ? iso.slice(0, 10) : "");
+    const formatMoney = (value: number | null): string => formatPdfMoney(value, lang) || "–";
+    const methodLabel = t(lang, `cost_basis_method_${report.cost_basis_method.toLowerCase()}`);
 
-      // Page break if needed
-      if (y + rowHeight > pageHeight - marginBottom) {
-        doc.addPage("a4", "landscape");
-        doc.setFontSize(tableFontSize);
-        drawHeader();
-      }
+    let y = drawPdfTitle(doc, lang, `${t(lang, "tax_de_pdf_title")} ${report.year}`);
+    doc.setFontSize(10);
+    doc.text(
+      `${t(lang, "cost_basis_method_label")}: ${methodLabel} · ${t(lang, "holding_config_days_label")}: ${report.holding_period_days} · EUR`,
+      PDF_MARGIN_LEFT,
+      y,
+    );
+    y += 10;
 
-      // Zebra striping: even rows get a light grey background
-      if (globalRowIndex % 2 === 1) {
-        doc.setFillColor(240, 240, 240);
-        doc.rect(marginLeft, y - lineHeight + 1, usableWidth, rowHeight, "F");
-      }
+    y = drawPdfSectionTitle(doc, t(lang, "tax_de_section_sales"), y);
+    if (report.rows.length === 0) {
+      doc.setFontSize(PDF_TABLE_FONT_SIZE);
+      doc.text(t(lang, "tax_de_no_sales"), PDF_MARGIN_LEFT, y);
+      y += PDF_LINE_HEIGHT;
+    } else {
+      const headers = [
+        t(lang, "pdf_col_asset"),
+        t(lang, "pdf_col_amount"),
+        t(lang, "tax_de_col_acquired"),
+        t(lang, "tax_de_col_sold"),
+        t(lang, "tax_de_col_days_held"),
+        t(lang, "tax_de_col_proceeds"),
+        t(lang, "tax_de_col_cost"),
+        t(lang, "tax_de_col_gain"),
+      ];
+      const rows = report.rows.map((row) => [
+        row.asset_symbol,
+        formatPdfNumber(row.amount, lang),
+        formatDate(row.acquired_at),
+        formatDate(row.disposed_at),
+        String(row.holding_days),
+        formatMoney(row.proceeds),
+        formatMoney(row.cost_basis),
+        formatMoney(row.gain),
+      ]);
+      y = drawPdfTable(doc, { headers, rows, startY: y, ...computePdfColumnLayout(doc, headers, rows) });
+    }
 
-      // Write cell texts
-      wrapped.forEach((lines, idx) => {
-        const cellX = colX[idx] + 1;
-        let lineY = y;
-
-        for (const line of lines) {
-          doc.text(String(line), cellX, lineY);
-
-          // Add an invisible clickable link for the TX-ID column (column index 10)
-          if (idx === 10) {
-            const link = txIdLinks[globalRowIndex] || null;
-            if (link && line === lines[0]) {
-              const cellWidth = colWidths[idx] - 2;
-              const width = cellWidth > 0 ? cellWidth : 1;
-              const height = rowHeight - 2;
-              try {
-                doc.link(cellX, y, width, height, { url: link });
-              } catch {
-                // ignore link errors to avoid breaking PDF generation
-              }
-            }
-          }
+    y = drawPdfSectionTitle(doc, t(lang, "tax_de_section_anlage_so"), y + 6);
+    {
+      const headers = [
+        t(lang, "pdf_col_asset"),
+        t(lang, "tax_de_col_acquired"),
+        t(lang, "tax_de_col_sold"),
+        t(lang, "tax_de_col_proceeds"),
+        t(lang, "tax_de_col_cost"),
+        t(lang, "tax_de_col_gain"),
+      ];
+      const rows = report.subtotals.map((subtotal) => [
+        subtotal.asset_symbol,
+        formatDate(subtotal.first_acquired_at),
+        formatDate(subtotal.last_disposed_at),
+        formatMoney(subtotal.proceeds),
+        formatMoney(subtotal.cost_basis),
+        formatMoney(subtotal.gain),
+      ]);
+      rows.push([
+        t(lang, "tax_de_total"),
+        "",
+        "",
+        formatMoney(report.proceeds),
+        formatMoney(report.cost_basis),
+        formatMoney(report.gain),
+      ]);
+      y = drawPdfTable(doc, { headers, rows, startY: y, ...computePdfColumnLayout(doc, headers, rows) });
+    }
 
-          lineY += lineHeight;
-        }
-      });
+    y = drawPdfSectionTitle(doc, t(lang, "tax_de_section_summary"), y + 6);
+    {
+      const headers = ["", "EUR"];
+      const rows = [
+        [t(lang, "tax_de_col_gain"), formatMoney(report.gain)],
+        [`${t(lang, "tax_de_exemption_limit")} ${report.year}`, formatMoney(report.exemption_limit)],
+        [t(lang, "tax_de_taxable_gain"), formatMoney(report.taxable_gain)],
+      ];
+      y = drawPdfTable(doc, { headers, rows, startY: y, ...computePdfColumnLayout(doc, headers, rows, 40) });
+    }
 
-      y += rowHeight;
-      globalRowIndex += 1;
+    const notes = [
+      report.gain < 0
+        ? t(lang, "tax_de_status_loss")
+        : report.exempt
+          ? t(lang, "tax_de_status_exempt")
+          : t(lang, "tax_de_status_taxable"),
+      t(lang, "tax_de_freigrenze_hint"),
+    ];
+    if (report.unvalued_count > 0) {
+      notes.push(t(lang, "tax_de_unvalued_hint"));
     }
+    doc.setFontSize(PDF_TABLE_FONT_SIZE);
+    const noteLines = doc.splitTextToSize(notes.join(" "), getPdfUsableWidth(doc)) as string[];
+    doc.text(noteLines, PDF_MARGIN_LEFT, y + 4);
+    y += 4 + noteLines.length * PDF_LINE_HEIGHT;
 
-    const disclaimer = t(lang, "pdf_disclaimer");
+    drawPdfDisclaimer(doc, lang, y);
 
-    doc.setFontSize(8);
-    const disclaimerLines = doc.splitTextToSize(disclaimer, usableWidth) as string[];
-    let disclaimerY = y + 8;
+    return doc.output("blob") as Blob;
+  }
 
-    if (disclaimerY + disclaimerLines.length * (lineHeight - 1) > pageHeight - marginBottom) {
-      doc.addPage("a4", "landscape");
-      disclaimerY = marginTop;
+  async exportForm8949Pdf(lang: Language, report: Form8949Report): Promise<Blob> {
+    const doc = new jsPDF({ orientation: "landscape" });
+
+    const formatMoney = (value: number | null): string => formatPdfMoney(value, lang) || "–";
+    const methodLabel = t(lang, `cost_basis_method_${report.cost_basis_method.toLowerCase()}`);
+
+    let y = drawPdfTitle(doc, lang, `${t(lang, "us_8949_pdf_title")} ${report.year}`);
+    doc.setFontSize(10);
+    doc.text(`${t(lang, "cost_basis_method_label")}: ${methodLabel} · USD`, PDF_MARGIN_LEFT, y);
+    y += 10;
+
+    const headers = [
+      t(lang, "us_8949_col_description"),
+      t(lang, "us_8949_col_acquired"),
+      t(lang, "us_8949_col_sold"),
+      t(lang, "us_8949_col_proceeds"),
+      t(lang, "us_8949_col_cost"),
+      t(lang, "us_8949_col_gain"),
+    ];
+    const parts: [string, Form8949Row[]][] = [
+      [t(lang, "us_8949_short_term"), report.short_term],
+      [t(lang, "us_8949_long_term"), report.long_term],
+    ];
+
+    for (const [title, partRows] of parts) {
+      y = drawPdfSectionTitle(doc, title, y);
+      if (partRows.length === 0) {
+        doc.setFontSize(PDF_TABLE_FONT_SIZE);
+        doc.text(t(lang, "us_8949_empty"), PDF_MARGIN_LEFT, y);
+        y += PDF_LINE_HEIGHT + 6;
+        continue;
+      }
+      const rows = partRows.map((row) => [
+        row.description,
+        formatForm8949Date(row.date_acquired),
+        formatForm8949Date(row.date_sold),
+        formatMoney(row.proceeds),
+        formatMoney(row.cost_basis),
+        formatMoney(row.gain),
+      ]);
+      y = drawPdfTable(doc, { headers, rows, startY: y, ...computePdfColumnLayout(doc, headers, rows) });
+      y += 6;
+    }
+
+    y = drawPdfSectionTitle(doc, t(lang, "us_8949_schedule_d_title"), y);
+    {
+      const summaryHeaders = [
+        t(lang, "us_8949_col_term"),
+        t(lang, "us_8949_col_rows"),
+        t(lang, "us_8949_col_proceeds"),
+        t(lang, "us_8949_col_cost"),
+        t(lang, "us_8949_col_gain"),
+      ];
+      const { short_term_totals: st, long_term_totals: lt } = report;
+      const rows = [
+        [
+          t(lang, "us_8949_term_short"),
+          String(st.row_count),
+          formatMoney(st.proceeds),
+          formatMoney(st.cost_basis),
+          formatMoney(st.gain),
+        ],
+        [
+          t(lang, "us_8949_term_long"),
+          String(lt.row_count),
+          formatMoney(lt.proceeds),
+          formatMoney(lt.cost_basis),
+          formatMoney(lt.gain),
+        ],
+        [
+          t(lang, "us_8949_total"),
+          String(st.row_count + lt.row_count),
+          formatMoney(st.proceeds + lt.proceeds),
+          formatMoney(st.cost_basis + lt.cost_basis),
+          formatMoney(st.gain + lt.gain),
+        ],
+      ];
+      y = drawPdfTable(doc, {
+        headers: summaryHeaders,
+        rows,
+        startY: y,
+        ...computePdfColumnLayout(doc, summaryHeaders, rows),
+      });
+    }
+
+    if (report.unvalued_count > 0) {
+      doc.setFontSize(PDF_TABLE_FONT_SIZE);
+      const noteLines = doc.splitTextToSize(t(lang, "us_8949_unvalued_hint"), getPdfUsableWidth(doc)) as string[];
+      doc.text(noteLines, PDF_MARGIN_LEFT, y + 4);
+      y += 4 + noteLines.length * PDF_LINE_HEIGHT;
     }
 
-    doc.text(disclaimerLines, marginLeft, disclaimerY);
+    drawPdfDisclaimer(doc, lang, y);
 
     return doc.output("blob") as Blob;
   }
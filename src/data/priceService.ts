@@ -244,6 +244,7 @@ const uniqueSymbols = Array.from(new Set(symbols.map((s) => s.toUpperCase())));
  *
  * This keeps the structure of the holdings and fills:
  * - per-asset `value_eur` / `value_usd`
+ * - per-asset `unrealized_pnl` against the cost basis in `baseCurrency`
  * - aggregate `portfolio_value_eur` / `portfolio_value_usd`
  *
  * FX rates are left as null for now.
@@ -315,6 +316,24 @@ function persistHistoricalPriceCache(): void {
   }
 }
 
+/**
+ * Return a snapshot of the historical (per date) price cache, for backups.
+ */
+export function getHistoricalPriceCacheSnapshot(): AssetPriceCache {
+  ensureHistoricalPriceCacheLoaded();
+  return { ...(historicalPriceCache ?? {}) };
+}
+
+/**
+ * Merge a historical price cache snapshot into the local one. Prices of past
+ * dates do not change, so entries that already exist locally are kept.
+ */
+export function hydrateHistoricalPriceCache(snapshot: AssetPriceCache): void {
+  ensureHistoricalPriceCacheLoaded();
+  historicalPriceCache = { ...snapshot, ...(historicalPriceCache ?? {}) };
+  persistHistoricalPriceCache();
+}
+
 function extractDateKey(timestampIso: string | null | undefined): string {
   if (!timestampIso) return "";
   // Expect an ISO string like "YYYY-MM-DDTHH:mm:ss" or "YYYY-MM-DD".
@@ -476,6 +495,7 @@ export function hydratePriceCache(snapshot: AssetPriceCache): void {
 
 export async function applyPricesToHoldings(
   holdings: HoldingsResponse,
+  baseCurrency: SupportedFiat = "EUR",
 ): Promise<HoldingsResponse> {
   const symbols = holdings.items.map((h) => h.asset_symbol);
   const prices = await fetchPricesForSymbols(symbols);
@@ -500,10 +520,17 @@ export async function applyPricesToHoldings(
       }
     }
 
+    const baseValue = baseCurrency === "USD" ? valueUsd : valueEur;
+    const unrealizedPnl =
+      baseValue != null && typeof item.cost_basis === "number"
+        ? baseValue - item.cost_basis
+        : null;
+
     return {
       ...item,
       value_eur: valueEur,
       value_usd: valueUsd,
+      unrealized_pnl: unrealizedPnl,
     };
   });
 
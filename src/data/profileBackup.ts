@@ -0,0 +1,134 @@
+import {
+  decryptJsonWithPassphrase,
+  encryptJsonWithPassphrase,
+  type EncryptedPayload,
+} from "../crypto/cryptoService";
+import {
+  createAdditionalProfile,
+  getActiveProfileDataSnapshot,
+  getActiveProfileSummary,
+  replaceActiveProfileData,
+  type ProfileDataPayload,
+  type ProfileSummary,
+} from "../auth/profileStore";
+import {
+  getHistoricalPriceCacheSnapshot,
+  getPriceCacheSnapshot,
+  hydrateHistoricalPriceCache,
+  hydratePriceCache,
+  type AssetPriceCache,
+} from "./priceService";
+
+/**
+ * Password-protected backup of a whole profile.
+ *
+ * The file is JSON with a small readable header and the profile data,
+ * including the price caches, encrypted with the backup password. It does not
+ * depend on the PIN, the data key or the instance it was written on, so it can
+ * be restored into any profile on any Traeky installation.
+ */
+
+export const PROFILE_BACKUP_FORMAT = "traeky-profile-backup";
+export const PROFILE_BACKUP_FILE_EXTENSION = "traeky-backup";
+
+export type ProfileBackupVersion = 1;
+
+export type ProfileBackupFile = {
+  format: typeof PROFILE_BACKUP_FORMAT;
+  version: ProfileBackupVersion;
+  created_at: string;
+  encrypted: EncryptedPayload;
+};
+
+export type ProfileBackupContents = {
+  profile_name: string;
+  data: ProfileDataPayload;
+  price_cache: AssetPriceCache;
+  historical_price_cache: AssetPriceCache;
+};
+
+export type ProfileBackupRestoreTarget =
+  | { kind: "active" }
+  | { kind: "new"; name: string; pin: string };
+
+/**
+ * Serialize the active profile into an encrypted backup file.
+ */
+export async function createProfileBackup(password: string): Promise<Blob> {
+  const summary = getActiveProfileSummary();
+  if (!summary) {
+    throw new Error("No active profile session");
+  }
+
+  const contents: ProfileBackupContents = {
+    profile_name: summary.name,
+    data: getActiveProfileDataSnapshot(),
+    price_cache: getPriceCacheSnapshot(),
+    historical_price_cache: getHistoricalPriceCacheSnapshot(),
+  };
+  const file: ProfileBackupFile = {
+    format: PROFILE_BACKUP_FORMAT,
+    version: 1,
+    created_at: new Date().toISOString(),
+    encrypted: await encryptJsonWithPassphrase(contents, password),
+  };
+  return new Blob([JSON.stringify(file)], { type: "application/json" });
+}
+
+/**
+ * Read and decrypt a backup file. Fails if the file is not a backup of a
+ * supported version or the password is wrong.
+ */
+export async function readProfileBackup(file: File, password: string): Promise<ProfileBackupContents> {
+  let parsed: ProfileBackupFile;
+  try {
+    parsed = JSON.parse(await file.text()) as ProfileBackupFile;
+  } catch {
+    throw new Error("Invalid backup file");
+  }
+  if (!parsed || parsed.format !== PROFILE_BACKUP_FORMAT || !parsed.encrypted) {
+    throw new Error("Invalid backup file");
+  }
+  if (parsed.version !== 1) {
+    throw new Error("Unsupported backup version");
+  }
+
+  const contents = await decryptJsonWithPassphrase<ProfileBackupContents>(parsed.encrypted, password);
+  if (!contents || !contents.data || contents.data.version !== 1) {
+    throw new Error("Unsupported profile data version");
+  }
+  return contents;
+}
+
+function mergePriceCaches(local: AssetPriceCache, restored: AssetPriceCache): AssetPriceCache {
+  const merged: AssetPriceCache = { ...local };
+  for (const [key, entry] of Object.entries(restored)) {
+    const current = merged[key];
+    if (!current || entry.fetched_at > current.fetched_at) {
+      merged[key] = entry;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Restore a backup, either replacing all data of the active profile or into a
+ * newly created profile, which becomes the active one.
+ */
+export async function restoreProfileBackup(
+  contents: ProfileBackupContents,
+  target: ProfileBackupRestoreTarget,
+): Promise<ProfileSummary> {
+  if (target.kind === "new") {
+    await createAdditionalProfile(target.name || contents.profile_name, target.pin);
+  }
+  const summary = getActiveProfileSummary();
+  if (!summary) {
+    throw new Error("No active profile session");
+  }
+
+  await replaceActiveProfileData(contents.data);
+  hydratePriceCache(mergePriceCaches(getPriceCacheSnapshot(), contents.price_cache ?? {}));
+  hydrateHistoricalPriceCache(contents.historical_price_cache ?? {});
+  return summary;
+}
@@ -5,4 +5,8 @@
  * e.g. in local-only mode.
  */
 export const DEFAULT_HOLDING_PERIOD_DAYS = 365;
-export const DEFAULT_UPCOMING_WINDOW_DAYS = 30;
\ No newline at end of file
+export const DEFAULT_UPCOMING_WINDOW_DAYS = 30;
+export const DEFAULT_COST_BASIS_METHOD = "FIFO";
+export const DEFAULT_TRANSFER_MATCH_WINDOW_HOURS = 24;
+export const DEFAULT_TRANSFER_MATCH_FEE_TOLERANCE_PERCENT = 2;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
@@ -0,0 +1,446 @@
+import type { CostBasisMethod, HoldingsResponse, Transaction } from "./types";
+import { DEFAULT_COST_BASIS_METHOD } from "./config";
+import { getMatchedTransferPeer } from "./transfers";
+
+/**
+ * Cost-basis lot engine for Traeky.
+ *
+ * Acquisitions (BUY, AIRDROP, REWARD, STAKING_REWARD, TRANSFER_IN) open lots,
+ * disposals (SELL, TRANSFER_OUT) consume them per asset according to the
+ * selected cost-basis method. All monetary values are expressed in the
+ * profile's base currency and include transaction fees. A TRANSFER_OUT linked
+ * to its TRANSFER_IN is neither: the lots stay open with their original cost
+ * and acquisition date.
+ */
+
+export type BaseCurrency = "EUR" | "USD";
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ["FIFO", "LIFO", "HIFO", "AVERAGE"];
+
+export function normalizeCostBasisMethod(value: unknown): CostBasisMethod {
+  if (typeof value === "string") {
+    const upper = value.toUpperCase();
+    if ((COST_BASIS_METHODS as string[]).includes(upper)) {
+      return upper as CostBasisMethod;
+    }
+  }
+  return DEFAULT_COST_BASIS_METHOD;
+}
+
+export type TaxLot = {
+  transaction_id: number;
+  asset_symbol: string;
+  tx_type: string;
+  acquired_at: string;
+  original_amount: number;
+  remaining_amount: number;
+  /** Cost per unit in base currency, or null if the acquisition could not be valued. */
+  unit_cost: number | null;
+};
+
+export type RealizedGainEvent = {
+  disposal_transaction_id: number;
+  acquisition_transaction_id: number;
+  asset_symbol: string;
+  disposal_type: string;
+  amount: number;
+  acquired_at: string;
+  disposed_at: string;
+  proceeds: number | null;
+  cost_basis: number | null;
+  gain: number | null;
+  holding_days: number;
+};
+
+export type UnmatchedDisposal = {
+  transaction_id: number;
+  asset_symbol: string;
+  amount: number;
+  timestamp: string;
+};
+
+export type LotEngineResult = {
+  open_lots: TaxLot[];
+  realized: RealizedGainEvent[];
+  /** Disposed amounts for which no open lot was available (missing history). */
+  unmatched: UnmatchedDisposal[];
+};
+
+const ACQUISITION_TYPES = new Set(["BUY", "AIRDROP", "REWARD", "STAKING_REWARD", "TRANSFER_IN"]);
+const DISPOSAL_TYPES = new Set(["SELL", "TRANSFER_OUT"]);
+const FIAT_SYMBOLS = new Set(["EUR", "USD", "CHF", "GBP", "JPY", "AUD", "CAD", "CNY"]);
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+// Amounts below this threshold are treated as fully consumed to absorb float noise.
+const AMOUNT_EPSILON = 1e-12;
+
+export function isAcquisitionType(txType: string | null | undefined): boolean {
+  return ACQUISITION_TYPES.has((txType || "").toUpperCase());
+}
+
+export function isDisposalType(txType: string | null | undefined): boolean {
+  return DISPOSAL_TYPES.has((txType || "").toUpperCase());
+}
+
+export function isFiatSymbol(symbol: string | null | undefined): boolean {
+  return FIAT_SYMBOLS.has((symbol || "").toUpperCase());
+}
+
+/**
+ * Resolve the total value of a transaction in the base currency.
+ *
+ * The actually traded fiat value wins when it was recorded in the base
+ * currency; otherwise the enriched historical value (value_eur / value_usd)
+ * is used.
+ */
+export function getTransactionBaseValue(tx: Transaction, baseCurrency: BaseCurrency): number | null {
+  if (
+    (tx.fiat_currency || "").toUpperCase() === baseCurrency &&
+    typeof tx.fiat_value === "number" &&
+    Number.isFinite(tx.fiat_value)
+  ) {
+    return Math.abs(tx.fiat_value);
+  }
+  const enriched = baseCurrency === "USD" ? tx.value_usd : tx.value_eur;
+  if (typeof enriched === "number" && Number.isFinite(enriched)) {
+    return Math.abs(enriched);
+  }
+  return null;
+}
+
+function parseTime(timestamp: string | null | undefined): number {
+  const time = timestamp ? new Date(timestamp).getTime() : 0;
+  return Number.isFinite(time) ? time : 0;
+}
+
+export function computeHoldingDays(acquiredAt: string, disposedAt: string): number {
+  const diff = parseTime(disposedAt) - parseTime(acquiredAt);
+  return Math.max(0, Math.floor(diff / MS_PER_DAY));
+}
+
+function sortChronologically(transactions: Transaction[]): Transaction[] {
+  return transactions.slice().sort((a, b) => {
+    const delta = parseTime(a.timestamp) - parseTime(b.timestamp);
+    if (delta !== 0) return delta;
+    return (a.id ?? 0) - (b.id ?? 0);
+  });
+}
+
+/**
+ * Pick the index of the open lot that the next disposal consumes.
+ *
+ * AVERAGE consumes lots in FIFO order (for holding periods) but prices them
+ * at the pooled average cost, see computeCostBasisLots.
+ */
+function selectLotIndex(lots: TaxLot[], method: CostBasisMethod): number {
+  if (method === "LIFO") {
+    return lots.length - 1;
+  }
+  if (method === "HIFO") {
+    let best = 0;
+    for (let i = 1; i < lots.length; i++) {
+      const candidate = lots[i].unit_cost ?? Number.NEGATIVE_INFINITY;
+      const current = lots[best].unit_cost ?? Number.NEGATIVE_INFINITY;
+      if (candidate > current) {
+        best = i;
+      }
+    }
+    return best;
+  }
+  return 0;
+}
+
+/**
+ * Pooled unit cost over the valued open lots, or null if none is valued.
+ * Unvalued lots (e.g. an airdrop without price) stay outside the pool.
+ */
+function computePooledUnitCost(lots: TaxLot[]): number | null {
+  let amount = 0;
+  let cost = 0;
+  for (const lot of lots) {
+    if (lot.unit_cost == null) continue;
+    amount += lot.remaining_amount;
+    cost += lot.unit_cost * lot.remaining_amount;
+  }
+  return amount > AMOUNT_EPSILON ? cost / amount : null;
+}
+
+/**
+ * The part of a fee that is paid in a crypto asset and therefore reduces its
+ * holdings, or null for fiat or missing fees.
+ */
+export function getCryptoFee(tx: Transaction): { asset_symbol: string; amount: number } | null {
+  const asset = (tx.fee_asset || "").toUpperCase();
+  const amount = Math.abs(Number(tx.fee_amount ?? 0));
+  if (!asset || FIAT_SYMBOLS.has(asset) || !Number.isFinite(amount) || amount === 0) {
+    return null;
+  }
+  return { asset_symbol: asset, amount };
+}
+
+/**
+ * Resolve the fee of a transaction in the base currency.
+ *
+ * Fees that cannot be valued are treated as 0 so that they never turn an
+ * otherwise valued transaction into an unvalued one.
+ */
+export function getTransactionFeeBaseValue(tx: Transaction, baseCurrency: BaseCurrency): number {
+  const feeAsset = (tx.fee_asset || "").toUpperCase();
+  const feeAmount = Math.abs(Number(tx.fee_amount ?? 0));
+  if (!Number.isFinite(feeAmount)) {
+    return 0;
+  }
+  if (feeAsset === baseCurrency && feeAmount > 0) {
+    return feeAmount;
+  }
+
+  const baseValue = getTransactionBaseValue(tx, baseCurrency);
+  const feeFiat = tx.fee_fiat_value;
+  if (typeof feeFiat === "number" && Number.isFinite(feeFiat) && feeFiat !== 0) {
+    if ((tx.fiat_currency || "").toUpperCase() === baseCurrency) {
+      return Math.abs(feeFiat);
+    }
+    // Convert with the exchange ratio implied by the transaction itself.
+    const fiatValue = tx.fiat_value;
+    if (
+      baseValue != null &&
+      typeof fiatValue === "number" &&
+      Number.isFinite(fiatValue) &&
+      fiatValue !== 0
+    ) {
+      return (Math.abs(feeFiat) * baseValue) / Math.abs(fiatValue);
+    }
+  }
+
+  const amount = Math.abs(Number(tx.amount || 0));
+  const paidInAsset = feeAsset === (tx.asset_symbol || "").toUpperCase();
+  if (paidInAsset && feeAmount > 0 && amount > 0 && baseValue != null) {
+    return (baseValue / amount) * feeAmount;
+  }
+  return 0;
+}
+
+/**
+ * Remove an amount from the open lots in the order of the cost-basis method
+ * and report every consumed slice. Returns the amount no lot could cover.
+ */
+function consumeLots(
+  lots: TaxLot[],
+  amount: number,
+  method: CostBasisMethod,
+  onSlice?: (lot: TaxLot, take: number) => void,
+): number {
+  if (method === "AVERAGE" && lots.length > 0) {
+    // The pool keeps its average cost after a disposal, so every valued open
+    // lot is re-priced at the pooled average before it is consumed. Unvalued
+    // lots keep their missing cost instead of erasing the known ones.
+    const pooled = computePooledUnitCost(lots);
+    if (pooled != null) {
+      for (const lot of lots) {
+        if (lot.unit_cost != null) {
+          lot.unit_cost = pooled;
+        }
+      }
+    }
+  }
+
+  let remaining = amount;
+  while (remaining > AMOUNT_EPSILON && lots.length > 0) {
+    const lotIndex = selectLotIndex(lots, method);
+    const lot = lots[lotIndex];
+    const take = Math.min(lot.remaining_amount, remaining);
+    onSlice?.(lot, take);
+
+    lot.remaining_amount -= take;
+    remaining -= take;
+    if (lot.remaining_amount <= AMOUNT_EPSILON) {
+      lots.splice(lotIndex, 1);
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Match disposals against acquisition lots per asset.
+ *
+ * Transactions are processed chronologically; ties are broken by id so the
+ * result is deterministic. Fees are added to the cost of acquisitions and
+ * deducted from disposal proceeds; fees paid in crypto also consume lots of
+ * the fee asset. For a matched transfer only the amount lost on the way (the
+ * network fee) leaves the pool.
+ */
+export function computeCostBasisLots(
+  transactions: Transaction[],
+  baseCurrency: BaseCurrency,
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+): LotEngineResult {
+  const lotsBySymbol = new Map<string, TaxLot[]>();
+  const realized: RealizedGainEvent[] = [];
+  const unmatched: UnmatchedDisposal[] = [];
+  const byId = new Map(transactions.map((tx) => [tx.id, tx]));
+
+  for (const tx of sortChronologically(transactions)) {
+    const symbol = (tx.asset_symbol || "").toUpperCase();
+    const txType = (tx.tx_type || "").toUpperCase();
+    const amount = Math.abs(Number(tx.amount || 0));
+    const cryptoFee = getCryptoFee(tx);
+    const isTrackedAsset =
+      !!symbol && !FIAT_SYMBOLS.has(symbol) && Number.isFinite(amount) && amount !== 0;
+    let feeSettled = false;
+    const transferPeer = isTrackedAsset ? getMatchedTransferPeer(tx, byId) : null;
+
+    if (transferPeer) {
+      if (txType === "TRANSFER_OUT") {
+        // The network fee shows up as the difference between sent and
+        // received amount, or as an explicit fee in the same asset.
+        const received = Math.abs(Number(transferPeer.amount || 0));
+        const explicitFee =
+          cryptoFee != null && cryptoFee.asset_symbol === symbol ? cryptoFee.amount : 0;
+        const lost = Math.max(amount - received, explicitFee);
+        const lots = lotsBySymbol.get(symbol);
+        if (lots && lost > AMOUNT_EPSILON) {
+          consumeLots(lots, lost, method);
+        }
+        feeSettled = explicitFee > 0;
+      }
+    } else if (isTrackedAsset && ACQUISITION_TYPES.has(txType)) {
+      const value = getTransactionBaseValue(tx, baseCurrency);
+      // A fee in the acquired asset is paid out of the received coins and is
+      // already part of the price, so it only shrinks the lot.
+      const feeFromLot = cryptoFee != null && cryptoFee.asset_symbol === symbol;
+      const lotAmount = feeFromLot ? amount - cryptoFee.amount : amount;
+      const feeValue = feeFromLot ? 0 : getTransactionFeeBaseValue(tx, baseCurrency);
+      const cost = value != null ? value + feeValue : null;
+      feeSettled = feeFromLot;
+
+      if (lotAmount > AMOUNT_EPSILON) {
+        const lots = lotsBySymbol.get(symbol) ?? [];
+        lots.push({
+          transaction_id: tx.id,
+          asset_symbol: symbol,
+          tx_type: txType,
+          acquired_at: tx.timestamp,
+          original_amount: lotAmount,
+          remaining_amount: lotAmount,
+          unit_cost: cost != null ? cost / lotAmount : null,
+        });
+        lotsBySymbol.set(symbol, lots);
+      }
+    } else if (isTrackedAsset && DISPOSAL_TYPES.has(txType)) {
+      const lots = lotsBySymbol.get(symbol) ?? [];
+      const value = getTransactionBaseValue(tx, baseCurrency);
+      const totalProceeds = value != null ? value - getTransactionFeeBaseValue(tx, baseCurrency) : null;
+      const unitProceeds = totalProceeds != null ? totalProceeds / amount : null;
+
+      const remaining = consumeLots(lots, amount, method, (lot, take) => {
+        const proceeds = unitProceeds != null ? unitProceeds * take : null;
+        const costBasis = lot.unit_cost != null ? lot.unit_cost * take : null;
+        realized.push({
+          disposal_transaction_id: tx.id,
+          acquisition_transaction_id: lot.transaction_id,
+          asset_symbol: symbol,
+          disposal_type: txType,
+          amount: take,
+          acquired_at: lot.acquired_at,
+          disposed_at: tx.timestamp,
+          proceeds,
+          cost_basis: costBasis,
+          gain: proceeds != null && costBasis != null ? proceeds - costBasis : null,
+          holding_days: computeHoldingDays(lot.acquired_at, tx.timestamp),
+        });
+      });
+
+      if (remaining > AMOUNT_EPSILON) {
+        unmatched.push({
+          transaction_id: tx.id,
+          asset_symbol: symbol,
+          amount: remaining,
+          timestamp: tx.timestamp,
+        });
+      }
+    }
+
+    if (cryptoFee && !feeSettled) {
+      // The fee value is already part of the cost or proceeds above; the
+      // coins spent on it simply leave the pool.
+      const feeLots = lotsBySymbol.get(cryptoFee.asset_symbol);
+      if (feeLots) {
+        consumeLots(feeLots, cryptoFee.amount, method);
+      }
+    }
+  }
+
+  const open_lots: TaxLot[] = [];
+  for (const lots of lotsBySymbol.values()) {
+    open_lots.push(...lots);
+  }
+  open_lots.sort((a, b) => parseTime(a.acquired_at) - parseTime(b.acquired_at));
+
+  return { open_lots, realized, unmatched };
+}
+
+/**
+ * Attach cost basis and average cost of the remaining open lots to holdings.
+ *
+ * If any open lot of an asset could not be valued, its cost basis is left as
+ * null instead of reporting a misleadingly low figure.
+ */
+export function applyCostBasisToHoldings(
+  holdings: HoldingsResponse,
+  openLots: TaxLot[],
+): HoldingsResponse {
+  const totals = new Map<string, { amount: number; cost: number; complete: boolean }>();
+  for (const lot of openLots) {
+    const entry = totals.get(lot.asset_symbol) ?? { amount: 0, cost: 0, complete: true };
+    entry.amount += lot.remaining_amount;
+    if (lot.unit_cost == null) {
+      entry.complete = false;
+    } else {
+      entry.cost += lot.unit_cost * lot.remaining_amount;
+    }
+    totals.set(lot.asset_symbol, entry);
+  }
+
+  return {
+    ...holdings,
+    items: holdings.items.map((item) => {
+      const entry = totals.get(item.asset_symbol.toUpperCase());
+      if (!entry || !entry.complete || entry.amount <= AMOUNT_EPSILON) {
+        return { ...item, cost_basis: null, average_cost: null, unrealized_pnl: null };
+      }
+      return {
+        ...item,
+        cost_basis: entry.cost,
+        average_cost: entry.cost / entry.amount,
+        unrealized_pnl: null,
+      };
+    }),
+  };
+}
+
+export type RealizedGainSummary = {
+  proceeds: number;
+  cost_basis: number;
+  gain: number;
+  /** Number of matched lot slices that could not be valued and are excluded from the totals. */
+  unvalued_count: number;
+};
+
+/**
+ * Sum realized SELL events whose disposal falls into the given calendar year.
+ */
+export function summarizeRealizedGains(events: RealizedGainEvent[], year: number): RealizedGainSummary {
+  const summary: RealizedGainSummary = { proceeds: 0, cost_basis: 0, gain: 0, unvalued_count: 0 };
+  for (const event of events) {
+    if (event.disposal_type !== "SELL") continue;
+    if (new Date(event.disposed_at).getUTCFullYear() !== year) continue;
+    if (event.proceeds == null || event.cost_basis == null || event.gain == null) {
+      summary.unvalued_count += 1;
+      continue;
+    }
+    summary.proceeds += event.proceeds;
+    summary.cost_basis += event.cost_basis;
+    summary.gain += event.gain;
+  }
+  return summary;
+}
@@ -0,0 +1,103 @@
+import type { Transaction } from "./types";
+
+/**
+ * Fuzzy duplicate detection across sources.
+ *
+ * buildTransactionDedupKey only catches exact repeats of the same row. The
+ * same trade entered by hand and imported from an exchange differs in note,
+ * source and usually by a few seconds or a rounding digit, so it needs the
+ * looser comparison below.
+ */
+
+export const DEFAULT_DUPLICATE_AMOUNT_TOLERANCE_PERCENT = 0.5;
+export const DEFAULT_DUPLICATE_WINDOW_MINUTES = 60;
+
+export type DuplicateFinderOptions = {
+  /** Maximum relative amount difference, in percent of the larger amount. */
+  amount_tolerance_percent: number;
+  /** Maximum distance between the two timestamps. */
+  window_minutes: number;
+};
+
+export type DuplicateCandidatePair = {
+  /** Stable key of the pair, see buildDuplicatePairKey. */
+  key: string;
+  /** The earlier transaction of the pair. */
+  first: Transaction;
+  second: Transaction;
+  amount_diff_percent: number;
+  time_diff_minutes: number;
+};
+
+/** Order-independent key of two transaction ids, used to remember dismissed pairs. */
+export function buildDuplicatePairKey(aId: number, bId: number): string {
+  return aId < bId ? `${aId}:${bId}` : `${bId}:${aId}`;
+}
+
+function areLinked(a: Transaction, b: Transaction): boolean {
+  return (
+    a.linked_tx_next_id === b.id ||
+    a.linked_tx_prev_id === b.id ||
+    b.linked_tx_next_id === a.id ||
+    b.linked_tx_prev_id === a.id
+  );
+}
+
+/**
+ * Pairs of transactions with the same asset and type whose amounts and
+ * timestamps are within the given tolerances.
+ *
+ * Pairs that are linked to each other, carry different on-chain tx ids or were
+ * dismissed before are left out. The result is ordered by the earlier timestamp.
+ */
+export function findDuplicateCandidates(
+  transactions: Transaction[],
+  options: DuplicateFinderOptions,
+  dismissed: ReadonlySet<string>,
+): DuplicateCandidatePair[] {
+  const tolerance = Math.max(0, options.amount_tolerance_percent);
+  const windowMs = Math.max(0, options.window_minutes) * 60_000;
+
+  const groups = new Map<string, { tx: Transaction; ms: number }[]>();
+  for (const tx of transactions) {
+    const ms = Date.parse(tx.timestamp);
+    if (Number.isNaN(ms)) continue;
+    const key = `${(tx.asset_symbol || "").toUpperCase()}|${(tx.tx_type || "").toUpperCase()}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push({ tx, ms });
+    } else {
+      groups.set(key, [{ tx, ms }]);
+    }
+  }
+
+  const pairs: DuplicateCandidatePair[] = [];
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.ms - b.ms);
+    for (let i = 0; i < group.length; i += 1) {
+      const a = group[i];
+      for (let j = i + 1; j < group.length && group[j].ms - a.ms <= windowMs; j += 1) {
+        const b = group[j];
+        const key = buildDuplicatePairKey(a.tx.id, b.tx.id);
+        if (dismissed.has(key) || areLinked(a.tx, b.tx)) continue;
+        if (a.tx.tx_id && b.tx.tx_id && a.tx.tx_id !== b.tx.tx_id) continue;
+
+        const larger = Math.max(Math.abs(a.tx.amount), Math.abs(b.tx.amount));
+        const diffPercent =
+          larger > 0 ? (Math.abs(a.tx.amount - b.tx.amount) / larger) * 100 : 0;
+        if (diffPercent > tolerance) continue;
+
+        pairs.push({
+          key,
+          first: a.tx,
+          second: b.tx,
+          amount_diff_percent: diffPercent,
+          time_diff_minutes: (b.ms - a.ms) / 60_000,
+        });
+      }
+    }
+  }
+
+  pairs.sort((a, b) => Date.parse(a.first.timestamp) - Date.parse(b.first.timestamp));
+  return pairs;
+}
@@ -0,0 +1,390 @@
+import type {
+  ImportDateFormat,
+  ImportDecimalSeparator,
+  ImportMappableField,
+  ImportTable,
+  ImportTemplate,
+  Transaction,
+} from "./types";
+import { getAssetMetadata } from "./assets";
+
+/**
+ * Column mapping for arbitrary CSV / XLSX exports.
+ *
+ * A template maps source columns to Transaction fields, source type strings
+ * to Traeky tx_types and describes how dates and numbers are written. The
+ * functions here are pure; reading files and persisting templates lives in
+ * the data source.
+ */
+
+export const IMPORT_MAPPABLE_FIELDS: ImportMappableField[] = [
+  "timestamp",
+  "asset_symbol",
+  "tx_type",
+  "amount",
+  "price_fiat",
+  "fiat_value",
+  "fiat_currency",
+  "fee_amount",
+  "fee_asset",
+  "source",
+  "note",
+  "tx_id",
+];
+
+export const REQUIRED_IMPORT_FIELDS: ImportMappableField[] = [
+  "timestamp",
+  "asset_symbol",
+  "tx_type",
+  "amount",
+];
+
+export const IMPORT_TX_TYPES = [
+  "BUY",
+  "SELL",
+  "TRANSFER_IN",
+  "TRANSFER_OUT",
+  "STAKING_REWARD",
+  "REWARD",
+  "AIRDROP",
+  "TRANSFER_INTERNAL",
+];
+
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = [
+  "ISO",
+  "DD.MM.YYYY",
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "UNIX_SECONDS",
+  "UNIX_MILLISECONDS",
+];
+
+export type ImportRowErrorCode =
+  | "missing_value"
+  | "invalid_date"
+  | "invalid_amount"
+  | "invalid_number"
+  | "unknown_type"
+  | "unsupported_asset";
+
+export type ImportRowResult =
+  | { ok: true; transaction: Omit<Transaction, "id"> }
+  | { ok: false; error: ImportRowErrorCode; detail: string };
+
+export function createImportTemplate(name: string): ImportTemplate {
+  return {
+    id: "",
+    name,
+    columns: {},
+    type_values: {},
+    date_format: "ISO",
+    decimal_separator: ".",
+    timezone: "UTC",
+    default_fiat_currency: "EUR",
+    default_source: "",
+  };
+}
+
+/**
+ * Pre-fill the column mapping from header names that obviously match a
+ * field (e.g. "Date" -> timestamp, "Coin" -> asset_symbol).
+ */
+export function suggestImportColumns(headers: string[]): Partial<Record<ImportMappableField, string>> {
+  const hints: Record<ImportMappableField, string[]> = {
+    timestamp: ["timestamp", "date", "time", "datum", "zeit"],
+    asset_symbol: ["asset_symbol", "asset", "coin", "currency", "symbol"],
+    tx_type: ["tx_type", "type", "side", "operation", "typ"],
+    amount: ["amount", "quantity", "qty", "menge", "betrag"],
+    price_fiat: ["price_fiat", "price", "preis"],
+    fiat_value: ["fiat_value", "total", "value", "wert"],
+    fiat_currency: ["fiat_currency", "fiat", "quote"],
+    fee_amount: ["fee_amount", "fee", "gebühr"],
+    fee_asset: ["fee_asset", "fee currency", "fee coin", "fee asset"],
+    source: ["source", "exchange", "quelle"],
+    note: ["note", "notes", "comment", "notiz"],
+    tx_id: ["tx_id", "txid", "hash", "transaction id"],
+  };
+
+  const normalized = headers.map((h) => h.trim().toLowerCase());
+  const used = new Set<string>();
+  const columns: Partial<Record<ImportMappableField, string>> = {};
+
+  for (const field of IMPORT_MAPPABLE_FIELDS) {
+    // Exact header matches win over hints that are only contained.
+    let index = normalized.findIndex((h, i) => !used.has(headers[i]) && hints[field].includes(h));
+    if (index === -1) {
+      index = normalized.findIndex(
+        (h, i) => !used.has(headers[i]) && hints[field].some((hint) => h.includes(hint)),
+      );
+    }
+    if (index !== -1) {
+      columns[field] = headers[index];
+      used.add(headers[index]);
+    }
+  }
+  return columns;
+}
+
+/**
+ * Distinct non-empty values of one column, e.g. the type strings that need
+ * a tx_type mapping.
+ */
+export function collectDistinctColumnValues(table: ImportTable, column: string | undefined): string[] {
+  const index = column ? table.headers.indexOf(column) : -1;
+  if (index === -1) {
+    return [];
+  }
+  const values = new Set<string>();
+  for (const row of table.rows) {
+    const value = (row[index] ?? "").trim();
+    if (value) {
+      values.add(value);
+    }
+  }
+  return Array.from(values).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Parse a number written with the given decimal separator. Currency symbols,
+ * spaces and thousands separators are ignored.
+ */
+export function parseImportNumber(raw: string, decimalSeparator: ImportDecimalSeparator): number | null {
+  let value = raw.trim().replace(/[^0-9.,eE+-]/g, "");
+  if (!value) {
+    return null;
+  }
+  if (decimalSeparator === ",") {
+    value = value.replace(/\./g, "").replace(",", ".");
+  } else {
+    value = value.replace(/,/g, "");
+  }
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (timeZone === "UTC" || timeZone === "local") {
+    return true;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of an IANA time zone from UTC at the given instant, in milliseconds.
+function getTimeZoneOffsetMs(utcMs: number, timeZone: string): number {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(utcMs))) {
+    parts[part.type] = Number(part.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+function wallClockToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string,
+): number {
+  if (timeZone === "local") {
+    return new Date(year, month - 1, day, hour, minute, second).getTime();
+  }
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  if (timeZone === "UTC") {
+    return guess;
+  }
+  // Second pass corrects the offset around DST switches.
+  const offset = getTimeZoneOffsetMs(guess, timeZone);
+  const corrected = getTimeZoneOffsetMs(guess - offset, timeZone);
+  return guess - corrected;
+}
+
+/**
+ * Parse a date in the given format and interpret wall-clock times in the
+ * given time zone ("UTC", "local" or an IANA name). Returns an ISO string.
+ */
+export function parseImportDate(raw: string, format: ImportDateFormat, timeZone: string): string | null {
+  const value = raw.trim();
+  if (!value) {
+    return null;
+  }
+
+  if (format === "UNIX_SECONDS" || format === "UNIX_MILLISECONDS") {
+    const numeric = Number(value);
+    if (!Number.isFinite(numeric)) return null;
+    const date = new Date(format === "UNIX_SECONDS" ? numeric * 1000 : numeric);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  let match: RegExpExecArray | null = null;
+  let year = 0;
+  let month = 0;
+  let day = 0;
+  let rest = "";
+
+  if (format === "ISO") {
+    // Timestamps with an explicit offset do not need the time zone setting.
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    match = /^(\d{4})-(\d{1,2})-(\d{1,2})(.*)$/.exec(value);
+    if (match) {
+      [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+      rest = match[4];
+    }
+  } else {
+    const separator = format === "DD.MM.YYYY" ? "\\." : "/";
+    match = new RegExp(`^(\\d{1,2})${separator}(\\d{1,2})${separator}(\\d{2,4})(.*)$`).exec(value);
+    if (match) {
+      const first = Number(match[1]);
+      const second = Number(match[2]);
+      year = Number(match[3]);
+      if (year < 100) year += 2000;
+      [day, month] = format === "MM/DD/YYYY" ? [second, first] : [first, second];
+      rest = match[4];
+    }
+  }
+
+  if (!match || month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+
+  let hour = 0;
+  let minute = 0;
+  let second = 0;
+  const time = /^[T\s,]*(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(AM|PM)?\s*$/i.exec(rest);
+  if (time) {
+    hour = Number(time[1]);
+    minute = Number(time[2]);
+    second = time[3] ? Number(time[3]) : 0;
+    const meridiem = (time[4] || "").toUpperCase();
+    if (meridiem === "PM" && hour < 12) hour += 12;
+    if (meridiem === "AM" && hour === 12) hour = 0;
+  } else if (rest.trim()) {
+    return null;
+  }
+
+  const utcMs = wallClockToUtc(year, month, day, hour, minute, second, timeZone);
+  return Number.isFinite(utcMs) ? new Date(utcMs).toISOString() : null;
+}
+
+/**
+ * Resolve a source type string to a tx_type: explicit value mappings first
+ * (case-insensitive), then values that already are Traeky tx_types.
+ */
+export function resolveImportTxType(raw: string, typeValues: Record<string, string>): string | null {
+  const value = raw.trim();
+  const lower = value.toLowerCase();
+  for (const [source, target] of Object.entries(typeValues)) {
+    if (source.trim().toLowerCase() === lower && target) {
+      return target;
+    }
+  }
+  const upper = value.toUpperCase();
+  return IMPORT_TX_TYPES.includes(upper) ? upper : null;
+}
+
+/**
+ * Map one row of an import table to a transaction according to a template.
+ */
+export function mapImportRow(headers: string[], row: string[], template: ImportTemplate): ImportRowResult {
+  const read = (field: ImportMappableField): string => {
+    const column = template.columns[field];
+    const index = column ? headers.indexOf(column) : -1;
+    return index === -1 ? "" : (row[index] ?? "").trim();
+  };
+  const readNumber = (field: ImportMappableField): number | null | undefined => {
+    const raw = read(field);
+    if (!raw) return null;
+    const parsed = parseImportNumber(raw, template.decimal_separator);
+    return parsed == null ? undefined : parsed;
+  };
+
+  for (const field of REQUIRED_IMPORT_FIELDS) {
+    if (!read(field)) {
+      return { ok: false, error: "missing_value", detail: field };
+    }
+  }
+
+  const timestamp = parseImportDate(read("timestamp"), template.date_format, template.timezone);
+  if (!timestamp) {
+    return { ok: false, error: "invalid_date", detail: read("timestamp") };
+  }
+
+  const txType = resolveImportTxType(read("tx_type"), template.type_values);
+  if (!txType) {
+    return { ok: false, error: "unknown_type", detail: read("tx_type") };
+  }
+
+  const meta = getAssetMetadata(read("asset_symbol"));
+  if (!meta) {
+    return { ok: false, error: "unsupported_asset", detail: read("asset_symbol") };
+  }
+
+  const signedAmount = readNumber("amount");
+  if (signedAmount == null || signedAmount === 0) {
+    return { ok: false, error: "invalid_amount", detail: read("amount") };
+  }
+  const amount = Math.abs(signedAmount);
+
+  const numericFields: ImportMappableField[] = ["price_fiat", "fiat_value", "fee_amount"];
+  for (const field of numericFields) {
+    if (readNumber(field) === undefined) {
+      return { ok: false, error: "invalid_number", detail: `${field}: ${read(field)}` };
+    }
+  }
+
+  let priceFiat = readNumber("price_fiat") ?? null;
+  let fiatValue = readNumber("fiat_value") ?? null;
+  if (priceFiat != null) priceFiat = Math.abs(priceFiat);
+  if (fiatValue != null) fiatValue = Math.abs(fiatValue);
+  if (priceFiat == null && fiatValue != null) {
+    priceFiat = fiatValue / amount;
+  } else if (fiatValue == null && priceFiat != null) {
+    fiatValue = priceFiat * amount;
+  }
+
+  const fiatCurrency = (read("fiat_currency") || template.default_fiat_currency || "EUR").toUpperCase();
+  const rawFee = readNumber("fee_amount") ?? null;
+  const feeAmount = rawFee != null && rawFee !== 0 ? Math.abs(rawFee) : null;
+  const feeAsset = feeAmount != null ? (read("fee_asset") || fiatCurrency).toUpperCase() : null;
+
+  return {
+    ok: true,
+    transaction: {
+      asset_symbol: meta.symbol,
+      tx_type: txType,
+      amount,
+      price_fiat: priceFiat,
+      fiat_currency: fiatCurrency,
+      timestamp,
+      source: read("source") || template.default_source || template.name || null,
+      note: read("note") || null,
+      tx_id: read("tx_id") || null,
+      fiat_value: fiatValue,
+      value_eur: null,
+      value_usd: null,
+      fee_amount: feeAmount,
+      fee_asset: feeAsset,
+      fee_fiat_value: feeAsset === fiatCurrency ? feeAmount : null,
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import type { BalanceReconciliation, ReportedBalance, Transaction } from "./types";
+import { getCryptoFee } from "./costBasis";
+
+/**
+ * Reconciliation of computed balances against the balances an exchange or
+ * wallet reports. Rows an importer skipped (unsupported assets, other asset
+ * classes) show up here as a difference from the first affected date on.
+ */
+
+// Transactions listed on each side of the reported timestamp.
+const NEARBY_TRANSACTION_COUNT = 5;
+const AMOUNT_EPSILON = 1e-9;
+
+/**
+ * Signed quantity changes a transaction causes, including crypto fees paid
+ * out of the same account.
+ */
+export function getTransactionBalanceChanges(
+  tx: Transaction,
+): { asset_symbol: string; amount: number }[] {
+  const changes: { asset_symbol: string; amount: number }[] = [];
+  const cryptoFee = getCryptoFee(tx);
+  if (cryptoFee) {
+    changes.push({ asset_symbol: cryptoFee.asset_symbol, amount: -cryptoFee.amount });
+  }
+
+  const txType = (tx.tx_type || "").toUpperCase();
+  const amount = Number(tx.amount || 0);
+  if (Number.isFinite(amount) && amount !== 0 && txType !== "TRANSFER_INTERNAL") {
+    const sign = txType === "SELL" || txType === "TRANSFER_OUT" ? -1 : 1;
+    changes.push({ asset_symbol: (tx.asset_symbol || "UNKNOWN").toUpperCase(), amount: sign * amount });
+  }
+  return changes;
+}
+
+function touchesAsset(tx: Transaction, symbol: string): boolean {
+  return getTransactionBalanceChanges(tx).some((change) => change.asset_symbol === symbol);
+}
+
+/**
+ * Compare one reported balance with the balance computed from the
+ * transactions of its account (or of all accounts) up to its timestamp.
+ */
+export function reconcileBalance(
+  transactions: Transaction[],
+  balance: ReportedBalance,
+): BalanceReconciliation {
+  const symbol = balance.asset_symbol.toUpperCase();
+  const at = Date.parse(balance.timestamp);
+
+  const relevant = transactions
+    .filter(
+      (tx) =>
+        (balance.account_id == null || tx.account_id === balance.account_id) &&
+        touchesAsset(tx, symbol),
+    )
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp) || a.id - b.id);
+
+  let computed = 0;
+  let splitIndex = relevant.length;
+  relevant.forEach((tx, index) => {
+    if (Date.parse(tx.timestamp) > at) {
+      splitIndex = Math.min(splitIndex, index);
+      return;
+    }
+    for (const change of getTransactionBalanceChanges(tx)) {
+      if (change.asset_symbol === symbol) {
+        computed += change.amount;
+      }
+    }
+  });
+
+  const difference = computed - balance.amount;
+  return {
+    balance,
+    computed_amount: computed,
+    difference: Math.abs(difference) < AMOUNT_EPSILON ? 0 : difference,
+    nearby_transactions: relevant.slice(
+      Math.max(0, splitIndex - NEARBY_TRANSACTION_COUNT),
+      splitIndex + NEARBY_TRANSACTION_COUNT,
+    ),
+  };
+}
@@ -0,0 +1,529 @@
+import type { CostBasisMethod, HoldingsItem, Transaction } from "./types";
+import { DEFAULT_COST_BASIS_METHOD } from "./config";
+import { computeCostBasisLots, computeHoldingDays } from "./costBasis";
+import type { BaseCurrency, RealizedGainEvent, TaxLot } from "./costBasis";
+
+/**
+ * Tax report builders on top of the cost-basis lot engine.
+ *
+ * These functions only aggregate data that Traeky already knows; they do not
+ * replace a review by a tax professional.
+ */
+
+/**
+ * Freigrenze for private sales under § 23 EStG: 600 € up to 2023, 1000 € from
+ * 2024 on. Unlike an allowance, the whole gain becomes taxable once the limit
+ * is reached.
+ */
+export function getPrivateSalesExemptionLimit(year: number): number {
+  return year >= 2024 ? 1000 : 600;
+}
+
+/**
+ * Whether a lot held for `holdingDays` whole days is still inside the holding
+ * period. A sale on the anniversary is inside: § 23 EStG taxes sales after
+ * "nicht mehr als ein Jahr".
+ */
+export function isWithinHoldingPeriod(holdingDays: number, holdingPeriodDays: number): boolean {
+  return holdingDays <= holdingPeriodDays;
+}
+
+export type PrivateSalesAssetSubtotal = {
+  asset_symbol: string;
+  /** Earliest acquisition and latest sale of the asset within the report. */
+  first_acquired_at: string;
+  last_disposed_at: string;
+  proceeds: number;
+  cost_basis: number;
+  gain: number;
+};
+
+export type PrivateSalesReport = {
+  year: number;
+  holding_period_days: number;
+  cost_basis_method: CostBasisMethod;
+  /** Matched lot slices sold within the holding period, ordered by sale date. */
+  rows: RealizedGainEvent[];
+  /** Per-asset subtotals in the shape of the Anlage SO lines for other assets. */
+  subtotals: PrivateSalesAssetSubtotal[];
+  proceeds: number;
+  cost_basis: number;
+  gain: number;
+  /** Rows without proceeds or cost basis; they are excluded from all totals. */
+  unvalued_count: number;
+  exemption_limit: number;
+  /** True if a net gain stays below the Freigrenze and is therefore tax-free. */
+  exempt: boolean;
+  /** Gain to declare after applying the Freigrenze (losses are kept as-is). */
+  taxable_gain: number;
+};
+
+/**
+ * Build the § 23 EStG report of private sales for one tax year.
+ *
+ * Every SELL whose matched lot was held no longer than the configured holding
+ * period counts as a taxable private sale. Values are always computed in EUR.
+ */
+export function buildPrivateSalesReport(
+  transactions: Transaction[],
+  year: number,
+  holdingPeriodDays: number,
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+): PrivateSalesReport {
+  const { realized } = computeCostBasisLots(transactions, "EUR", method);
+
+  const rows = realized
+    .filter(
+      (event) =>
+        event.disposal_type === "SELL" &&
+        new Date(event.disposed_at).getUTCFullYear() === year &&
+        isWithinHoldingPeriod(event.holding_days, holdingPeriodDays),
+    )
+    .sort((a, b) => new Date(a.disposed_at).getTime() - new Date(b.disposed_at).getTime());
+
+  const subtotalsBySymbol = new Map<string, PrivateSalesAssetSubtotal>();
+  let proceeds = 0;
+  let costBasis = 0;
+  let gain = 0;
+  let unvaluedCount = 0;
+
+  for (const row of rows) {
+    if (row.proceeds == null || row.cost_basis == null || row.gain == null) {
+      unvaluedCount += 1;
+      continue;
+    }
+    proceeds += row.proceeds;
+    costBasis += row.cost_basis;
+    gain += row.gain;
+
+    const subtotal = subtotalsBySymbol.get(row.asset_symbol) ?? {
+      asset_symbol: row.asset_symbol,
+      first_acquired_at: row.acquired_at,
+      last_disposed_at: row.disposed_at,
+      proceeds: 0,
+      cost_basis: 0,
+      gain: 0,
+    };
+    if (new Date(row.acquired_at).getTime() < new Date(subtotal.first_acquired_at).getTime()) {
+      subtotal.first_acquired_at = row.acquired_at;
+    }
+    if (new Date(row.disposed_at).getTime() > new Date(subtotal.last_disposed_at).getTime()) {
+      subtotal.last_disposed_at = row.disposed_at;
+    }
+    subtotal.proceeds += row.proceeds;
+    subtotal.cost_basis += row.cost_basis;
+    subtotal.gain += row.gain;
+    subtotalsBySymbol.set(row.asset_symbol, subtotal);
+  }
+
+  const exemptionLimit = getPrivateSalesExemptionLimit(year);
+  const exempt = gain > 0 && gain < exemptionLimit;
+
+  return {
+    year,
+    holding_period_days: holdingPeriodDays,
+    cost_basis_method: method,
+    rows,
+    subtotals: Array.from(subtotalsBySymbol.values()).sort((a, b) =>
+      a.asset_symbol.localeCompare(b.asset_symbol),
+    ),
+    proceeds,
+    cost_basis: costBasis,
+    gain,
+    unvalued_count: unvaluedCount,
+    exemption_limit: exemptionLimit,
+    exempt,
+    taxable_gain: exempt ? 0 : gain,
+  };
+}
+
+const INCOME_TYPES = new Set(["STAKING_REWARD", "REWARD", "AIRDROP"]);
+
+export function isIncomeType(txType: string | null | undefined): boolean {
+  return INCOME_TYPES.has((txType || "").toUpperCase());
+}
+
+export type IncomeReceipt = {
+  transaction_id: number;
+  asset_symbol: string;
+  tx_type: string;
+  source: string;
+  amount: number;
+  timestamp: string;
+  /** Value at receipt in the base currency, or null if it could not be priced. */
+  value: number | null;
+  /** "historical" for a market price at the timestamp, "recorded" for a stored value_eur/value_usd. */
+  price_source: "historical" | "recorded" | null;
+};
+
+export type IncomeReportGroup = {
+  year: number;
+  asset_symbol: string;
+  source: string;
+  receipt_count: number;
+  amount: number;
+  /** Sum of all priced receipts of the group. */
+  value: number;
+  unpriced_count: number;
+};
+
+export type IncomeYearTotal = {
+  year: number;
+  value: number;
+  unpriced_count: number;
+};
+
+export type IncomeReport = {
+  base_currency: BaseCurrency;
+  /** Ordered by year (newest first), asset and source. */
+  groups: IncomeReportGroup[];
+  year_totals: IncomeYearTotal[];
+  /** Receipts without any value; they are excluded from all sums. */
+  unpriced: IncomeReceipt[];
+};
+
+/**
+ * Group valued income receipts (staking, rewards, airdrops) by year, asset
+ * and source.
+ */
+export function buildIncomeReport(receipts: IncomeReceipt[], baseCurrency: BaseCurrency): IncomeReport {
+  const groupsByKey = new Map<string, IncomeReportGroup>();
+  const totalsByYear = new Map<number, IncomeYearTotal>();
+  const unpriced: IncomeReceipt[] = [];
+
+  for (const receipt of receipts) {
+    const year = new Date(receipt.timestamp).getUTCFullYear();
+    if (!Number.isFinite(year)) continue;
+
+    const key = `${year}|${receipt.asset_symbol}|${receipt.source}`;
+    const group = groupsByKey.get(key) ?? {
+      year,
+      asset_symbol: receipt.asset_symbol,
+      source: receipt.source,
+      receipt_count: 0,
+      amount: 0,
+      value: 0,
+      unpriced_count: 0,
+    };
+    const total = totalsByYear.get(year) ?? { year, value: 0, unpriced_count: 0 };
+
+    group.receipt_count += 1;
+    group.amount += receipt.amount;
+    if (receipt.value == null) {
+      group.unpriced_count += 1;
+      total.unpriced_count += 1;
+      unpriced.push(receipt);
+    } else {
+      group.value += receipt.value;
+      total.value += receipt.value;
+    }
+
+    groupsByKey.set(key, group);
+    totalsByYear.set(year, total);
+  }
+
+  const groups = Array.from(groupsByKey.values()).sort(
+    (a, b) =>
+      b.year - a.year ||
+      a.asset_symbol.localeCompare(b.asset_symbol) ||
+      a.source.localeCompare(b.source),
+  );
+
+  return {
+    base_currency: baseCurrency,
+    groups,
+    year_totals: Array.from(totalsByYear.values()).sort((a, b) => b.year - a.year),
+    unpriced: unpriced.sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+    ),
+  };
+}
+
+/**
+ * US capital gains: disposals of assets held for more than this many days are
+ * long-term, everything else is short-term.
+ */
+export const US_LONG_TERM_HOLDING_DAYS = 365;
+
+export type Form8949Row = {
+  disposal_transaction_id: number;
+  acquisition_transaction_id: number;
+  /** Column (a), e.g. "0.5 BTC". */
+  description: string;
+  asset_symbol: string;
+  amount: number;
+  date_acquired: string;
+  date_sold: string;
+  holding_days: number;
+  proceeds: number | null;
+  cost_basis: number | null;
+  gain: number | null;
+};
+
+export type ScheduleDTotals = {
+  proceeds: number;
+  cost_basis: number;
+  gain: number;
+  row_count: number;
+};
+
+export type Form8949Report = {
+  year: number;
+  cost_basis_method: CostBasisMethod;
+  short_term: Form8949Row[];
+  long_term: Form8949Row[];
+  short_term_totals: ScheduleDTotals;
+  long_term_totals: ScheduleDTotals;
+  /** Rows without proceeds or cost basis; they are excluded from the totals. */
+  unvalued_count: number;
+};
+
+/**
+ * Format an ISO timestamp as MM/DD/YYYY like the dates on Form 8949.
+ */
+export function formatForm8949Date(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${month}/${day}/${date.getUTCFullYear()}`;
+}
+
+function sumScheduleDTotals(rows: Form8949Row[]): ScheduleDTotals {
+  const totals: ScheduleDTotals = { proceeds: 0, cost_basis: 0, gain: 0, row_count: 0 };
+  for (const row of rows) {
+    if (row.proceeds == null || row.cost_basis == null || row.gain == null) continue;
+    totals.proceeds += row.proceeds;
+    totals.cost_basis += row.cost_basis;
+    totals.gain += row.gain;
+    totals.row_count += 1;
+  }
+  return totals;
+}
+
+/**
+ * Build Form 8949 rows and Schedule D totals for one tax year. Every matched
+ * lot slice of a SELL becomes one row; values are always computed in USD.
+ */
+export function buildForm8949Report(
+  transactions: Transaction[],
+  year: number,
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+): Form8949Report {
+  const { realized } = computeCostBasisLots(transactions, "USD", method);
+
+  const rows: Form8949Row[] = realized
+    .filter(
+      (event) =>
+        event.disposal_type === "SELL" && new Date(event.disposed_at).getUTCFullYear() === year,
+    )
+    .sort((a, b) => new Date(a.disposed_at).getTime() - new Date(b.disposed_at).getTime())
+    .map((event) => ({
+      disposal_transaction_id: event.disposal_transaction_id,
+      acquisition_transaction_id: event.acquisition_transaction_id,
+      description: `${Number(event.amount.toFixed(8))} ${event.asset_symbol}`,
+      asset_symbol: event.asset_symbol,
+      amount: event.amount,
+      date_acquired: event.acquired_at,
+      date_sold: event.disposed_at,
+      holding_days: event.holding_days,
+      proceeds: event.proceeds,
+      cost_basis: event.cost_basis,
+      gain: event.gain,
+    }));
+
+  const shortTerm = rows.filter((row) => row.holding_days <= US_LONG_TERM_HOLDING_DAYS);
+  const longTerm = rows.filter((row) => row.holding_days > US_LONG_TERM_HOLDING_DAYS);
+
+  return {
+    year,
+    cost_basis_method: method,
+    short_term: shortTerm,
+    long_term: longTerm,
+    short_term_totals: sumScheduleDTotals(shortTerm),
+    long_term_totals: sumScheduleDTotals(longTerm),
+    unvalued_count: rows.filter(
+      (row) => row.proceeds == null || row.cost_basis == null || row.gain == null,
+    ).length,
+  };
+}
+
+// Id of the hypothetical SELL; real transaction ids are always positive.
+const SIMULATED_SALE_ID = -1;
+
+export type SaleSimulationInput = {
+  asset_symbol: string;
+  amount: number;
+  /** Price per unit in the base currency. */
+  price: number;
+  timestamp: string;
+};
+
+export type SaleSimulationResult = {
+  /** Lot slices the sale would consume, in consumption order. */
+  consumed: RealizedGainEvent[];
+  proceeds: number;
+  cost_basis: number;
+  gain: number;
+  /** Gain from lots still inside the holding period (taxable). */
+  gain_within_holding_period: number;
+  /** Gain from lots whose holding period has passed. */
+  gain_outside_holding_period: number;
+  /** Part of the amount not covered by open lots at the sale date. */
+  unmatched_amount: number;
+  /** Consumed lots without a cost basis; they are excluded from all sums. */
+  unvalued_count: number;
+  estimated_tax: number;
+};
+
+/**
+ * Simulate a sale against the open lots at the given date without persisting
+ * anything. The estimated tax applies the rate to the net gain within the
+ * holding period only; exemption limits are not considered.
+ */
+export function simulateSale(
+  transactions: Transaction[],
+  input: SaleSimulationInput,
+  baseCurrency: BaseCurrency,
+  holdingPeriodDays: number,
+  taxRatePercent: number,
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+): SaleSimulationResult {
+  const symbol = input.asset_symbol.toUpperCase();
+  const simulatedSale: Transaction = {
+    id: SIMULATED_SALE_ID,
+    asset_symbol: symbol,
+    tx_type: "SELL",
+    amount: input.amount,
+    price_fiat: input.price,
+    fiat_currency: baseCurrency,
+    fiat_value: input.amount * input.price,
+    timestamp: input.timestamp,
+  };
+
+  const { realized, unmatched } = computeCostBasisLots(
+    [...transactions, simulatedSale],
+    baseCurrency,
+    method,
+  );
+
+  const consumed = realized.filter((event) => event.disposal_transaction_id === SIMULATED_SALE_ID);
+  const result: SaleSimulationResult = {
+    consumed,
+    proceeds: 0,
+    cost_basis: 0,
+    gain: 0,
+    gain_within_holding_period: 0,
+    gain_outside_holding_period: 0,
+    unmatched_amount: unmatched
+      .filter((entry) => entry.transaction_id === SIMULATED_SALE_ID)
+      .reduce((sum, entry) => sum + entry.amount, 0),
+    unvalued_count: 0,
+    estimated_tax: 0,
+  };
+
+  for (const event of consumed) {
+    if (event.proceeds == null || event.cost_basis == null || event.gain == null) {
+      result.unvalued_count += 1;
+      continue;
+    }
+    result.proceeds += event.proceeds;
+    result.cost_basis += event.cost_basis;
+    result.gain += event.gain;
+    if (isWithinHoldingPeriod(event.holding_days, holdingPeriodDays)) {
+      result.gain_within_holding_period += event.gain;
+    } else {
+      result.gain_outside_holding_period += event.gain;
+    }
+  }
+
+  result.estimated_tax = (Math.max(0, result.gain_within_holding_period) * taxRatePercent) / 100;
+  return result;
+}
+
+export type HarvestableLot = {
+  transaction_id: number;
+  asset_symbol: string;
+  acquired_at: string;
+  remaining_amount: number;
+  unit_cost: number;
+  current_price: number;
+  cost_basis: number;
+  market_value: number;
+  /** Market value minus cost basis; always negative. */
+  unrealized_loss: number;
+  holding_days: number;
+  /** Losses of lots inside the holding period can offset taxable gains. */
+  within_holding_period: boolean;
+};
+
+export type HarvestableAsset = {
+  asset_symbol: string;
+  lots: HarvestableLot[];
+  total_loss: number;
+  /** Part of total_loss from lots still inside the holding period. */
+  within_holding_period_loss: number;
+};
+
+/**
+ * List open lots whose current price is below their unit cost, grouped per
+ * asset with the largest total loss first. Lots without a cost basis or
+ * assets without a current price are skipped.
+ */
+export function findTaxLossHarvestingCandidates(
+  openLots: TaxLot[],
+  holdings: HoldingsItem[],
+  baseCurrency: BaseCurrency,
+  holdingPeriodDays: number,
+  now: Date = new Date(),
+): HarvestableAsset[] {
+  const currentPrices = new Map<string, number>();
+  for (const item of holdings) {
+    const value = baseCurrency === "USD" ? item.value_usd : item.value_eur;
+    if (typeof value === "number" && Number.isFinite(value) && item.total_amount > 0) {
+      currentPrices.set(item.asset_symbol.toUpperCase(), value / item.total_amount);
+    }
+  }
+
+  const assets = new Map<string, HarvestableAsset>();
+  for (const lot of openLots) {
+    const currentPrice = currentPrices.get(lot.asset_symbol);
+    if (currentPrice == null || lot.unit_cost == null || currentPrice >= lot.unit_cost) {
+      continue;
+    }
+
+    const costBasis = lot.unit_cost * lot.remaining_amount;
+    const marketValue = currentPrice * lot.remaining_amount;
+    const holdingDays = computeHoldingDays(lot.acquired_at, now.toISOString());
+    const candidate: HarvestableLot = {
+      transaction_id: lot.transaction_id,
+      asset_symbol: lot.asset_symbol,
+      acquired_at: lot.acquired_at,
+      remaining_amount: lot.remaining_amount,
+      unit_cost: lot.unit_cost,
+      current_price: currentPrice,
+      cost_basis: costBasis,
+      market_value: marketValue,
+      unrealized_loss: marketValue - costBasis,
+      holding_days: holdingDays,
+      within_holding_period: isWithinHoldingPeriod(holdingDays, holdingPeriodDays),
+    };
+
+    const asset = assets.get(lot.asset_symbol) ?? {
+      asset_symbol: lot.asset_symbol,
+      lots: [],
+      total_loss: 0,
+      within_holding_period_loss: 0,
+    };
+    asset.lots.push(candidate);
+    asset.total_loss += candidate.unrealized_loss;
+    if (candidate.within_holding_period) {
+      asset.within_holding_period_loss += candidate.unrealized_loss;
+    }
+    assets.set(lot.asset_symbol, asset);
+  }
+
+  return Array.from(assets.values()).sort((a, b) => a.total_loss - b.total_loss);
+}
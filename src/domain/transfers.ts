@@ -0,0 +1,143 @@
+import type { Transaction } from "./types";
+
+/**
+ * Matching of transfers between exchanges and wallets.
+ *
+ * A withdrawal from one place and the deposit elsewhere are the same coins
+ * moving. Once a TRANSFER_OUT is linked to its TRANSFER_IN, the lot engine
+ * keeps the original lots (cost and acquisition date) instead of treating the
+ * pair as a disposal and a new acquisition.
+ */
+
+export type TransferMatchOptions = {
+  window_hours: number;
+  /** Maximum share of the sent amount that may be missing on arrival. */
+  fee_tolerance_percent: number;
+  /** When set, only pairs with at least one side among these ids are matched. */
+  involving_ids?: ReadonlySet<number>;
+};
+
+export type TransferMatch = {
+  out: Transaction;
+  in: Transaction;
+  matched_by: "tx_id" | "amount";
+};
+
+// Exchange clocks differ; a deposit may be stamped slightly before the withdrawal.
+const CLOCK_SKEW_MS = 10 * 60 * 1000;
+const AMOUNT_EPSILON = 1e-12;
+
+function isType(tx: Transaction, txType: string): boolean {
+  return (tx.tx_type || "").toUpperCase() === txType;
+}
+
+function sameAsset(a: Transaction, b: Transaction): boolean {
+  return (a.asset_symbol || "").toUpperCase() === (b.asset_symbol || "").toUpperCase();
+}
+
+/**
+ * The TRANSFER_IN linked to a TRANSFER_OUT of the same asset (or the other way
+ * round), if both sides point at each other.
+ */
+export function getMatchedTransferPeer(
+  tx: Transaction,
+  byId: Map<number, Transaction>,
+): Transaction | null {
+  if (isType(tx, "TRANSFER_OUT") && tx.linked_tx_next_id != null) {
+    const peer = byId.get(tx.linked_tx_next_id);
+    if (peer && isType(peer, "TRANSFER_IN") && peer.linked_tx_prev_id === tx.id && sameAsset(tx, peer)) {
+      return peer;
+    }
+  }
+  if (isType(tx, "TRANSFER_IN") && tx.linked_tx_prev_id != null) {
+    const peer = byId.get(tx.linked_tx_prev_id);
+    if (peer && isType(peer, "TRANSFER_OUT") && peer.linked_tx_next_id === tx.id && sameAsset(tx, peer)) {
+      return peer;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pair unlinked TRANSFER_OUT rows with unlinked TRANSFER_IN rows of the same
+ * asset.
+ *
+ * Rows sharing an on-chain tx_id are paired first, regardless of time. The
+ * rest is paired when the deposit arrives within the time window and is at
+ * most the fee tolerance smaller than the withdrawal; the closest amount wins,
+ * then the closest time.
+ */
+export function findTransferMatches(
+  transactions: Transaction[],
+  options: TransferMatchOptions,
+): TransferMatch[] {
+  const windowMs = Math.max(0, options.window_hours) * 60 * 60 * 1000;
+  const tolerance = Math.max(0, options.fee_tolerance_percent) / 100;
+  const involving = options.involving_ids;
+  const isAllowedPair = (out: Transaction, candidate: Transaction) =>
+    !involving || involving.has(out.id) || involving.has(candidate.id);
+
+  const outs = transactions
+    .filter((tx) => isType(tx, "TRANSFER_OUT") && tx.linked_tx_next_id == null)
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const ins = transactions.filter(
+    (tx) => isType(tx, "TRANSFER_IN") && tx.linked_tx_prev_id == null,
+  );
+
+  const matches: TransferMatch[] = [];
+  const usedIns = new Set<number>();
+  const unmatchedOuts: Transaction[] = [];
+
+  for (const out of outs) {
+    const txId = (out.tx_id || "").trim().toLowerCase();
+    const peer = txId
+      ? ins.find(
+          (candidate) =>
+            !usedIns.has(candidate.id) &&
+            sameAsset(out, candidate) &&
+            isAllowedPair(out, candidate) &&
+            (candidate.tx_id || "").trim().toLowerCase() === txId,
+        )
+      : undefined;
+    if (peer) {
+      usedIns.add(peer.id);
+      matches.push({ out, in: peer, matched_by: "tx_id" });
+    } else {
+      unmatchedOuts.push(out);
+    }
+  }
+
+  for (const out of unmatchedOuts) {
+    const outMs = Date.parse(out.timestamp);
+    const sent = Math.abs(Number(out.amount || 0));
+    if (Number.isNaN(outMs) || !(sent > 0)) continue;
+
+    let best: { tx: Transaction; diff: number; delay: number } | null = null;
+    for (const candidate of ins) {
+      if (usedIns.has(candidate.id) || !sameAsset(out, candidate) || !isAllowedPair(out, candidate)) {
+        continue;
+      }
+      const delay = Date.parse(candidate.timestamp) - outMs;
+      if (Number.isNaN(delay) || delay < -CLOCK_SKEW_MS || delay > windowMs) continue;
+
+      const received = Math.abs(Number(candidate.amount || 0));
+      const diff = sent - received;
+      if (diff < -AMOUNT_EPSILON || diff > sent * tolerance + AMOUNT_EPSILON) continue;
+
+      if (
+        !best ||
+        diff < best.diff - AMOUNT_EPSILON ||
+        (Math.abs(diff - best.diff) <= AMOUNT_EPSILON && Math.abs(delay) < Math.abs(best.delay))
+      ) {
+        best = { tx: candidate, diff, delay };
+      }
+    }
+
+    if (best) {
+      usedIns.add(best.tx.id);
+      matches.push({ out, in: best.tx, matched_by: "amount" });
+    }
+  }
+
+  return matches;
+}
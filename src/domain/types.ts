@@ -16,6 +16,36 @@ export type Transaction = {
   fiat_value?: number | null;
   value_eur?: number | null;
   value_usd?: number | null;
+  // Fee paid for this transaction; fee_asset may be a crypto asset or a fiat currency.
+  fee_amount?: number | null;
+  fee_asset?: string | null;
+  // Fee value in fiat_currency, if known.
+  fee_fiat_value?: number | null;
+  // Import run that created this transaction, see ImportBatch.
+  import_batch_id?: string | null;
+  // Account holding the asset; null when explicitly unassigned, missing on
+  // transactions stored before accounts existed.
+  account_id?: string | null;
+};
+
+export type AccountType = "exchange" | "hardware_wallet" | "software_wallet";
+
+// Exchange account or wallet of a profile.
+export type Account = {
+  id: string;
+  name: string;
+  type: AccountType;
+  // Optional on-chain addresses belonging to this account.
+  addresses: string[];
+  // Normalized transaction source (e.g. "BINANCE") that imports assign to this account.
+  import_source?: string | null;
+};
+
+export type AccountHoldingsItem = {
+  // null for transactions without an account.
+  account_id: string | null;
+  asset_symbol: string;
+  total_amount: number;
 };
 
 export type HoldingsItem = {
@@ -23,6 +53,11 @@ export type HoldingsItem = {
   total_amount: number;
   value_eur?: number | null;
   value_usd?: number | null;
+  // Cost basis of the remaining open lots in the base currency.
+  cost_basis?: number | null;
+  average_cost?: number | null;
+  // Current base-currency value minus cost basis (requires prices).
+  unrealized_pnl?: number | null;
 };
 
 export type HoldingsResponse = {
@@ -38,28 +73,174 @@ export type CsvImportResult = {
   errors: string[];
 };
 
+export type CostBasisMethod = "FIFO" | "LIFO" | "HIFO" | "AVERAGE";
+
 export type AppConfig = {
   holding_period_days: number;
   upcoming_holding_window_days: number;
   base_currency: "EUR" | "USD";
+  // Lot-matching rule used for all gain computations and reports.
+  cost_basis_method?: CostBasisMethod;
   // Whether the app should query CoinGecko for prices from this browser.
   price_fetch_enabled?: boolean;
   // Optional CoinGecko API key used for price requests.
   coingecko_api_key?: string | null;
+  // Maximum delay between a TRANSFER_OUT and the matching TRANSFER_IN.
+  transfer_match_window_hours?: number;
+  // Maximum share of a transfer that may be lost to network fees, in percent.
+  transfer_match_fee_tolerance_percent?: number;
+  // Minutes without user activity after which the profile is locked; 0 disables it.
+  auto_lock_minutes?: number;
+  // Whether the profile is locked as soon as the browser tab is hidden.
+  lock_on_tab_hidden?: boolean;
 };
 
 export type ExpiringHolding = {
   transaction_id: number;
   asset_symbol: string;
+  // Amount of the lot that is still held.
   amount: number;
+  // Amount of the originating acquisition.
+  original_amount: number;
   timestamp: string;
   holding_period_end: string;
   days_remaining: number;
 };
 
+export type ImportKind = "local_csv" | "binance" | "bitpanda" | "kraken" | "coinbase" | "mapping";
+
 export type ImportProgress = {
-  kind: "local_csv" | "binance" | "bitpanda";
+  kind: ImportKind;
   current: number;
   total: number;
 };
 
+
+// Transaction fields that a column of an arbitrary import file can be mapped to.
+export type ImportMappableField =
+  | "timestamp"
+  | "asset_symbol"
+  | "tx_type"
+  | "amount"
+  | "price_fiat"
+  | "fiat_value"
+  | "fiat_currency"
+  | "fee_amount"
+  | "fee_asset"
+  | "source"
+  | "note"
+  | "tx_id";
+
+export type ImportDateFormat =
+  | "ISO"
+  | "DD.MM.YYYY"
+  | "MM/DD/YYYY"
+  | "DD/MM/YYYY"
+  | "UNIX_SECONDS"
+  | "UNIX_MILLISECONDS";
+
+export type ImportDecimalSeparator = "." | ",";
+
+// Named, reusable column mapping for the generic import wizard (stored per profile).
+export type ImportTemplate = {
+  id: string;
+  name: string;
+  // Source column header per mapped field.
+  columns: Partial<Record<ImportMappableField, string>>;
+  // Source type strings (matched case-insensitively) mapped to a tx_type.
+  type_values: Record<string, string>;
+  date_format: ImportDateFormat;
+  decimal_separator: ImportDecimalSeparator;
+  // "UTC", "local" or an IANA time zone name; used for dates without offset.
+  timezone: string;
+  // Used when no fiat_currency column is mapped.
+  default_fiat_currency: string;
+  // Used when no source column is mapped; falls back to the template name.
+  default_source?: string;
+};
+
+// Header row and data rows of an uploaded CSV / XLSX file, all cells as text.
+export type ImportTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+// A row that an import dry run skipped because its dedup key already exists.
+export type ImportPreviewDuplicate = {
+  message: string;
+  transaction: Transaction;
+};
+
+// Working set of an import dry run, handed to the importer by previewImport.
+// Importers read and write `transactions` and draw temporary ids from
+// `next_id`; nothing reaches the profile until the import is confirmed.
+export type ImportStaging = {
+  transactions: Transaction[];
+  next_id: number;
+  duplicates: ImportPreviewDuplicate[];
+};
+
+export type ImportHoldingsDelta = {
+  asset_symbol: string;
+  before: number;
+  after: number;
+};
+
+// Outcome of an import dry run; nothing is stored until it is confirmed.
+export type ImportPreview = {
+  // Transactions the import would add.
+  transactions: Transaction[];
+  duplicates: ImportPreviewDuplicate[];
+  errors: string[];
+  // Per-asset holdings before and after the import, only assets that change.
+  holdings_delta: ImportHoldingsDelta[];
+  // Earlier imports this file may repeat, see ImportBatchMatch.
+  previous_imports: ImportBatchMatch[];
+};
+
+// One confirmed import run; its id is stored on every transaction it created.
+export type ImportBatch = {
+  id: string;
+  kind: ImportKind;
+  file_name: string;
+  // SHA-256 of the file content (hex).
+  file_hash: string;
+  imported_at: string;
+  transaction_count: number;
+  // Timestamp range of the rows in the file; missing for batches recorded before it was tracked.
+  first_timestamp?: string | null;
+  last_timestamp?: string | null;
+};
+
+// An earlier import that an import preview matches, either by identical file
+// content or by an overlapping date range from the same source.
+export type ImportBatchMatch = {
+  batch: ImportBatch;
+  reason: "same_file" | "overlapping_range";
+};
+
+// Balance an exchange or wallet reported for one asset at a point in time.
+export type ReportedBalance = {
+  id: string;
+  // null compares against the holdings of all accounts together.
+  account_id: string | null;
+  asset_symbol: string;
+  timestamp: string;
+  amount: number;
+};
+
+// Date and number format of a reported-balance file, chosen as in the import wizard.
+export type ReportedBalanceImportFormat = Pick<
+  ImportTemplate,
+  "date_format" | "decimal_separator" | "timezone"
+>;
+
+export type BalanceReconciliation = {
+  balance: ReportedBalance;
+  // Balance computed from the transactions up to balance.timestamp.
+  computed_amount: number;
+  // computed_amount minus the reported amount.
+  difference: number;
+  // Transactions of the account and asset just before and after the timestamp.
+  nearby_transactions: Transaction[];
+};
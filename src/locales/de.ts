@@ -36,7 +36,7 @@ export const de: Record<string, string> = {
   error_delete_tx: "Transaktion konnte nicht gel\u00f6scht werden.",
   error_pdf_export: "PDF-Export fehlgeschlagen.",
   error_save_tx: "Transaktion konnte nicht gespeichert werden.",
-  expiring_col_amount: "Menge",
+  expiring_col_amount: "Verbleibend / ursprünglich",
   expiring_col_asset: "Asset",
   expiring_col_buy_time: "Kaufzeitpunkt",
   expiring_col_days_left: "Tage bis Ende",
@@ -91,6 +91,8 @@ export const de: Record<string, string> = {
   holding_config_title: "Haltefrist",
   holding_reached: "Haltefrist erreicht",
   holdings_col_amount: "Menge",
+  holdings_col_avg_cost: "Ø Einstandspreis",
+  holdings_col_unrealized_pnl: "Unrealisierter G/V",
   holdings_col_asset: "Asset",
   holdings_col_value_eur: "Wert in EUR",
   holdings_col_value_usd: "Wert in USD",
@@ -275,4 +277,297 @@ pdf_col_id: "ID",
   profile_rename_description: "Ändere den Namen des aktiven Profils. Dies hat keinen Einfluss auf die gespeicherten Daten.",
   pin_change_description: "Ändere die PIN für dieses Profil. Die Profildaten bleiben erhalten und werden mit der neuen PIN geschützt.",
   profile_add_another_description: "Erstelle ein weiteres Profil mit eigener PIN. Daten und Einstellungen werden getrennt vom aktuellen Profil gespeichert.",
+  cost_basis_title: "Verbrauchsfolge",
+  cost_basis_method_label: "Methode",
+  cost_basis_hint: "Legt fest, welche Kauf-Lots einem Verkauf zugeordnet werden. Gilt für alle Gewinnberechnungen und Berichte dieses Profils.",
+  cost_basis_method_fifo: "FIFO (first in, first out)",
+  cost_basis_method_lifo: "LIFO (last in, first out)",
+  cost_basis_method_hifo: "HIFO (höchste Kosten zuerst)",
+  cost_basis_method_average: "Durchschnittskosten",
+  gains_compare_title: "Realisierte Gewinne nach Verbrauchsfolge",
+  gains_compare_year_label: "Steuerjahr",
+  gains_compare_description: "Realisierte Gewinne aus Verkäufen im gewählten Jahr nach jeder Verbrauchsfolge. Die aktive Methode ist markiert.",
+  gains_compare_active: "aktiv",
+  gains_compare_unvalued_hint: "Einige Verkäufe oder Käufe konnten nicht in der Basiswährung bewertet werden und fehlen in den Summen.",
+  gains_col_proceeds: "Erlös",
+  gains_col_cost_basis: "Anschaffungskosten",
+  gains_col_gain: "Gewinn / Verlust",
+  tax_de_title: "Private Veräußerungsgeschäfte (§ 23 EStG)",
+  tax_de_open_button: "Bericht § 23 EStG",
+  tax_de_description: "Verkäufe von Kryptowerten, die im gewählten Steuerjahr innerhalb der Haltefrist veräußert wurden, bewertet in EUR mit der aktiven Methode.",
+  tax_de_pdf_title: "Traeky: Private Veräußerungsgeschäfte (§ 23 EStG)",
+  tax_de_section_sales: "Veräußerungen innerhalb der Haltefrist",
+  tax_de_section_anlage_so: "Zwischensummen für die Anlage SO",
+  tax_de_section_summary: "Prüfung der Freigrenze",
+  tax_de_col_acquired: "Angeschafft",
+  tax_de_col_sold: "Veräußert",
+  tax_de_col_days_held: "Haltedauer (Tage)",
+  tax_de_col_proceeds: "Veräußerungspreis",
+  tax_de_col_cost: "Anschaffungskosten",
+  tax_de_col_gain: "Gewinn / Verlust",
+  tax_de_total: "Summe",
+  tax_de_exemption_limit: "Freigrenze",
+  tax_de_taxable_gain: "Steuerpflichtiger Gewinn",
+  tax_de_status_exempt: "Der Gesamtgewinn liegt unter der Freigrenze und bleibt steuerfrei.",
+  tax_de_status_taxable: "Der Gesamtgewinn erreicht die Freigrenze und ist vollständig steuerpflichtig.",
+  tax_de_status_loss: "Das Ergebnis ist ein Verlust. Er kann nur mit Gewinnen aus privaten Veräußerungsgeschäften verrechnet werden.",
+  tax_de_freigrenze_hint: "Die Freigrenze gilt für die Summe aller privaten Veräußerungsgeschäfte des Jahres, auch für Werte außerhalb von Traeky.",
+  tax_de_unvalued_hint: "Einige Verkäufe konnten nicht in EUR bewertet werden und fehlen in den Summen.",
+  tax_de_no_sales: "In diesem Jahr gab es keine Verkäufe innerhalb der Haltefrist.",
+  income_open_button: "Einkünfte-Bericht",
+  income_title: "Einkünfte aus Staking und Rewards",
+  income_description: "Staking-Rewards, Rewards und Airdrops, bewertet zum Zeitpunkt des Zuflusses und gruppiert nach Jahr, Asset und Quelle.",
+  income_loading: "Historische Preise werden abgerufen…",
+  income_empty: "Bisher sind keine Staking-Rewards, Rewards oder Airdrops erfasst.",
+  income_error: "Der Einkünfte-Bericht konnte nicht berechnet werden.",
+  income_col_year: "Jahr",
+  income_col_source: "Quelle",
+  income_col_receipts: "Zuflüsse",
+  income_col_amount: "Menge",
+  income_col_value: "Wert bei Zufluss",
+  income_col_date: "Zugeflossen am",
+  income_year_total: "Summe",
+  income_source_unknown: "Unbekannt",
+  income_unpriced_badge: "ohne Preis",
+  income_unpriced_title: "Zuflüsse ohne Preis",
+  income_unpriced_hint: "Für diese Zuflüsse wurde weder ein historischer Preis noch ein gespeicherter Wert gefunden. Sie fehlen in den Summen.",
+  us_8949_open_button: "Form 8949 / Schedule D",
+  us_8949_title: "Form 8949 / Schedule D (USA)",
+  us_8949_pdf_title: "Traeky: Form 8949 / Schedule D",
+  us_8949_description: "Realisierte Gewinne aus Verkäufen im gewählten Steuerjahr, bewertet in USD mit der aktiven Methode und aufgeteilt in kurz- und langfristig.",
+  us_8949_short_term: "Part I – Kurzfristig (bis 365 Tage gehalten)",
+  us_8949_long_term: "Part II – Langfristig (länger als 365 Tage gehalten)",
+  us_8949_schedule_d_title: "Summen für Schedule D",
+  us_8949_col_description: "Beschreibung",
+  us_8949_col_acquired: "Angeschafft",
+  us_8949_col_sold: "Verkauft",
+  us_8949_col_proceeds: "Erlös",
+  us_8949_col_cost: "Anschaffungskosten",
+  us_8949_col_gain: "Gewinn / Verlust",
+  us_8949_col_term: "Frist",
+  us_8949_col_rows: "Zeilen",
+  us_8949_term_short: "Kurzfristig",
+  us_8949_term_long: "Langfristig",
+  us_8949_total: "Summe",
+  us_8949_empty: "Keine Verkäufe in diesem Teil.",
+  us_8949_unvalued_hint: "Einige Verkäufe konnten nicht in USD bewertet werden und fehlen in den Summen.",
+  simulator_open_button: "Verkauf simulieren",
+  simulator_title: "Verkaufssimulation",
+  simulator_description: "Simuliere einen Verkauf gegen deine offenen Lots mit der aktiven Methode und Haltefrist.",
+  simulator_price_label: "Preis pro Einheit",
+  simulator_date_label: "Verkaufsdatum",
+  simulator_tax_rate_label: "Steuersatz (%)",
+  simulator_unmatched_hint: "Zu diesem Datum gibt es nicht genug offene Lots. Nicht gedeckt:",
+  simulator_gain_within: "Gewinn innerhalb der Haltefrist (steuerpflichtig)",
+  simulator_gain_outside: "Gewinn nach Ablauf der Haltefrist (steuerfrei)",
+  simulator_estimated_tax: "Geschätzte Steuer",
+  simulator_lots_title: "Verbrauchte Lots",
+  simulator_lot_within: "innerhalb der Haltefrist",
+  simulator_lot_outside: "Haltefrist erreicht",
+  simulator_no_write_hint: "Dies ist nur eine Simulation. Es wird keine Transaktion gespeichert.",
+  harvest_open_button: "Verlustverrechnung",
+  harvest_title: "Verluste realisieren (Tax-Loss Harvesting)",
+  harvest_description: "Offene Lots, die aktuell unter ihren Anschaffungskosten notieren, bewertet mit den letzten Preisen und der aktiven Methode.",
+  harvest_prices_disabled_hint: "Der Preisabruf ist deaktiviert, daher sind keine aktuellen Preise verfügbar.",
+  harvest_empty: "Derzeit liegt kein offenes Lot unter seinen Anschaffungskosten.",
+  harvest_within_total: "Davon innerhalb der Haltefrist (mit steuerpflichtigen Gewinnen verrechenbar):",
+  harvest_col_unit_cost: "Kosten pro Einheit",
+  harvest_col_current_price: "Aktueller Preis",
+  harvest_col_loss: "Realisierbarer Verlust",
+  harvest_hint: "Nur Verluste aus Lots innerhalb der Haltefrist sind mit steuerpflichtigen Gewinnen verrechenbar. Welche Lots ein Verkauf verbraucht, hängt von der Methode ab.",
+  form_fee_amount: "Gebühr",
+  form_fee_asset: "Gebühren-Asset",
+  form_fee_asset_placeholder: "Standard ist die Fiat-Währung, z. B. EUR oder BTC",
+  tx_error_fee_invalid: "Bitte gib eine gültige Gebühr von 0 oder mehr ein.",
+  external_import_source_kraken_csv: "Kraken Ledger (CSV)",
+  csv_import_kraken_file_too_short: "Kraken-Ledger-CSV enthält zu wenige Zeilen (möglicherweise nur Kopfzeile oder leer).",
+  csv_import_kraken_unbalanced_trade: "Kraken-Trade ohne genau einen ausgehenden und einen eingehenden Teil (nicht importiert):",
+  csv_import_kraken_unsupported_type: "Nicht unterstützter Kraken-Ledger-Typ (nicht importiert):",
+  external_import_source_coinbase_csv: "Coinbase (CSV)",
+  csv_import_coinbase_header_not_found: "Coinbase-Kopfzeile (Timestamp / Transaction Type) wurde nicht gefunden.",
+  csv_import_coinbase_unsupported_type: "Nicht unterstützter Coinbase-Transaktionstyp (nicht importiert):",
+  csv_import_coinbase_convert_unparsed: "Coinbase-Convert ohne Notiz „Converted X to Y“ (nicht importiert).",
+  import_wizard_open_button: "Spalten manuell zuordnen…",
+  import_wizard_title: "Import mit Spaltenzuordnung",
+  import_wizard_step_prefix: "Schritt",
+  import_wizard_step_1: "Datei und Vorlage wählen",
+  import_wizard_step_2: "Spalten zuordnen",
+  import_wizard_step_3: "Transaktionstypen zuordnen",
+  import_wizard_step_4: "Formate, Vorlage und Import",
+  import_wizard_template_label: "Vorlage",
+  import_wizard_template_new: "Neue Zuordnung",
+  import_wizard_rows_found: "Gefundene Datenzeilen:",
+  import_wizard_empty_file: "Die Datei enthält keine Kopfzeile oder keine Datenzeilen.",
+  import_wizard_read_error: "Die Datei konnte nicht als CSV oder XLSX gelesen werden.",
+  import_wizard_column_none: "– nicht zugeordnet –",
+  import_wizard_field_fiat_value: "Gesamtwert",
+  import_wizard_type_hint: "Ordne jedem Wert der Typ-Spalte einen Transaktionstyp zu. Nicht zugeordnete Werte werden nur übernommen, wenn sie bereits ein Traeky-Typ sind (z. B. BUY).",
+  import_wizard_type_as_is: "– unverändert –",
+  import_wizard_date_format: "Datumsformat",
+  import_wizard_date_format_iso: "ISO (2024-01-31 13:45:00)",
+  import_wizard_date_format_dmy_dot: "TT.MM.JJJJ (31.01.2024 13:45)",
+  import_wizard_date_format_mdy_slash: "MM/TT/JJJJ (01/31/2024 1:45 PM)",
+  import_wizard_date_format_dmy_slash: "TT/MM/JJJJ (31/01/2024 13:45)",
+  import_wizard_date_format_unix_seconds: "Unix-Zeit (Sekunden)",
+  import_wizard_date_format_unix_milliseconds: "Unix-Zeit (Millisekunden)",
+  import_wizard_decimal_separator: "Zahlenformat",
+  import_wizard_timezone: "Zeitzone der Datumswerte",
+  import_wizard_timezone_invalid: "Unbekannte Zeitzone. Verwende UTC, local oder einen IANA-Namen wie Europe/Berlin.",
+  import_wizard_default_fiat: "Fiat-Währung, falls keine Spalte zugeordnet ist",
+  import_wizard_template_name: "Name der Vorlage",
+  import_wizard_template_name_placeholder: "z. B. Meine Börse",
+  import_wizard_template_name_required: "Bitte gib einen Namen für die Vorlage ein.",
+  import_wizard_template_save: "Vorlage speichern",
+  import_wizard_template_delete: "Vorlage löschen",
+  import_wizard_template_delete_confirm: "Diese Vorlage löschen?",
+  import_wizard_template_save_error: "Die Vorlage konnte nicht gespeichert werden.",
+  import_wizard_preview_title: "Vorschau (erste Zeilen)",
+  import_wizard_back: "Zurück",
+  import_wizard_next: "Weiter",
+  import_wizard_import: "Importieren",
+  import_wizard_error_missing_value: "Fehlender Wert für",
+  import_wizard_error_invalid_date: "Ungültiges Datum:",
+  import_wizard_error_invalid_amount: "Ungültige Menge:",
+  import_wizard_error_invalid_number: "Ungültige Zahl in",
+  import_wizard_error_unknown_type: "Kein Transaktionstyp zugeordnet für:",
+  import_wizard_error_unsupported_asset: "Nicht unterstütztes Asset-Symbol (nicht importiert):",
+  import_preview_title: "Import-Vorschau",
+  import_preview_description: "Es wurde noch nichts gespeichert. Prüfe das Ergebnis und bestätige, um die neuen Transaktionen zu übernehmen.",
+  import_preview_new: "Neu:",
+  import_preview_duplicates: "Duplikate:",
+  import_preview_errors: "Fehler:",
+  import_preview_holdings_title: "Änderung der Bestände",
+  import_preview_holdings_unchanged: "Der Import verändert keine Bestände.",
+  import_preview_col_before: "Vorher",
+  import_preview_col_after: "Nachher",
+  import_preview_col_change: "Änderung",
+  import_preview_transactions_title: "Neue Transaktionen",
+  import_preview_more_rows: "Weitere, nicht angezeigte Transaktionen:",
+  import_preview_duplicates_title: "Als Duplikat übersprungen:",
+  import_preview_confirm: "Import bestätigen",
+  import_preview_confirm_error: "Der Import konnte nicht gespeichert werden.",
+  import_history_open_button: "Import-Verlauf",
+  import_history_title: "Import-Verlauf",
+  import_history_empty: "Noch keine Importe erfasst.",
+  import_history_col_date: "Importiert am",
+  import_history_col_kind: "Quelle",
+  import_history_col_file: "Datei",
+  import_history_col_count: "Transaktionen",
+  import_history_col_hash: "Datei-Hash",
+  import_history_undo: "Rückgängig",
+  import_history_undo_confirm: "Alle durch diesen Import angelegten Transaktionen löschen? Deine Änderungen daran gehen ebenfalls verloren.",
+  import_history_undo_error: "Der Import konnte nicht rückgängig gemacht werden.",
+  import_history_kind_local_csv: "Traeky-CSV",
+  import_history_kind_mapping: "Spaltenzuordnung",
+  import_preview_reimport_warning: "Diese Datei wurde möglicherweise bereits importiert. Zeilen ohne Transaktions-ID (z. B. Binance) können dann doppelt gespeichert werden.",
+  import_preview_reimport_same_file: "Identische Datei bereits importiert:",
+  import_preview_reimport_overlap: "Zeitraum überschneidet sich mit einem früheren Import aus derselben Quelle:",
+  import_preview_reimport_imported_at: "importiert",
+  import_history_col_range: "Zeitraum",
+  duplicates_open_button: "Duplikate finden",
+  duplicates_title: "Mögliche Duplikate",
+  duplicates_description: "Transaktionen mit gleichem Asset und Typ, deren Menge und Zeitpunkt nah beieinander liegen, z. B. ein manueller Eintrag und derselbe Trade aus einem Börsen-Import. Behalte einen Eintrag, um das Paar zusammenzuführen; fehlende Werte wie Transaktions-ID oder Gebühren werden aus dem anderen Eintrag übernommen.",
+  duplicates_tolerance_label: "Toleranz der Menge (%)",
+  duplicates_window_label: "Zeitfenster (Minuten)",
+  duplicates_search: "Suchen",
+  duplicates_searching: "Suche nach Duplikaten...",
+  duplicates_none: "Keine möglichen Duplikate gefunden.",
+  duplicates_keep: "Diesen behalten",
+  duplicates_dismiss: "Kein Duplikat",
+  duplicates_difference: "Abweichung:",
+  duplicates_minutes: "min",
+  duplicates_merge_confirm: "Paar zusammenführen und die andere Transaktion löschen?",
+  duplicates_options_invalid: "Bitte gib eine nicht negative Toleranz und ein Zeitfenster an.",
+  duplicates_error: "Die Duplikatsuche ist fehlgeschlagen.",
+  transfer_match_title: "Transfer-Abgleich",
+  transfer_match_description: "Auszahlungen (TRANSFER OUT) werden mit der Einzahlung desselben Assets an anderer Stelle (TRANSFER IN) verknüpft, zuerst über die Transaktions-ID, sonst über Menge und Zeitpunkt. Verknüpfte Transfers behalten Anschaffungskosten und Haltedauer und zählen nicht als Veräußerung; nur die Netzwerkgebühr verlässt deinen Bestand. Neue Importe werden automatisch abgeglichen.",
+  transfer_match_window_label: "Zeitfenster (Stunden)",
+  transfer_match_tolerance_label: "Maximale Netzwerkgebühr (% der Menge)",
+  transfer_match_button: "Speichern und jetzt abgleichen",
+  transfer_match_result: "Neu verknüpfte Transfers:",
+  transfer_match_invalid: "Bitte gib ein nicht negatives Zeitfenster und eine Gebührentoleranz an.",
+  transfer_match_error: "Die Transfers konnten nicht abgeglichen werden.",
+  form_account: "Konto",
+  form_account_none: "Kein Konto",
+  holdings_account_filter_label: "Bestände anzeigen für",
+  holdings_account_all: "Alle Konten",
+  accounts_open_button: "Konten",
+  accounts_title: "Konten und Wallets",
+  accounts_description: "Börsenkonten und Wallets, in denen deine Assets liegen. Importe ordnen ihre Transaktionen automatisch dem Konto ihrer Quelle zu; Quellen, die sich nur in der Schreibweise unterscheiden, teilen sich ein Konto.",
+  accounts_empty: "Noch keine Konten.",
+  accounts_col_name: "Name",
+  accounts_col_type: "Typ",
+  accounts_col_addresses: "Adressen",
+  accounts_col_transactions: "Transaktionen",
+  accounts_type_exchange: "Börse",
+  accounts_type_hardware_wallet: "Hardware-Wallet",
+  accounts_type_software_wallet: "Software-Wallet",
+  accounts_addresses_placeholder: "Optional, eine Adresse pro Zeile",
+  accounts_new_title: "Neues Konto",
+  accounts_edit_title: "Konto bearbeiten",
+  accounts_save: "Konto speichern",
+  accounts_delete_move_label: "Transaktionen dieses Kontos verschieben nach",
+  accounts_delete_confirm: "Konto löschen",
+  accounts_name_required: "Bitte gib einen Namen ein.",
+  accounts_error: "Das Konto konnte nicht gespeichert werden.",
+  reconcile_open_button: "Bestände abgleichen",
+  reconcile_title: "Bestandsabgleich",
+  reconcile_description: "Gib den Bestand ein, den eine Börse oder Wallet für ein Asset zu einem Zeitpunkt meldet. Er wird mit dem Bestand verglichen, der sich aus deinen Transaktionen bis zu diesem Zeitpunkt ergibt. Eine Abweichung deutet auf vom Import übersprungene Zeilen oder fehlende Transaktionen hin.",
+  reconcile_add: "Bestand hinzufügen",
+  reconcile_import_button: "Bestände importieren",
+  reconcile_import_hint: "Der Import erwartet eine CSV- oder Excel-Datei mit einer Datums-, einer Asset- und einer Bestandsspalte und ordnet alle Zeilen dem gewählten Konto zu.",
+  reconcile_col_reported: "Gemeldeter Bestand",
+  reconcile_col_computed: "Berechneter Bestand",
+  reconcile_col_difference: "Abweichung",
+  reconcile_match: "Stimmt überein",
+  reconcile_show_transactions: "Transaktionen",
+  reconcile_no_transactions: "Keine Transaktionen für dieses Asset in diesem Konto.",
+  reconcile_empty: "Noch keine gemeldeten Bestände.",
+  reconcile_form_invalid: "Bitte gib ein Asset, ein gültiges Datum und einen numerischen Bestand ein.",
+  reconcile_import_missing_columns: "Die Datei benötigt eine Datums-, eine Asset- und eine Bestandsspalte.",
+  reconcile_import_invalid_row: "Datum, Asset oder Bestand fehlt oder ist ungültig (nicht importiert).",
+  reconcile_error: "Die gemeldeten Bestände konnten nicht verarbeitet werden.",
+  pin_error_locked: "Zu viele falsche PINs. Dieses Profil ist gesperrt für",
+  pin_error_locked_minutes: "Minuten.",
+  pin_error_backoff: "Falsche PIN. Bitte warte",
+  pin_error_backoff_seconds: "Sekunden, bevor du es erneut versuchst.",
+  profile_menu_passkey: "Passkey",
+  passkey_title: "Passkey",
+  passkey_description: "Entsperre dieses Profil mit einem Passkey dieses Geräts (z. B. Fingerabdruck oder Gesichtserkennung), statt die PIN einzugeben. Die PIN funktioniert weiterhin. Der Passkey muss die PRF-Erweiterung unterstützen.",
+  passkey_none: "Für dieses Profil ist kein Passkey registriert.",
+  passkey_registered_at: "Passkey registriert am",
+  passkey_register_button: "Passkey registrieren",
+  passkey_replace_button: "Neuen Passkey registrieren",
+  passkey_remove_button: "Passkey entfernen",
+  passkey_remove_confirm: "Passkey von diesem Profil entfernen? Du kannst es weiterhin mit der PIN entsperren.",
+  passkey_register_error: "Der Passkey konnte nicht registriert werden. Dein Browser oder Gerät unterstützt die PRF-Erweiterung möglicherweise nicht.",
+  passkey_login_button: "Mit Passkey entsperren",
+  passkey_login_error: "Das Profil konnte nicht mit dem Passkey entsperrt werden.",
+  auto_lock_title: "Automatische Sperre",
+  auto_lock_description: "Sperrt das Profil nach einer Zeit ohne Aktivität, sodass die PIN erneut eingegeben werden muss. Nicht gespeicherte Eingaben in offenen Formularen bleiben erhalten.",
+  auto_lock_minutes_label: "Sperren nach Minuten ohne Aktivität (0 = nie)",
+  auto_lock_tab_hidden_label: "Sperren, sobald dieser Tab ausgeblendet wird",
+  auto_lock_saved: "Einstellungen zur automatischen Sperre gespeichert.",
+  auto_lock_invalid: "Bitte gib eine Anzahl Minuten von 0 oder mehr ein.",
+  backup_title: "Backup",
+  backup_description: "Ein Backup enthält alle Daten dieses Profils: Transaktionen, Einstellungen, Konten, Importvorlagen und -verlauf sowie die Preis-Caches. Es ist mit einem eigenen Passwort verschlüsselt und kann auf einem anderen Gerät oder einer anderen Traeky-Installation wiederhergestellt werden.",
+  backup_export_title: "Backup erstellen",
+  backup_password_label: "Backup-Passwort",
+  backup_password_confirm_label: "Backup-Passwort wiederholen",
+  backup_export_button: "Verschlüsseltes Backup herunterladen",
+  backup_export_done: "Das Backup wurde heruntergeladen. Bewahre das Passwort gut auf, ohne es kann das Backup nicht wiederhergestellt werden.",
+  backup_export_error: "Das Backup konnte nicht erstellt werden.",
+  backup_restore_title: "Backup wiederherstellen",
+  backup_restore_file_label: "Backup-Datei",
+  backup_restore_target_label: "Wiederherstellen in",
+  backup_restore_target_new: "Ein neues Profil",
+  backup_restore_target_active: "Dieses Profil (ersetzt alle seine Daten)",
+  backup_restore_name_placeholder: "Name aus dem Backup",
+  backup_restore_button: "Backup wiederherstellen",
+  backup_restore_confirm_replace: "Alle Daten dieses Profils durch das Backup ersetzen? Das kann nicht rückgängig gemacht werden.",
+  backup_restore_done: "Das Backup wurde wiederhergestellt.",
+  backup_restore_error: "Das Backup konnte nicht wiederhergestellt werden. Bitte prüfe die Datei und das Passwort.",
+  backup_error_password_required: "Bitte gib ein Backup-Passwort ein.",
+  backup_error_password_mismatch: "Die Passwörter stimmen nicht überein.",
+  backup_error_file_required: "Bitte wähle eine Backup-Datei aus.",
 };export default de;
\ No newline at end of file
@@ -36,7 +36,7 @@ export const en: Record<string, string> = {
   error_delete_tx: "Failed to delete transaction.",
   error_pdf_export: "PDF export failed.",
   error_save_tx: "Failed to save transaction.",
-  expiring_col_amount: "Amount",
+  expiring_col_amount: "Remaining / original",
   expiring_col_asset: "Asset",
   expiring_col_buy_time: "Buy time",
   expiring_col_days_left: "Days left",
@@ -91,6 +91,8 @@ export const en: Record<string, string> = {
   holding_config_title: "Holding period",
   holding_reached: "Holding period reached",
   holdings_col_amount: "Amount",
+  holdings_col_avg_cost: "Avg. cost",
+  holdings_col_unrealized_pnl: "Unrealized P&L",
   holdings_col_asset: "Asset",
   holdings_col_value_eur: "Value in EUR",
   holdings_col_value_usd: "Value in USD",
@@ -275,4 +277,297 @@ pdf_col_id: "ID",
   profile_rename_description: "Change the name of the active profile. This does not affect the stored data.",
   pin_change_description: "Change the PIN for this profile. The profile data will stay the same and remain protected by the new PIN.",
   profile_add_another_description: "Create another profile with its own PIN. Data and settings are stored separately from the current profile.",
+  cost_basis_title: "Cost-basis method",
+  cost_basis_method_label: "Method",
+  cost_basis_hint: "Determines which acquisition lots are matched against a sale. This applies to all gain computations and reports of this profile.",
+  cost_basis_method_fifo: "FIFO (first in, first out)",
+  cost_basis_method_lifo: "LIFO (last in, first out)",
+  cost_basis_method_hifo: "HIFO (highest cost first)",
+  cost_basis_method_average: "Average cost",
+  gains_compare_title: "Realized gains by cost-basis method",
+  gains_compare_year_label: "Tax year",
+  gains_compare_description: "Realized gains from sales in the selected year under each cost-basis method. The active method is marked.",
+  gains_compare_active: "active",
+  gains_compare_unvalued_hint: "Some sales or acquisitions could not be valued in the base currency and are not included in the totals.",
+  gains_col_proceeds: "Proceeds",
+  gains_col_cost_basis: "Cost basis",
+  gains_col_gain: "Gain / loss",
+  tax_de_title: "Private sales (§ 23 EStG)",
+  tax_de_open_button: "§ 23 EStG report",
+  tax_de_description: "Sales of crypto assets held for less than the holding period in the selected tax year, valued in EUR with the active cost-basis method.",
+  tax_de_pdf_title: "Traeky: Private sales (§ 23 EStG)",
+  tax_de_section_sales: "Sales within the holding period",
+  tax_de_section_anlage_so: "Subtotals for Anlage SO",
+  tax_de_section_summary: "Freigrenze check",
+  tax_de_col_acquired: "Acquired",
+  tax_de_col_sold: "Sold",
+  tax_de_col_days_held: "Days held",
+  tax_de_col_proceeds: "Sale price",
+  tax_de_col_cost: "Acquisition cost",
+  tax_de_col_gain: "Gain / loss",
+  tax_de_total: "Total",
+  tax_de_exemption_limit: "Freigrenze",
+  tax_de_taxable_gain: "Taxable gain",
+  tax_de_status_exempt: "The net gain stays below the Freigrenze and is tax-free.",
+  tax_de_status_taxable: "The net gain reaches the Freigrenze and is taxable in full.",
+  tax_de_status_loss: "The net result is a loss. It can only be offset against gains from private sales.",
+  tax_de_freigrenze_hint: "The Freigrenze applies to the sum of all private sales of the year, including assets not tracked in Traeky.",
+  tax_de_unvalued_hint: "Some sales could not be valued in EUR and are not included in the totals.",
+  tax_de_no_sales: "No sales within the holding period in this year.",
+  income_open_button: "Income report",
+  income_title: "Staking and reward income",
+  income_description: "Staking rewards, rewards and airdrops valued at the time of receipt, grouped by year, asset and source.",
+  income_loading: "Fetching historical prices…",
+  income_empty: "No staking rewards, rewards or airdrops recorded yet.",
+  income_error: "The income report could not be computed.",
+  income_col_year: "Year",
+  income_col_source: "Source",
+  income_col_receipts: "Receipts",
+  income_col_amount: "Amount",
+  income_col_value: "Value at receipt",
+  income_col_date: "Received",
+  income_year_total: "Total",
+  income_source_unknown: "Unknown",
+  income_unpriced_badge: "not priced",
+  income_unpriced_title: "Receipts without a price",
+  income_unpriced_hint: "No historical price or stored value was found for these receipts. They are not included in the totals.",
+  us_8949_open_button: "Form 8949 / Schedule D",
+  us_8949_title: "Form 8949 / Schedule D",
+  us_8949_pdf_title: "Traeky: Form 8949 / Schedule D",
+  us_8949_description: "Realized gains from sales in the selected tax year, valued in USD with the active cost-basis method and split into short-term and long-term.",
+  us_8949_short_term: "Part I – Short-term (held 365 days or less)",
+  us_8949_long_term: "Part II – Long-term (held more than 365 days)",
+  us_8949_schedule_d_title: "Schedule D totals",
+  us_8949_col_description: "Description of property",
+  us_8949_col_acquired: "Date acquired",
+  us_8949_col_sold: "Date sold",
+  us_8949_col_proceeds: "Proceeds",
+  us_8949_col_cost: "Cost basis",
+  us_8949_col_gain: "Gain or (loss)",
+  us_8949_col_term: "Term",
+  us_8949_col_rows: "Rows",
+  us_8949_term_short: "Short-term",
+  us_8949_term_long: "Long-term",
+  us_8949_total: "Total",
+  us_8949_empty: "No sales in this part.",
+  us_8949_unvalued_hint: "Some sales could not be valued in USD and are not included in the totals.",
+  simulator_open_button: "What-if sale",
+  simulator_title: "What-if sale simulator",
+  simulator_description: "Simulate a sale against your open lots with the active cost-basis method and holding period.",
+  simulator_price_label: "Price per unit",
+  simulator_date_label: "Sale date",
+  simulator_tax_rate_label: "Tax rate (%)",
+  simulator_unmatched_hint: "Not enough open lots at this date. Not covered:",
+  simulator_gain_within: "Gain within holding period (taxable)",
+  simulator_gain_outside: "Gain after holding period (tax-free)",
+  simulator_estimated_tax: "Estimated tax",
+  simulator_lots_title: "Lots consumed",
+  simulator_lot_within: "within holding period",
+  simulator_lot_outside: "holding period reached",
+  simulator_no_write_hint: "This is a simulation only. No transaction is saved.",
+  harvest_open_button: "Tax-loss harvesting",
+  harvest_title: "Tax-loss harvesting",
+  harvest_description: "Open lots that currently trade below their cost basis, valued with the latest prices and the active cost-basis method.",
+  harvest_prices_disabled_hint: "Price fetching is disabled, so current prices are not available.",
+  harvest_empty: "No open lots are currently below their cost basis.",
+  harvest_within_total: "Of which within the holding period (offsets taxable gains):",
+  harvest_col_unit_cost: "Cost per unit",
+  harvest_col_current_price: "Current price",
+  harvest_col_loss: "Realizable loss",
+  harvest_hint: "Only losses from lots inside the holding period can be offset against taxable gains. Which lots a sale consumes depends on the cost-basis method.",
+  form_fee_amount: "Fee",
+  form_fee_asset: "Fee asset",
+  form_fee_asset_placeholder: "Defaults to the fiat currency, e.g. EUR or BTC",
+  tx_error_fee_invalid: "Please enter a valid fee of 0 or more.",
+  external_import_source_kraken_csv: "Kraken ledger (CSV)",
+  csv_import_kraken_file_too_short: "Kraken ledger CSV contains too few rows (possibly only header or empty).",
+  csv_import_kraken_unbalanced_trade: "Kraken trade without exactly one outgoing and one incoming leg (not imported):",
+  csv_import_kraken_unsupported_type: "Unsupported Kraken ledger type (not imported):",
+  external_import_source_coinbase_csv: "Coinbase (CSV)",
+  csv_import_coinbase_header_not_found: "Could not find Coinbase header row (Timestamp / Transaction Type).",
+  csv_import_coinbase_unsupported_type: "Unsupported Coinbase transaction type (not imported):",
+  csv_import_coinbase_convert_unparsed: "Coinbase convert without \"Converted X to Y\" notes (not imported).",
+  import_wizard_open_button: "Map columns manually…",
+  import_wizard_title: "Import with column mapping",
+  import_wizard_step_prefix: "Step",
+  import_wizard_step_1: "Choose file and template",
+  import_wizard_step_2: "Map columns",
+  import_wizard_step_3: "Map transaction types",
+  import_wizard_step_4: "Formats, template and import",
+  import_wizard_template_label: "Template",
+  import_wizard_template_new: "New mapping",
+  import_wizard_rows_found: "Data rows found:",
+  import_wizard_empty_file: "The file contains no header or no data rows.",
+  import_wizard_read_error: "The file could not be read as CSV or XLSX.",
+  import_wizard_column_none: "– not mapped –",
+  import_wizard_field_fiat_value: "Total value",
+  import_wizard_type_hint: "Assign a transaction type to each value of the type column. Values left unassigned are only accepted if they already are a Traeky type (e.g. BUY).",
+  import_wizard_type_as_is: "– keep as is –",
+  import_wizard_date_format: "Date format",
+  import_wizard_date_format_iso: "ISO (2024-01-31 13:45:00)",
+  import_wizard_date_format_dmy_dot: "DD.MM.YYYY (31.01.2024 13:45)",
+  import_wizard_date_format_mdy_slash: "MM/DD/YYYY (01/31/2024 1:45 PM)",
+  import_wizard_date_format_dmy_slash: "DD/MM/YYYY (31/01/2024 13:45)",
+  import_wizard_date_format_unix_seconds: "Unix time (seconds)",
+  import_wizard_date_format_unix_milliseconds: "Unix time (milliseconds)",
+  import_wizard_decimal_separator: "Number format",
+  import_wizard_timezone: "Time zone of the dates",
+  import_wizard_timezone_invalid: "Unknown time zone. Use UTC, local or an IANA name such as Europe/Berlin.",
+  import_wizard_default_fiat: "Fiat currency if no column is mapped",
+  import_wizard_template_name: "Template name",
+  import_wizard_template_name_placeholder: "e.g. My exchange",
+  import_wizard_template_name_required: "Please enter a template name.",
+  import_wizard_template_save: "Save template",
+  import_wizard_template_delete: "Delete template",
+  import_wizard_template_delete_confirm: "Delete this template?",
+  import_wizard_template_save_error: "The template could not be saved.",
+  import_wizard_preview_title: "Preview (first rows)",
+  import_wizard_back: "Back",
+  import_wizard_next: "Next",
+  import_wizard_import: "Import",
+  import_wizard_error_missing_value: "Missing value for",
+  import_wizard_error_invalid_date: "Invalid date:",
+  import_wizard_error_invalid_amount: "Invalid amount:",
+  import_wizard_error_invalid_number: "Invalid number in",
+  import_wizard_error_unknown_type: "No transaction type mapped for:",
+  import_wizard_error_unsupported_asset: "Unsupported asset symbol (not imported):",
+  import_preview_title: "Import preview",
+  import_preview_description: "Nothing has been saved yet. Review the result and confirm to store the new transactions.",
+  import_preview_new: "New:",
+  import_preview_duplicates: "Duplicates:",
+  import_preview_errors: "Errors:",
+  import_preview_holdings_title: "Holdings change",
+  import_preview_holdings_unchanged: "The import does not change any holdings.",
+  import_preview_col_before: "Before",
+  import_preview_col_after: "After",
+  import_preview_col_change: "Change",
+  import_preview_transactions_title: "New transactions",
+  import_preview_more_rows: "Further transactions not shown:",
+  import_preview_duplicates_title: "Skipped as duplicates:",
+  import_preview_confirm: "Confirm import",
+  import_preview_confirm_error: "The import could not be saved.",
+  import_history_open_button: "Import history",
+  import_history_title: "Import history",
+  import_history_empty: "No imports recorded yet.",
+  import_history_col_date: "Imported at",
+  import_history_col_kind: "Source",
+  import_history_col_file: "File",
+  import_history_col_count: "Transactions",
+  import_history_col_hash: "File hash",
+  import_history_undo: "Undo",
+  import_history_undo_confirm: "Delete all transactions created by this import? Edits you made to them will be lost as well.",
+  import_history_undo_error: "The import could not be undone.",
+  import_history_kind_local_csv: "Traeky CSV",
+  import_history_kind_mapping: "Column mapping",
+  import_preview_reimport_warning: "This file may already have been imported. Rows without a transaction ID (e.g. Binance) can then be stored twice.",
+  import_preview_reimport_same_file: "Identical file imported before:",
+  import_preview_reimport_overlap: "Date range overlaps an earlier import from the same source:",
+  import_preview_reimport_imported_at: "imported",
+  import_history_col_range: "Date range",
+  duplicates_open_button: "Find duplicates",
+  duplicates_title: "Possible duplicates",
+  duplicates_description: "Transactions with the same asset and type whose amounts and times are close, e.g. a manual entry and the same trade from an exchange import. Keep one entry to merge the pair; missing values such as the transaction ID or fees are taken over from the other entry.",
+  duplicates_tolerance_label: "Amount tolerance (%)",
+  duplicates_window_label: "Time window (minutes)",
+  duplicates_search: "Search",
+  duplicates_searching: "Searching for duplicates...",
+  duplicates_none: "No possible duplicates found.",
+  duplicates_keep: "Keep this one",
+  duplicates_dismiss: "Not a duplicate",
+  duplicates_difference: "Difference:",
+  duplicates_minutes: "min",
+  duplicates_merge_confirm: "Merge the pair and delete the other transaction?",
+  duplicates_options_invalid: "Please enter a non-negative tolerance and time window.",
+  duplicates_error: "The duplicate search failed.",
+  transfer_match_title: "Transfer matching",
+  transfer_match_description: "Withdrawals (TRANSFER OUT) are linked to the deposit of the same asset elsewhere (TRANSFER IN), first by transaction ID, otherwise by amount and time. Linked transfers keep their cost basis and holding period and do not count as disposals; only the network fee leaves your holdings. New imports are matched automatically.",
+  transfer_match_window_label: "Time window (hours)",
+  transfer_match_tolerance_label: "Maximum network fee (% of the amount)",
+  transfer_match_button: "Save and match now",
+  transfer_match_result: "Newly linked transfers:",
+  transfer_match_invalid: "Please enter a non-negative time window and fee tolerance.",
+  transfer_match_error: "Transfers could not be matched.",
+  form_account: "Account",
+  form_account_none: "No account",
+  holdings_account_filter_label: "Show holdings for",
+  holdings_account_all: "All accounts",
+  accounts_open_button: "Accounts",
+  accounts_title: "Accounts and wallets",
+  accounts_description: "Exchange accounts and wallets that hold your assets. Imports assign their transactions to the account of their source automatically; sources that differ only in spelling share one account.",
+  accounts_empty: "No accounts yet.",
+  accounts_col_name: "Name",
+  accounts_col_type: "Type",
+  accounts_col_addresses: "Addresses",
+  accounts_col_transactions: "Transactions",
+  accounts_type_exchange: "Exchange",
+  accounts_type_hardware_wallet: "Hardware wallet",
+  accounts_type_software_wallet: "Software wallet",
+  accounts_addresses_placeholder: "Optional, one address per line",
+  accounts_new_title: "New account",
+  accounts_edit_title: "Edit account",
+  accounts_save: "Save account",
+  accounts_delete_move_label: "Move the transactions of this account to",
+  accounts_delete_confirm: "Delete account",
+  accounts_name_required: "Please enter a name.",
+  accounts_error: "The account could not be saved.",
+  reconcile_open_button: "Reconcile balances",
+  reconcile_title: "Balance reconciliation",
+  reconcile_description: "Enter the balance an exchange or wallet reports for an asset at a point in time. It is compared with the balance computed from your transactions up to that time. A difference points to rows an import skipped or transactions that are missing.",
+  reconcile_add: "Add balance",
+  reconcile_import_button: "Import balances",
+  reconcile_import_hint: "The import expects a CSV or Excel file with a date, an asset and a balance column and assigns all rows to the selected account.",
+  reconcile_col_reported: "Reported balance",
+  reconcile_col_computed: "Computed balance",
+  reconcile_col_difference: "Difference",
+  reconcile_match: "Matches",
+  reconcile_show_transactions: "Transactions",
+  reconcile_no_transactions: "No transactions for this asset in this account.",
+  reconcile_empty: "No reported balances yet.",
+  reconcile_form_invalid: "Please enter an asset, a valid date and a numeric balance.",
+  reconcile_import_missing_columns: "The file needs a date, an asset and a balance column.",
+  reconcile_import_invalid_row: "Date, asset or balance missing or invalid (not imported).",
+  reconcile_error: "The reported balances could not be processed.",
+  pin_error_locked: "Too many incorrect PINs. This profile is locked for",
+  pin_error_locked_minutes: "minutes.",
+  pin_error_backoff: "Incorrect PIN. Please wait",
+  pin_error_backoff_seconds: "seconds before trying again.",
+  profile_menu_passkey: "Passkey",
+  passkey_title: "Passkey",
+  passkey_description: "Unlock this profile with a passkey of this device (e.g. fingerprint or face recognition) instead of typing the PIN. The PIN keeps working. The passkey must support the PRF extension.",
+  passkey_none: "No passkey is registered for this profile.",
+  passkey_registered_at: "Passkey registered on",
+  passkey_register_button: "Register passkey",
+  passkey_replace_button: "Register new passkey",
+  passkey_remove_button: "Remove passkey",
+  passkey_remove_confirm: "Remove the passkey from this profile? You can still unlock it with the PIN.",
+  passkey_register_error: "The passkey could not be registered. Your browser or device may not support the PRF extension.",
+  passkey_login_button: "Unlock with passkey",
+  passkey_login_error: "The profile could not be unlocked with the passkey.",
+  auto_lock_title: "Auto-lock",
+  auto_lock_description: "Lock the profile after a period without activity so the PIN has to be entered again. Unsaved input in open forms is kept.",
+  auto_lock_minutes_label: "Lock after minutes of inactivity (0 = never)",
+  auto_lock_tab_hidden_label: "Lock as soon as this tab is hidden",
+  auto_lock_saved: "Auto-lock settings saved.",
+  auto_lock_invalid: "Please enter a number of minutes of 0 or more.",
+  backup_title: "Backup",
+  backup_description: "A backup contains all data of this profile: transactions, settings, accounts, import templates and history, and the price caches. It is encrypted with its own password and can be restored on another device or Traeky installation.",
+  backup_export_title: "Create backup",
+  backup_password_label: "Backup password",
+  backup_password_confirm_label: "Repeat backup password",
+  backup_export_button: "Download encrypted backup",
+  backup_export_done: "The backup has been downloaded. Keep the password safe; without it the backup cannot be restored.",
+  backup_export_error: "The backup could not be created.",
+  backup_restore_title: "Restore backup",
+  backup_restore_file_label: "Backup file",
+  backup_restore_target_label: "Restore into",
+  backup_restore_target_new: "A new profile",
+  backup_restore_target_active: "This profile (replaces all its data)",
+  backup_restore_name_placeholder: "Name from the backup",
+  backup_restore_button: "Restore backup",
+  backup_restore_confirm_replace: "Replace all data of this profile with the backup? This cannot be undone.",
+  backup_restore_done: "The backup has been restored.",
+  backup_restore_error: "The backup could not be restored. Please check the file and the password.",
+  backup_error_password_required: "Please enter a backup password.",
+  backup_error_password_mismatch: "The passwords do not match.",
+  backup_error_file_required: "Please choose a backup file.",
 };export default en;
\ No newline at end of file